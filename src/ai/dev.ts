@@ -5,3 +5,9 @@ import '@/ai/flows/evaluate-answer.ts';
 import '@/ai/flows/analyze-communication-flow.ts';
 import '@/ai/flows/analyze-presentation-flow.ts';
 import '@/ai/flows/generate-presentation-suggestion.ts';
+import '@/ai/flows/generate-follow-up-questions.ts';
+import '@/ai/flows/extract-resume-profile.ts';
+import '@/ai/flows/analyze-job-description.ts';
+import '@/ai/flows/generate-competency-questions.ts';
+import '@/ai/flows/summarize-interview-session.ts';
+import '@/ai/flows/analyze-star-answer.ts';
@@ -9,6 +9,8 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import { computeTextMetrics, describeOccurrences, TextMetricsSchema } from '@/lib/text-metrics';
+import { describePauseMetrics, PauseMetricsSchema } from '@/lib/pause-analysis';
 
 const AnalyzeCommunicationInputSchema = z.object({
   answerText: z.string().describe('The transcribed text of the user\'s answer.'),
@@ -17,38 +19,52 @@ const AnalyzeCommunicationInputSchema = z.object({
     .min(0) // Allow 0, not just positive values.
     .describe('The duration of the user\'s answer recording in seconds.'),
   jobRole: z.string().describe('The job role the user is interviewing for.'),
-  difficulty: z.enum(['Beginner', 'Intermediate', 'Advanced']).describe('The difficulty level of the interview.')
+  difficulty: z.enum(['Beginner', 'Intermediate', 'Advanced']).describe('The difficulty level of the interview.'),
+  pauseMetrics: PauseMetricsSchema.optional().describe('Pauses measured from the recorded audio, when there is a recording.'),
 });
 export type AnalyzeCommunicationInput = z.infer<
   typeof AnalyzeCommunicationInputSchema
 >;
 
-// New schema for the prompt's internal use, including wordCount
+// The prompt gets the locally computed metrics as fixed facts.
 const AnalyzeCommunicationPromptInternalInputSchema = AnalyzeCommunicationInputSchema.extend({
   wordCount: z.number().describe('The number of words in the transcribed answer.'),
+  speakingPaceWPM: z.number().describe('The speaking pace in words per minute, or 0 if unknown.'),
+  fillerSummary: z.string().describe('Filler words found in the answer, with counts.'),
+  hedgeSummary: z.string().describe('Hedge phrases found in the answer, with counts.'),
+  sentenceCount: z.number(),
+  averageSentenceLength: z.number(),
+  lexicalDiversity: z.number(),
+  pauseSummary: z.string().optional().describe('Pauses measured from the recorded audio.'),
 });
 type AnalyzeCommunicationPromptInternalInput = z.infer<typeof AnalyzeCommunicationPromptInternalInputSchema>;
 
-
-const AnalyzeCommunicationOutputSchema = z.object({
+// What the model writes. The numeric fields are merged in from the local metrics.
+const AnalyzeCommunicationPromptOutputSchema = z.object({
   clarityFeedback: z
     .string()
     .describe('Feedback on the clarity and conciseness of the answer.'),
-  fillerWordsFound: z
-    .array(z.string())
-    .describe('A list of common filler words identified in the answer.'),
   confidenceCues: z
     .string()
     .describe(
       'Observations on textual cues that might indicate confidence or lack thereof (e.g., hesitant phrasing, strong statements).'
     ),
-  speakingPaceWPM: z
-    .number()
-    .describe('Calculated speaking pace in words per minute.'),
   paceFeedback: z
     .string()
     .describe('Feedback on the speaking pace (e.g., too fast, too slow, good).'),
 });
+
+const AnalyzeCommunicationOutputSchema = AnalyzeCommunicationPromptOutputSchema.extend({
+  fillerWordsFound: z
+    .array(z.string())
+    .describe('Every filler word occurrence found in the answer.'),
+  speakingPaceWPM: z
+    .number()
+    .describe('Calculated speaking pace in words per minute.'),
+  // Optional because attempts saved before local metrics existed do not have it.
+  textMetrics: TextMetricsSchema.optional(),
+  pauseMetrics: PauseMetricsSchema.optional(), // Only for answers with a recording
+});
 export type AnalyzeCommunicationOutput = z.infer<
   typeof AnalyzeCommunicationOutputSchema
 >;
@@ -59,40 +75,39 @@ export async function analyzeCommunication(
   return analyzeCommunicationFlow(input);
 }
 
-const COMMON_FILLER_WORDS = [
-  'um', 'uh', 'er', 'ah', 'like', 'actually', 'basically', 'seriously',
-  'literally', 'you know', 'i mean', 'so', 'well', 'right', 'okay', 'see'
-].join(', ');
-
 const analyzeCommunicationPrompt = ai.definePrompt({
   name: 'analyzeCommunicationPrompt',
   model: 'googleai/gemini-1.5-flash',
-  input: {schema: AnalyzeCommunicationPromptInternalInputSchema}, // Use the new extended schema
-  output: {schema: AnalyzeCommunicationOutputSchema},
+  input: {schema: AnalyzeCommunicationPromptInternalInputSchema},
+  output: {schema: AnalyzeCommunicationPromptOutputSchema},
   prompt: `You are an expert communication coach analyzing an interview answer.
 The candidate is interviewing for the role of "{{jobRole}}" at "{{difficulty}}" level.
 The candidate's transcribed answer is below:
 ---
 {{{answerText}}}
 ---
-The answer was delivered in {{recordingDurationSeconds}} seconds.
-The answer has {{wordCount}} words.
 
-Based *only* on the provided text, duration, and word count, analyze the following:
-
-1.  **Clarity and Conciseness**: Provide brief feedback on how clear and to-the-point the answer is.
+These facts were measured from the transcript. Treat them as correct; do not recount or recalculate them:
+- Duration: {{recordingDurationSeconds}} seconds
+- Word count: {{wordCount}}
+- Speaking pace: {{speakingPaceWPM}} WPM (0 means it could not be measured)
+- Filler words: {{fillerSummary}}
+- Hedge phrases: {{hedgeSummary}}
+- Sentences: {{sentenceCount}}, averaging {{averageSentenceLength}} words
+- Lexical diversity: {{lexicalDiversity}} (0-1, higher is more varied)
+{{#if pauseSummary}}
+- Pauses in the recording: {{pauseSummary}}
+{{/if}}
+
+Based on the text and these facts, provide:
+
+1.  **Clarity and Conciseness** ("clarityFeedback"): Brief feedback on how clear and to-the-point the answer is. Long average sentences or low lexical diversity are worth mentioning.
     For example: "The answer is clear and directly addresses the question." or "The answer could be more concise and focused."
 
-2.  **Filler Words**: Identify common English filler words from the text. Common filler words include: ${COMMON_FILLER_WORDS}.
-    List any identified filler words. If none, state that.
-
-3.  **Confidence Cues (Textual)**: Analyze the text for phrasing that might suggest confidence (e.g., declarative statements, direct language) or a lack of confidence (e.g., excessive hedging, overly cautious language, very short hesitant sentences).
-    Provide a brief observation. For example: "The use of direct statements suggests confidence." or "Phrases like 'I guess' or 'maybe' could suggest some hesitation."
+2.  **Confidence Cues** ("confidenceCues"): Analyze the phrasing for confidence (e.g., declarative statements, direct language) or a lack of it. Use the hedge phrases and filler words above as evidence. If pauses were measured, a long wait before the first word or several long pauses can signal hesitation; a few short pauses are natural.
+    For example: "The use of direct statements suggests confidence." or "Phrases like 'I guess' or 'maybe' could suggest some hesitation."
 
-4.  **Speaking Pace**:
-    - The answer has {{wordCount}} words.
-    - Calculate the speaking pace in words per minute (WPM) using the formula: ({{wordCount}} / {{recordingDurationSeconds}}) * 60. Round to the nearest whole number.
-    - Provide feedback on this pace. General guidelines:
+3.  **Speaking Pace** ("paceFeedback"): Feedback on the measured pace. General guidelines:
         - Slow: < 120 WPM (can sound hesitant or unenthusiastic)
         - Conversational/Good: 120-160 WPM (generally ideal for interviews)
         - Fast: > 160 WPM (can be hard to follow or sound rushed)
@@ -111,26 +126,32 @@ const analyzeCommunicationFlow = ai.defineFlow(
     outputSchema: AnalyzeCommunicationOutputSchema,
   },
   async (input: AnalyzeCommunicationInput) => {
-    const wordCount = input.answerText.split(/\s+/).filter(Boolean).length;
-    let calculatedWPM = 0;
-    if (input.recordingDurationSeconds > 0 && wordCount > 0) {
-        calculatedWPM = Math.round((wordCount / input.recordingDurationSeconds) * 60);
-    }
+    const metrics = computeTextMetrics(input.answerText, input.recordingDurationSeconds);
 
     const promptInternalInput: AnalyzeCommunicationPromptInternalInput = {
         ...input,
-        wordCount: wordCount,
+        wordCount: metrics.wordCount,
+        speakingPaceWPM: metrics.wordsPerMinute ?? 0,
+        fillerSummary: describeOccurrences(metrics.fillerWords),
+        hedgeSummary: describeOccurrences(metrics.hedgePhrases),
+        sentenceCount: metrics.sentenceCount,
+        averageSentenceLength: metrics.averageSentenceLength,
+        lexicalDiversity: metrics.lexicalDiversity,
+        pauseSummary: input.pauseMetrics ? describePauseMetrics(input.pauseMetrics) : undefined,
     };
 
     const {output} = await analyzeCommunicationPrompt(promptInternalInput);
-    
-    // Ensure the WPM in the output is the one we calculated, and override pace feedback if calculation is not possible.
-    if (output) {
-        output.speakingPaceWPM = calculatedWPM;
-        if (wordCount === 0 || input.recordingDurationSeconds === 0) {
-            output.paceFeedback = "Speaking pace could not be calculated as no recording duration was provided or the answer was empty.";
-        }
-    }
-    return output!;
+
+    return {
+        ...output!,
+        // Override pace feedback if the pace could not be measured.
+        paceFeedback: metrics.wordsPerMinute === null
+            ? "Speaking pace could not be calculated as no recording duration was provided or the answer was empty."
+            : output!.paceFeedback,
+        fillerWordsFound: metrics.fillerWords.map(occurrence => occurrence.phrase),
+        speakingPaceWPM: metrics.wordsPerMinute ?? 0,
+        textMetrics: metrics,
+        pauseMetrics: input.pauseMetrics,
+    };
   }
 );
@@ -0,0 +1,56 @@
+'use server';
+
+/**
+ * @fileOverview Reads a pasted job posting and extracts the seniority and required competencies.
+ *
+ * - analyzeJobDescription - A function that extracts the role, seniority and competencies from a job posting.
+ * - AnalyzeJobDescriptionInput - The input type for the analyzeJobDescription function.
+ * - AnalyzeJobDescriptionOutput - The return type for the analyzeJobDescription function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import { JobDescriptionAnalysisSchema, type JobDescriptionAnalysis } from '@/lib/job-description';
+
+const AnalyzeJobDescriptionInputSchema = z.object({
+  jobDescription: z.string().describe('The full text of the job posting.'),
+});
+export type AnalyzeJobDescriptionInput = z.infer<typeof AnalyzeJobDescriptionInputSchema>;
+export type AnalyzeJobDescriptionOutput = JobDescriptionAnalysis;
+
+export async function analyzeJobDescription(
+  input: AnalyzeJobDescriptionInput
+): Promise<AnalyzeJobDescriptionOutput> {
+  return analyzeJobDescriptionFlow(input);
+}
+
+const analyzeJobDescriptionPrompt = ai.definePrompt({
+  name: 'analyzeJobDescriptionPrompt',
+  model: 'googleai/gemini-1.5-flash',
+  input: {schema: AnalyzeJobDescriptionInputSchema},
+  output: {schema: JobDescriptionAnalysisSchema},
+  prompt: `You are a hiring manager preparing an interview plan from a job posting.
+
+Job posting:
+---
+{{{jobDescription}}}
+---
+
+Extract:
+1. The job title.
+2. The seniority the posting asks for, judged from the title, years of experience and scope of responsibilities. Map it to an interview difficulty: "Beginner" for intern, graduate and junior roles, "Intermediate" for mid-level roles, "Advanced" for senior, staff, principal and lead roles.
+3. Between 3 and 8 competencies the candidate must demonstrate. Merge overlapping requirements, skip boilerplate (benefits, company blurb, equal-opportunity statements) and put the most emphasised competencies first. Include both technical skills and behaviours (e.g. ownership, communication) when the posting asks for them.
+`,
+});
+
+const analyzeJobDescriptionFlow = ai.defineFlow(
+  {
+    name: 'analyzeJobDescriptionFlow',
+    inputSchema: AnalyzeJobDescriptionInputSchema,
+    outputSchema: JobDescriptionAnalysisSchema,
+  },
+  async input => {
+    const {output} = await analyzeJobDescriptionPrompt(input);
+    return output!;
+  }
+);
@@ -10,6 +10,9 @@
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
 import { presentationTimeFrames } from '@/lib/types';
+import { computeTextMetrics, describeOccurrences, TextMetricsSchema } from '@/lib/text-metrics';
+import { describePauseMetrics, PauseMetricsSchema } from '@/lib/pause-analysis';
+import { describeProsodyMetrics, ProsodyMetricsSchema } from '@/lib/prosody-analysis';
 
 const timeFrameToMinutes = (timeFrame: (typeof presentationTimeFrames)[number]): number => {
   return parseInt(timeFrame.split(' ')[0]);
@@ -24,10 +27,13 @@ const AnalyzePresentationInputSchema = z.object({
     .number()
     .min(0)
     .describe('The actual duration of the recording in seconds.'),
+  pauseMetrics: PauseMetricsSchema.optional().describe('Pauses measured from the recorded audio, when there is a recording.'),
+  prosodyMetrics: ProsodyMetricsSchema.optional().describe('Loudness and pitch measured from the recorded audio, when there is a recording.'),
 });
 export type AnalyzePresentationInput = z.infer<typeof AnalyzePresentationInputSchema>;
 
-const AnalyzePresentationOutputSchema = z.object({
+// What the model writes. The measured data points are merged in from the local metrics.
+const AnalyzePresentationPromptOutputSchema = z.object({
   structureFeedback: z.string().describe('Feedback on the logical structure and flow of the presentation (e.g., clear intro, body, conclusion).'),
   clarityFeedback: z.string().describe('Feedback on the clarity of the message and how easy it was to understand.'),
   engagementFeedback: z.string().describe('Feedback on how engaging the presentation was, based on the language used.'),
@@ -39,9 +45,15 @@ const AnalyzePresentationOutputSchema = z.object({
   engagementScore: z.number().min(0).max(100).describe('A score (0-100) for how engaging the presentation was.'),
   timeManagementScore: z.number().min(0).max(100).describe('A score (0-100) for time management, comparing actual vs. target duration.'),
   fillerWordsScore: z.number().min(0).max(100).describe('A score (0-100) based on the minimal use of filler words. Higher is better.'),
+});
 
+const AnalyzePresentationOutputSchema = AnalyzePresentationPromptOutputSchema.extend({
   speakingPaceWPM: z.number().describe('The calculated speaking pace in words per minute.'),
-  fillerWordsFound: z.array(z.string()).describe('A list of common filler words identified in the transcript.'),
+  fillerWordsFound: z.array(z.string()).describe('Every filler word occurrence found in the transcript.'),
+  // Optional because attempts saved before local metrics existed do not have it.
+  textMetrics: TextMetricsSchema.optional(),
+  pauseMetrics: PauseMetricsSchema.optional(), // Only for presentations with a recording
+  prosodyMetrics: ProsodyMetricsSchema.optional(), // Likewise
 });
 export type AnalyzePresentationOutput = z.infer<typeof AnalyzePresentationOutputSchema>;
 
@@ -51,16 +63,25 @@ export async function analyzePresentation(
   return analyzePresentationFlow(input);
 }
 
-const COMMON_FILLER_WORDS = [
-  'um', 'uh', 'er', 'ah', 'like', 'actually', 'basically', 'seriously',
-  'literally', 'you know', 'i mean', 'so', 'well', 'right', 'okay', 'see'
-].join(', ');
-
 const analyzePresentationPrompt = ai.definePrompt({
     name: 'analyzePresentationPrompt',
     model: 'googleai/gemini-1.5-flash',
-    input: { schema: AnalyzePresentationInputSchema.extend({ wordCount: z.number(), speakingPaceWPM: z.number(), targetMinutes: z.number() }) },
-    output: { schema: AnalyzePresentationOutputSchema },
+    input: {
+      schema: AnalyzePresentationInputSchema.extend({
+        wordCount: z.number(),
+        speakingPaceWPM: z.number(),
+        targetMinutes: z.number(),
+        fillerCount: z.number(),
+        fillerSummary: z.string(),
+        hedgeSummary: z.string(),
+        sentenceCount: z.number(),
+        averageSentenceLength: z.number(),
+        lexicalDiversity: z.number(),
+        pauseSummary: z.string().optional(),
+        prosodySummary: z.string().optional(),
+      }),
+    },
+    output: { schema: AnalyzePresentationPromptOutputSchema },
     prompt: `You are an expert public speaking coach. Your task is to analyze a presentation transcript and provide constructive feedback as a JSON object.
 
     Here is the context:
@@ -68,8 +89,20 @@ const analyzePresentationPrompt = ai.definePrompt({
     - Target Audience: "{{audience}}"
     - Target Time Frame: {{timeFrame}} ({{targetMinutes}} minutes)
     - Actual Recorded Duration: {{actualDurationSeconds}} seconds
+
+    These facts were measured from the transcript. Treat them as correct; do not recount or recalculate them:
     - Word Count: {{wordCount}} words
     - Speaking Pace: {{speakingPaceWPM}} WPM
+    - Filler Words ({{fillerCount}} total): {{fillerSummary}}
+    - Hedge Phrases: {{hedgeSummary}}
+    - Sentences: {{sentenceCount}}, averaging {{averageSentenceLength}} words
+    - Lexical Diversity: {{lexicalDiversity}} (0-1, higher is more varied)
+    {{#if pauseSummary}}
+    - Pauses in the recording: {{pauseSummary}}
+    {{/if}}
+    {{#if prosodySummary}}
+    - Vocal delivery in the recording: {{prosodySummary}}
+    {{/if}}
 
     Here is the presentation transcript:
     ---
@@ -81,20 +114,16 @@ const analyzePresentationPrompt = ai.definePrompt({
     1.  **Textual Feedback**:
         - "structureFeedback": Evaluate the presentation's structure. Does it have a clear introduction, body, and conclusion? Is the flow logical?
         - "clarityFeedback": How clear and easy to understand was the content? Was jargon used appropriately for the target audience?
-        - "engagementFeedback": Based on the language, how engaging was the presentation? Does it use storytelling, rhetorical questions, or other techniques to hold the audience's attention?
-        - "paceFeedback": Comment on the speaking pace ({{speakingPaceWPM}} WPM). A good presentation pace is typically 140-170 WPM. Is the pace appropriate?
+        - "engagementFeedback": Based on the language, how engaging was the presentation? Does it use storytelling, rhetorical questions, or other techniques to hold the audience's attention? If vocal delivery was measured, comment on vocal variety too: a narrow pitch range or long monotone stretches make even good material hard to follow, while varied pitch and volume keep attention.
+        - "paceFeedback": Comment on the speaking pace ({{speakingPaceWPM}} WPM). A good presentation pace is typically 140-170 WPM. Is the pace appropriate? If pauses were measured, comment on them too: deliberate pauses help a presentation, but long hesitations or a slow start do not.
         - "timeManagementFeedback": Analyze the time management. The target was {{targetMinutes}} minutes, and the actual duration was {{actualDurationSeconds}} seconds. Was the presenter on time, too short, or too long? Provide specific feedback.
 
     2.  **Scores (0-100)**:
         - "structureScore": Rate the structure and logical flow.
         - "clarityScore": Rate the clarity of the message.
-        - "engagementScore": Rate how well the presenter likely engaged the audience.
+        - "engagementScore": Rate how well the presenter likely engaged the audience. If vocal delivery was measured, weigh vocal variety: lower the score for a flat delivery or long monotone stretches.
         - "timeManagementScore": Rate the time management. A perfect score is for being very close to the target duration. Deduct points for being significantly over or under time.
-        - "fillerWordsScore": Rate the use of filler words. A higher score means fewer filler words were used. A few filler words are acceptable, but many should result in a lower score.
-
-    3.  **Data Points**:
-        - "speakingPaceWPM": The calculated speaking pace, which is {{speakingPaceWPM}}.
-        - "fillerWordsFound": Identify and list common English filler words from the transcript. Common filler words include: ${COMMON_FILLER_WORDS}. If none, return an empty array.
+        - "fillerWordsScore": Rate the use of filler words, using the measured filler count relative to the word count. A higher score means fewer filler words were used. A few filler words are acceptable, but many should result in a lower score.
     `,
 });
 
@@ -106,20 +135,32 @@ const analyzePresentationFlow = ai.defineFlow(
     outputSchema: AnalyzePresentationOutputSchema,
   },
   async (input) => {
-    const wordCount = input.transcript.split(/\s+/).filter(Boolean).length;
-    let speakingPaceWPM = 0;
-    if (input.actualDurationSeconds > 0) {
-      speakingPaceWPM = Math.round((wordCount / input.actualDurationSeconds) * 60);
-    }
+    const metrics = computeTextMetrics(input.transcript, input.actualDurationSeconds);
+    const speakingPaceWPM = metrics.wordsPerMinute ?? 0;
     const targetMinutes = timeFrameToMinutes(input.timeFrame);
 
     const {output} = await analyzePresentationPrompt({
         ...input,
-        wordCount,
+        wordCount: metrics.wordCount,
         speakingPaceWPM,
-        targetMinutes
+        targetMinutes,
+        fillerCount: metrics.fillerWords.length,
+        fillerSummary: describeOccurrences(metrics.fillerWords),
+        hedgeSummary: describeOccurrences(metrics.hedgePhrases),
+        sentenceCount: metrics.sentenceCount,
+        averageSentenceLength: metrics.averageSentenceLength,
+        lexicalDiversity: metrics.lexicalDiversity,
+        pauseSummary: input.pauseMetrics ? describePauseMetrics(input.pauseMetrics) : undefined,
+        prosodySummary: input.prosodyMetrics ? describeProsodyMetrics(input.prosodyMetrics) : undefined,
     });
 
-    return output!;
+    return {
+        ...output!,
+        speakingPaceWPM,
+        fillerWordsFound: metrics.fillerWords.map(occurrence => occurrence.phrase),
+        textMetrics: metrics,
+        pauseMetrics: input.pauseMetrics,
+        prosodyMetrics: input.prosodyMetrics,
+    };
   }
 );
@@ -0,0 +1,58 @@
+'use server';
+
+/**
+ * @fileOverview Splits a behavioral answer into STAR (Situation, Task, Action, Result) segments and rates each part.
+ *
+ * - analyzeStarAnswer - A function that finds the STAR segments, flags weak or missing parts and scores completeness.
+ * - AnalyzeStarAnswerInput - The input type for the analyzeStarAnswer function.
+ * - AnalyzeStarAnswerOutput - The return type for the analyzeStarAnswer function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import { StarAnalysisSchema, starCompleteness } from '@/lib/star-analysis';
+
+const AnalyzeStarAnswerInputSchema = z.object({
+  question: z.string().describe('The behavioral interview question asked.'),
+  answer: z.string().describe('The transcript of the candidate\'s answer.'),
+  jobRole: z.string().describe('The job role the user is interviewing for.'),
+});
+export type AnalyzeStarAnswerInput = z.infer<typeof AnalyzeStarAnswerInputSchema>;
+
+const AnalyzeStarAnswerOutputSchema = StarAnalysisSchema;
+export type AnalyzeStarAnswerOutput = z.infer<typeof AnalyzeStarAnswerOutputSchema>;
+
+// Completeness is computed from the ratings in code, so the model is not asked for it.
+const AnalyzeStarAnswerPromptOutputSchema = StarAnalysisSchema.omit({ completeness: true });
+
+export async function analyzeStarAnswer(input: AnalyzeStarAnswerInput): Promise<AnalyzeStarAnswerOutput> {
+  return analyzeStarAnswerFlow(input);
+}
+
+const analyzeStarAnswerPrompt = ai.definePrompt({
+  name: 'analyzeStarAnswerPrompt',
+  model: 'googleai/gemini-1.5-flash',
+  input: {schema: AnalyzeStarAnswerInputSchema},
+  output: {schema: AnalyzeStarAnswerPromptOutputSchema},
+  prompt: `You are an interview coach reviewing how well a candidate for the role of {{jobRole}} used the STAR method (Situation, Task, Action, Result) in a behavioral answer.
+
+Question: {{{question}}}
+Answer: {{{answer}}}
+
+1. segments: split the answer into the spans that describe the situation, the task, the actions taken and the result. Copy each quote word for word from the answer, without paraphrasing or fixing grammar, so it can be found in the transcript. Leave out filler that belongs to no part. A part may have several segments or none.
+2. ratings: rate each of the four parts exactly once. "strong" means clear and specific, "weak" means present but vague or generic, "missing" means the answer never covers it. Actions should be the candidate's own ("I", not only "we"), and a strong result is concrete and, where possible, quantified.
+3. issues: point out specific spans that weaken the answer, quoting them word for word, e.g. a result with no numbers ("Your Result is not quantified"), an action credited to the team, or a situation with too much background. Return an empty list if there are none.
+`,
+});
+
+const analyzeStarAnswerFlow = ai.defineFlow(
+  {
+    name: 'analyzeStarAnswerFlow',
+    inputSchema: AnalyzeStarAnswerInputSchema,
+    outputSchema: AnalyzeStarAnswerOutputSchema,
+  },
+  async input => {
+    const {output} = await analyzeStarAnswerPrompt(input);
+    return { ...output!, completeness: starCompleteness(output!.ratings) };
+  }
+);
@@ -1,6 +1,6 @@
 'use server';
 /**
- * @fileOverview Evaluate user answers, providing a score and highlighting strengths and weaknesses.
+ * @fileOverview Evaluate user answers against a weighted rubric, providing a score and highlighting strengths and weaknesses.
  *
  * - evaluateAnswer - A function that evaluates the answer.
  * - EvaluateAnswerInput - The input type for the evaluateAnswer function.
@@ -9,25 +9,53 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import { CompetencySchema } from '@/lib/job-description';
+import { interviewTypes } from '@/lib/types';
+import { CriterionResultSchema, RubricCriterionSchema, RubricScoreSchema, computeRubricScore, interviewRubrics } from '@/lib/rubrics';
 
 const EvaluateAnswerInputSchema = z.object({
   question: z.string().describe('The interview question asked.'),
   answer: z.string().describe('The user provided answer.'),
   jobRole: z.string().describe('The job role the user is interviewing for.'),
   difficulty: z.enum(['Beginner', 'Intermediate', 'Advanced']).describe('The difficulty level of the interview.'),
+  interviewType: z.enum(interviewTypes).describe('The type of interview. Selects the built-in rubric the answer is graded against.'),
+  rubric: z
+    .object({ name: z.string(), criteria: z.array(RubricCriterionSchema).min(1) })
+    .optional()
+    .describe('A custom rubric to grade against instead of the built-in one for the interview type.'),
+  followUps: z
+    .array(z.object({ question: z.string(), answer: z.string() }))
+    .optional()
+    .describe('Follow-up questions and answers in the same thread, oldest first. When present, the whole exchange is evaluated.'),
+  competency: CompetencySchema
+    .optional()
+    .describe('The competency from the job posting that this question tests. When present, the answer is scored against it.'),
 });
 
 export type EvaluateAnswerInput = z.infer<typeof EvaluateAnswerInputSchema>;
 
 const EvaluateAnswerOutputSchema = z.object({
-  score: z.number().describe('The score of the answer out of 100.'),
+  score: z.number().describe('The score of the answer out of 100, the weighted average of the rubric scores.'),
+  rubric: z.array(RubricScoreSchema).optional().describe('The score and justification for each rubric criterion. Missing on attempts graded before rubrics.'),
+  rubricName: z.string().optional().describe('The name of the custom rubric the answer was graded against. Unset for built-in rubrics.'),
   strengths: z.string().describe('The strengths of the answer.'),
   weaknesses: z.string().describe('The weaknesses of the answer.'),
   modelAnswer: z.string().describe('A model answer to the question.'),
+  competencyFeedback: z.string().optional().describe('How well the answer demonstrated the competency being tested. Only set when a competency was given.'),
 });
 
 export type EvaluateAnswerOutput = z.infer<typeof EvaluateAnswerOutputSchema>;
 
+// Weights stay out of the prompt; they only matter when the score is combined in code.
+const EvaluateAnswerPromptInputSchema = EvaluateAnswerInputSchema.extend({
+  criteria: z.array(RubricCriterionSchema.omit({ weight: true })),
+});
+
+// The overall score is computed from the criteria in code, so the model is not asked for one.
+const EvaluateAnswerPromptOutputSchema = EvaluateAnswerOutputSchema.omit({ score: true, rubric: true, rubricName: true }).extend({
+  criteria: z.array(CriterionResultSchema).describe('One entry per rubric criterion, in the order given.'),
+});
+
 export async function evaluateAnswer(input: EvaluateAnswerInput): Promise<EvaluateAnswerOutput> {
   return evaluateAnswerFlow(input);
 }
@@ -35,15 +63,39 @@ export async function evaluateAnswer(input: EvaluateAnswerInput): Promise<Evalua
 const evaluateAnswerPrompt = ai.definePrompt({
   name: 'evaluateAnswerPrompt',
   model: 'googleai/gemini-1.5-flash',
-  input: {schema: EvaluateAnswerInputSchema},
-  output: {schema: EvaluateAnswerOutputSchema},
+  input: {schema: EvaluateAnswerPromptInputSchema},
+  output: {schema: EvaluateAnswerPromptOutputSchema},
   prompt: `You are an AI career coach specializing in evaluating interview answers for the role of {{jobRole}}. 
 You will be provided with an interview question, and the candidate's answer. 
 
-Based on the answer, you will provide a score out of 100, highlight the strengths and weaknesses of the answer, and provide a model answer that the candidate can use to improve.
+Grade the answer against each criterion of {{#if rubric}}the "{{rubric.name}}" rubric{{else}}this {{interviewType}} interview rubric{{/if}}. For every criterion give a score out of 100 and a one or two sentence justification that points at what the candidate said or left out. Use the criterion id exactly as written.
+{{#each criteria}}
+- {{this.id}} ({{this.name}}): {{this.description}}
+{{#each this.anchors}}
+  - An answer scoring {{this.score}} looks like: {{this.description}}
+{{/each}}
+{{/each}}
+Where a criterion lists example answers for score levels, calibrate its score against them.
+
+Then highlight the strengths and weaknesses of the answer, and provide a model answer that the candidate can use to improve.
 
 Question: {{{question}}}
 Answer: {{{answer}}}
+{{#if followUps.length}}
+
+The interviewer then asked follow-up questions:
+{{#each followUps}}
+Follow-up: {{{this.question}}}
+Answer: {{{this.answer}}}
+{{/each}}
+
+Evaluate the full exchange: credit details the candidate added in the follow-ups, and note where they still stayed vague. The model answer should answer the original question.
+{{/if}}
+{{#if competency}}
+
+This question tests the competency "{{competency.name}}": {{competency.description}}
+Score the criteria by how convincingly it demonstrates this competency at the level the role needs, not just by how well it answers the literal question. Fill in competencyFeedback with the evidence of the competency you found, and what was missing. The model answer should showcase the competency.
+{{/if}}
 
 Your evaluation:
 `,
@@ -56,7 +108,13 @@ const evaluateAnswerFlow = ai.defineFlow(
     outputSchema: EvaluateAnswerOutputSchema,
   },
   async input => {
-    const {output} = await evaluateAnswerPrompt(input);
-    return output!;
+    const rubricCriteria = input.rubric?.criteria ?? interviewRubrics[input.interviewType];
+    const {output} = await evaluateAnswerPrompt({
+      ...input,
+      criteria: rubricCriteria.map(({ id, name, description, anchors }) => ({ id, name, description, anchors })),
+    });
+    const { criteria, ...feedback } = output!;
+    const { score, rubric } = computeRubricScore(rubricCriteria, criteria);
+    return { ...feedback, score, rubric, rubricName: input.rubric?.name };
   }
 );
@@ -0,0 +1,57 @@
+'use server';
+
+/**
+ * @fileOverview Turns the raw text of a resume into a structured profile.
+ *
+ * - extractResumeProfile - A function that extracts experience, skills and projects from resume text.
+ * - ExtractResumeProfileInput - The input type for the extractResumeProfile function.
+ * - ExtractResumeProfileOutput - The return type for the extractResumeProfile function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import { ResumeProfileSchema, type ResumeProfile } from '@/lib/resume-profile';
+
+const ExtractResumeProfileInputSchema = z.object({
+  resumeText: z.string().describe('The plain text of the candidate\'s resume.'),
+});
+export type ExtractResumeProfileInput = z.infer<typeof ExtractResumeProfileInputSchema>;
+export type ExtractResumeProfileOutput = ResumeProfile;
+
+export async function extractResumeProfile(
+  input: ExtractResumeProfileInput
+): Promise<ExtractResumeProfileOutput> {
+  return extractResumeProfileFlow(input);
+}
+
+const extractResumeProfilePrompt = ai.definePrompt({
+  name: 'extractResumeProfilePrompt',
+  model: 'googleai/gemini-1.5-flash',
+  input: {schema: ExtractResumeProfileInputSchema},
+  output: {schema: ResumeProfileSchema},
+  prompt: `You are a recruiter reading a candidate's resume. Extract a structured profile from the text below.
+
+Resume:
+---
+{{{resumeText}}}
+---
+
+Rules:
+- Only use information that is in the resume. Do not invent companies, dates, skills or results.
+- Keep company and project names exactly as written; interview questions will refer to them.
+- For each role, list the most concrete highlights (what they built, led or changed, and the result).
+- If a section is missing from the resume, return an empty array for it.
+`,
+});
+
+const extractResumeProfileFlow = ai.defineFlow(
+  {
+    name: 'extractResumeProfileFlow',
+    inputSchema: ExtractResumeProfileInputSchema,
+    outputSchema: ResumeProfileSchema,
+  },
+  async input => {
+    const {output} = await extractResumeProfilePrompt(input);
+    return output!;
+  }
+);
@@ -0,0 +1,77 @@
+'use server';
+
+/**
+ * @fileOverview Generates interview questions that each test one competency from a job posting.
+ *
+ * - generateCompetencyQuestions - A function that generates questions mapped to competencies.
+ * - GenerateCompetencyQuestionsInput - The input type for the generateCompetencyQuestions function.
+ * - GenerateCompetencyQuestionsOutput - The return type for the generateCompetencyQuestions function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import { CompetencySchema } from '@/lib/job-description';
+
+const GenerateCompetencyQuestionsInputSchema = z.object({
+  jobRole: z.string().describe('The job role the user is interviewing for.'),
+  seniority: z.string().describe('The seniority the posting asks for.'),
+  difficultyLevel: z.enum(['Beginner', 'Intermediate', 'Advanced']).describe('The difficulty level of the interview.'),
+  competencies: z.array(CompetencySchema).describe('The competencies to write questions for.'),
+  numQuestions: z.number().describe('The total number of questions to generate.'),
+  avoidQuestions: z.array(z.string()).optional().describe('Questions already asked in this session, which must not be repeated.'),
+});
+export type GenerateCompetencyQuestionsInput = z.infer<typeof GenerateCompetencyQuestionsInputSchema>;
+
+const GenerateCompetencyQuestionsOutputSchema = z.object({
+  questions: z.array(z.object({
+    competency: z.string().describe('The name of the competency the question tests, exactly as given.'),
+    question: z.string(),
+  })).describe('The generated questions, each mapped to one competency.'),
+});
+export type GenerateCompetencyQuestionsOutput = z.infer<typeof GenerateCompetencyQuestionsOutputSchema>;
+
+export async function generateCompetencyQuestions(
+  input: GenerateCompetencyQuestionsInput
+): Promise<GenerateCompetencyQuestionsOutput> {
+  return generateCompetencyQuestionsFlow(input);
+}
+
+const generateCompetencyQuestionsPrompt = ai.definePrompt({
+  name: 'generateCompetencyQuestionsPrompt',
+  model: 'googleai/gemini-1.5-flash',
+  input: {schema: GenerateCompetencyQuestionsInputSchema},
+  output: {schema: GenerateCompetencyQuestionsOutputSchema},
+  prompt: `You are interviewing a candidate for a {{seniority}} {{jobRole}} position ({{difficultyLevel}} difficulty).
+
+The job posting asks for these competencies:
+{{#each competencies}}
+- {{name}}: {{description}}
+{{/each}}
+
+Write {{numQuestions}} interview questions. Each question must test exactly one of the competencies above, and its "competency" field must be that competency's name, copied exactly.
+- Spread the questions across the competencies in the order listed; only reuse a competency once every competency has a question.
+- Pitch each question at the seniority of the role: scope, ambiguity and trade-offs should match what a {{seniority}} hire would face.
+- Mix scenario, behavioural and technical questions as suits each competency.
+{{#if avoidQuestions.length}}
+
+Do not repeat or rephrase these questions, which were already asked:
+{{#each avoidQuestions}}
+- {{{this}}}
+{{/each}}
+{{/if}}
+`,
+});
+
+const generateCompetencyQuestionsFlow = ai.defineFlow(
+  {
+    name: 'generateCompetencyQuestionsFlow',
+    inputSchema: GenerateCompetencyQuestionsInputSchema,
+    outputSchema: GenerateCompetencyQuestionsOutputSchema,
+  },
+  async input => {
+    const {output} = await generateCompetencyQuestionsPrompt(input);
+    // Drop any question mapped to a competency that was not asked for.
+    const names = new Set(input.competencies.map(competency => competency.name));
+    return { questions: output!.questions.filter(item => names.has(item.competency)) };
+  }
+);
@@ -0,0 +1,78 @@
+'use server';
+
+/**
+ * @fileOverview Generates probing follow-up questions for an answer, the way a real interviewer digs deeper.
+ *
+ * - generateFollowUpQuestions - A function that generates one or two follow-up questions.
+ * - GenerateFollowUpQuestionsInput - The input type for the generateFollowUpQuestions function.
+ * - GenerateFollowUpQuestionsOutput - The return type for the generateFollowUpQuestions function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+
+const GenerateFollowUpQuestionsInputSchema = z.object({
+  question: z.string().describe('The original interview question.'),
+  answer: z.string().describe('The candidate\'s transcribed answer to the original question.'),
+  weaknesses: z.string().describe('The weaknesses identified when the answer was evaluated.'),
+  jobRole: z.string().describe('The job role the user is interviewing for.'),
+  difficulty: z.enum(['Beginner', 'Intermediate', 'Advanced']).describe('The difficulty level of the interview.'),
+  conversation: z
+    .array(z.object({ question: z.string(), answer: z.string() }))
+    .optional()
+    .describe('Follow-up questions already asked and answered, oldest first.'),
+});
+export type GenerateFollowUpQuestionsInput = z.infer<typeof GenerateFollowUpQuestionsInputSchema>;
+
+const GenerateFollowUpQuestionsOutputSchema = z.object({
+  followUps: z.array(z.string()).min(1).max(2).describe('One or two probing follow-up questions.'),
+});
+export type GenerateFollowUpQuestionsOutput = z.infer<typeof GenerateFollowUpQuestionsOutputSchema>;
+
+export async function generateFollowUpQuestions(
+  input: GenerateFollowUpQuestionsInput
+): Promise<GenerateFollowUpQuestionsOutput> {
+  return generateFollowUpQuestionsFlow(input);
+}
+
+const generateFollowUpQuestionsPrompt = ai.definePrompt({
+  name: 'generateFollowUpQuestionsPrompt',
+  model: 'googleai/gemini-1.5-flash',
+  input: {schema: GenerateFollowUpQuestionsInputSchema},
+  output: {schema: GenerateFollowUpQuestionsOutputSchema},
+  prompt: `You are an experienced interviewer for the role of {{jobRole}} at {{difficulty}} level.
+You asked the candidate a question and want to probe deeper, the way a real interviewer would.
+
+Original question: {{{question}}}
+Candidate's answer: {{{answer}}}
+
+{{#if conversation.length}}
+Follow-ups already asked in this thread:
+{{#each conversation}}
+Q: {{{this.question}}}
+A: {{{this.answer}}}
+{{/each}}
+{{/if}}
+
+Weaknesses noted in the answer so far: {{{weaknesses}}}
+
+Write one or two short follow-up questions. They should:
+- Target the weaknesses or the vaguest parts of the answers (missing specifics, unclear personal contribution, unstated results or trade-offs).
+- Build on what the candidate actually said rather than starting a new topic.
+- Not repeat a follow-up that was already asked.
+
+Return only the questions.
+`,
+});
+
+const generateFollowUpQuestionsFlow = ai.defineFlow(
+  {
+    name: 'generateFollowUpQuestionsFlow',
+    inputSchema: GenerateFollowUpQuestionsInputSchema,
+    outputSchema: GenerateFollowUpQuestionsOutputSchema,
+  },
+  async input => {
+    const {output} = await generateFollowUpQuestionsPrompt(input);
+    return output!;
+  }
+);
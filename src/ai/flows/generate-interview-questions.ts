@@ -10,12 +10,14 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import { ResumeProfileSchema } from '@/lib/resume-profile';
 
 const GenerateInterviewQuestionsInputSchema = z.object({
   jobRole: z.string().describe('The job role for which interview questions should be generated.'),
   interviewType: z.string().describe('The type of interview (e.g., Technical, Behavioral).'),
   difficultyLevel: z.string().describe('The difficulty level (Beginner, Intermediate, Advanced).'),
   numQuestions: z.number().default(3).describe('The number of questions to generate. Defaults to 3.'),
+  resumeProfile: ResumeProfileSchema.optional().describe('The candidate\'s resume profile. When present, questions should reference their real experience.'),
 });
 export type GenerateInterviewQuestionsInput = z.infer<
   typeof GenerateInterviewQuestionsInputSchema
@@ -50,6 +52,28 @@ const generateInterviewQuestionsPrompt = ai.definePrompt({
   3. Quality over Trivia: Focus on real-world, high-quality questions that assess genuine understanding and capability, not just rote memorization or trivia.
   4. Unique Generation: Strive to generate unique sets of questions each time, even if the input parameters are the same.
   5. Professional Tone: Maintain a professional and supportive tone throughout.
+{{#if resumeProfile}}
+
+  The candidate has shared their resume. Summary: {{resumeProfile.summary}}
+  Experience:
+  {{#each resumeProfile.experience}}
+  - {{title}} at {{company}}{{#if period}} ({{period}}){{/if}}
+    {{#each highlights}}
+    * {{this}}
+    {{/each}}
+  {{/each}}
+  {{#if resumeProfile.projects.length}}
+  Projects:
+  {{#each resumeProfile.projects}}
+  - {{name}}: {{description}}
+  {{/each}}
+  {{/if}}
+  {{#if resumeProfile.skills.length}}
+  Skills: {{#each resumeProfile.skills}}{{this}}{{#unless @last}}, {{/unless}}{{/each}}
+  {{/if}}
+
+  6. Use the Resume: Ground at least half of the questions in this resume. Name the actual companies, projects and skills (e.g. "Tell me about the migration you led at <company>"), and probe the claimed results for depth. Only reference things that appear in the resume, and keep every question relevant to the {{jobRole}} role.
+{{/if}}
 
   Example: If the user selects "Senior Frontend Developer", "Technical" interview, "Advanced" difficulty, generate {{numQuestions}} questions that a senior frontend developer would genuinely encounter, covering complex JavaScript concepts, architectural patterns, performance optimization, and leadership/mentoring scenarios, rather than basic HTML/CSS questions.
 
@@ -0,0 +1,91 @@
+'use server';
+
+/**
+ * @fileOverview Summarizes a whole interview session into a readiness report.
+ *
+ * - summarizeInterviewSession - A function that produces a readiness score, recurring patterns and an improvement plan.
+ * - SummarizeInterviewSessionInput - The input type for the summarizeInterviewSession function.
+ * - SummarizeInterviewSessionOutput - The return type for the summarizeInterviewSession function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+
+const SummarizeInterviewSessionInputSchema = z.object({
+  jobRole: z.string().describe('The job role the user is interviewing for.'),
+  interviewType: z.string().describe('The type of interview (e.g., Technical, Behavioral).'),
+  difficulty: z.enum(['Beginner', 'Intermediate', 'Advanced']).describe('The difficulty level of the interview.'),
+  averageScore: z.number().describe('The mean score of the answered questions, computed in code.'),
+  answers: z.array(z.object({
+    number: z.number().describe('The question number the user saw, starting at 1.'),
+    question: z.string(),
+    answer: z.string(),
+    score: z.number(),
+    strengths: z.string(),
+    weaknesses: z.string(),
+    competency: z.string().optional().describe('The competency from the job posting that the question tested.'),
+    clarityFeedback: z.string().optional(),
+    speakingPaceWPM: z.number().optional(),
+    fillerWordCount: z.number().optional(),
+  })).describe('Every answered question in the session, in the order asked.'),
+});
+export type SummarizeInterviewSessionInput = z.infer<typeof SummarizeInterviewSessionInputSchema>;
+
+const SummarizeInterviewSessionOutputSchema = z.object({
+  readinessScore: z.number().min(0).max(100).describe('Overall readiness for a real interview, out of 100.'),
+  readinessSummary: z.string().describe('Two or three sentences explaining the readiness score.'),
+  recurringStrengths: z.array(z.string()).describe('Strengths that showed up in more than one answer.'),
+  recurringWeaknesses: z.array(z.string()).describe('Weaknesses that showed up in more than one answer.'),
+  improvementPlan: z.array(z.object({
+    focus: z.string().describe('The skill or habit to work on.'),
+    action: z.string().describe('A concrete practice exercise for the next session.'),
+  })).describe('Improvement steps, highest priority first.'),
+});
+export type SummarizeInterviewSessionOutput = z.infer<typeof SummarizeInterviewSessionOutputSchema>;
+
+export async function summarizeInterviewSession(
+  input: SummarizeInterviewSessionInput
+): Promise<SummarizeInterviewSessionOutput> {
+  return summarizeInterviewSessionFlow(input);
+}
+
+const summarizeInterviewSessionPrompt = ai.definePrompt({
+  name: 'summarizeInterviewSessionPrompt',
+  model: 'googleai/gemini-1.5-flash',
+  input: {schema: SummarizeInterviewSessionInputSchema},
+  output: {schema: SummarizeInterviewSessionOutputSchema},
+  prompt: `You are an AI career coach reviewing a complete {{interviewType}} practice interview for the role of {{jobRole}} at {{difficulty}} level.
+Each answer has already been scored individually. The average score was {{averageScore}}/100.
+
+{{#each answers}}
+Question {{this.number}}: {{{this.question}}}
+{{#if this.competency}}Competency tested: {{this.competency}}
+{{/if}}Answer: {{{this.answer}}}
+Score: {{this.score}}/100
+Strengths: {{{this.strengths}}}
+Weaknesses: {{{this.weaknesses}}}
+{{#if this.clarityFeedback}}Clarity: {{{this.clarityFeedback}}}
+{{/if}}{{#if this.speakingPaceWPM}}Pace: {{this.speakingPaceWPM}} WPM
+{{/if}}{{#if this.fillerWordCount}}Filler words: {{this.fillerWordCount}}
+{{/if}}
+{{/each}}
+
+Write a session report:
+1. readinessScore: how ready the candidate is for a real interview. Anchor it to the average score, adjusting by at most 10 points for consistency across answers and for communication habits.
+2. readinessSummary: explain the score in two or three sentences.
+3. recurringStrengths and recurringWeaknesses: patterns across answers, not a restatement of a single answer. Leave a list empty rather than inventing a pattern.
+4. improvementPlan: three to five steps, highest impact first. Each action should be something the candidate can practice in their next session.
+`,
+});
+
+const summarizeInterviewSessionFlow = ai.defineFlow(
+  {
+    name: 'summarizeInterviewSessionFlow',
+    inputSchema: SummarizeInterviewSessionInputSchema,
+    outputSchema: SummarizeInterviewSessionOutputSchema,
+  },
+  async input => {
+    const {output} = await summarizeInterviewSessionPrompt(input);
+    return output!;
+  }
+);
@@ -0,0 +1,56 @@
+
+// src/app/api/recordings/quota/route.ts
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { getRecordingQuotaBytes, listUserRecordings } from '@/lib/supabase/recording-storage';
+import { checkRecordingQuota } from '@/lib/recording-retention';
+
+const QuotaCheckRequestSchema = z.object({
+  sizeBytes: z.number().int().min(0),
+});
+
+// Reports how much of the user's recording quota is in use.
+export async function GET() {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'You must be signed in.' }, { status: 401 });
+  }
+
+  try {
+    const recordings = await listUserRecordings(supabase, user.id);
+    const usedBytes = recordings.reduce((total, recording) => total + recording.sizeBytes, 0);
+    const quotaBytes = await getRecordingQuotaBytes(supabase);
+    return NextResponse.json({ usedBytes, quotaBytes, recordingCount: recordings.length });
+  } catch (error) {
+    console.error('Error in GET /api/recordings/quota:', error);
+    return NextResponse.json({ error: 'Could not read storage usage.' }, { status: 500 });
+  }
+}
+
+// Checks whether an upload of `sizeBytes` fits before the client starts it. This
+// only saves the user a wasted upload; the database enforces the quota itself.
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'You must be signed in.' }, { status: 401 });
+  }
+
+  const parsed = QuotaCheckRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'A numeric sizeBytes is required.' }, { status: 400 });
+  }
+
+  try {
+    const recordings = await listUserRecordings(supabase, user.id);
+    const usedBytes = recordings.reduce((total, recording) => total + recording.sizeBytes, 0);
+    const result = checkRecordingQuota(usedBytes, parsed.data.sizeBytes, await getRecordingQuotaBytes(supabase));
+    return NextResponse.json(result, { status: result.allowed ? 200 : 413 });
+  } catch (error) {
+    console.error('Error in POST /api/recordings/quota:', error);
+    return NextResponse.json({ error: 'Could not check storage quota.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,87 @@
+
+// src/app/api/recordings/retention/route.ts
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { deleteRecordings, getRetentionPolicy, listUserRecordings, saveRetentionPolicy } from '@/lib/supabase/recording-storage';
+import { buildRetentionReport, selectRecordingsToDelete } from '@/lib/recording-retention';
+
+const RetentionPolicySchema = z.object({
+  keepLastN: z.number().int().min(1).nullable(),
+  maxAgeDays: z.number().int().min(1).nullable(),
+});
+
+const ApplyRetentionRequestSchema = z.object({
+  dryRun: z.boolean().default(false),
+});
+
+// Returns the saved policy and a dry-run report of what it would delete.
+export async function GET() {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'You must be signed in.' }, { status: 401 });
+  }
+
+  try {
+    const policy = await getRetentionPolicy(supabase, user.id);
+    const recordings = await listUserRecordings(supabase, user.id);
+    const report = buildRetentionReport(recordings, selectRecordingsToDelete(recordings, policy), true);
+    return NextResponse.json({ policy, report });
+  } catch (error) {
+    console.error('Error in GET /api/recordings/retention:', error);
+    return NextResponse.json({ error: 'Could not load the retention policy.' }, { status: 500 });
+  }
+}
+
+// Saves a new policy. It is not applied until the next POST.
+export async function PUT(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'You must be signed in.' }, { status: 401 });
+  }
+
+  const parsed = RetentionPolicySchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'keepLastN and maxAgeDays must be positive whole numbers or null.' }, { status: 400 });
+  }
+
+  try {
+    await saveRetentionPolicy(supabase, user.id, parsed.data);
+    const recordings = await listUserRecordings(supabase, user.id);
+    const report = buildRetentionReport(recordings, selectRecordingsToDelete(recordings, parsed.data), true);
+    return NextResponse.json({ policy: parsed.data, report });
+  } catch (error) {
+    console.error('Error in PUT /api/recordings/retention:', error);
+    return NextResponse.json({ error: 'Could not save the retention policy.' }, { status: 500 });
+  }
+}
+
+// Enforces the saved policy, deleting recordings unless `dryRun` is set.
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'You must be signed in.' }, { status: 401 });
+  }
+
+  const parsed = ApplyRetentionRequestSchema.safeParse(await request.json().catch(() => ({})));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'dryRun must be a boolean.' }, { status: 400 });
+  }
+
+  try {
+    const policy = await getRetentionPolicy(supabase, user.id);
+    const recordings = await listUserRecordings(supabase, user.id);
+    const toDelete = selectRecordingsToDelete(recordings, policy);
+    if (!parsed.data.dryRun) {
+      await deleteRecordings(supabase, user.id, toDelete.map(recording => recording.path));
+    }
+    return NextResponse.json({ policy, report: buildRetentionReport(recordings, toDelete, parsed.data.dryRun) });
+  } catch (error) {
+    console.error('Error in POST /api/recordings/retention:', error);
+    return NextResponse.json({ error: 'Could not apply the retention policy.' }, { status: 500 });
+  }
+}
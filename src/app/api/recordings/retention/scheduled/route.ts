@@ -0,0 +1,42 @@
+
+// src/app/api/recordings/retention/scheduled/route.ts
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { deleteRecordings, listRetentionPolicies, listUserRecordings } from '@/lib/supabase/recording-storage';
+import { selectRecordingsToDelete } from '@/lib/recording-retention';
+
+// Applies every user's retention policy. Meant for a scheduler (see
+// supabase_tables.sql), so retention doesn't depend on the uploading client.
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized.' }, { status: 401 });
+  }
+
+  const supabase = createAdminClient();
+  if (!supabase) {
+    return NextResponse.json({ error: 'SUPABASE_SERVICE_ROLE_KEY is not configured.' }, { status: 503 });
+  }
+
+  try {
+    const policies = await listRetentionPolicies(supabase);
+    let deletedCount = 0;
+    let failedUsers = 0;
+    // One user's failure shouldn't stop the others from being cleaned up.
+    for (const { userId, policy } of policies) {
+      try {
+        const toDelete = selectRecordingsToDelete(await listUserRecordings(supabase, userId), policy);
+        await deleteRecordings(supabase, userId, toDelete.map(recording => recording.path));
+        deletedCount += toDelete.length;
+      } catch (error) {
+        console.error(`Error applying the retention policy of user ${userId}:`, error);
+        failedUsers++;
+      }
+    }
+    return NextResponse.json({ users: policies.length, deletedCount, failedUsers });
+  } catch (error) {
+    console.error('Error in GET /api/recordings/retention/scheduled:', error);
+    return NextResponse.json({ error: 'Could not apply retention policies.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+
+// src/app/api/reports/route.ts
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { getInterviewAttempt, listSessionAttempts } from '@/lib/supabase/interview-attempts';
+import { getInterviewSession } from '@/lib/supabase/interview-sessions';
+import { getPresentationAttempt } from '@/lib/supabase/presentation-attempts';
+import { renderAttemptReportPdf, renderPresentationReportPdf, renderSessionReportPdf } from '@/lib/report-pdf';
+
+const ReportRequestSchema = z.object({
+  type: z.enum(['attempt', 'session', 'presentation']),
+  id: z.string().uuid(),
+});
+
+// Renders a PDF report for one of the user's interview answers, sessions or presentations.
+// Usage: GET /api/reports?type=attempt&id=<uuid>
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'You must be signed in.' }, { status: 401 });
+  }
+
+  const parsed = ReportRequestSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'A report type and id are required.' }, { status: 400 });
+  }
+  const { type, id } = parsed.data;
+
+  try {
+    let pdf: Uint8Array | null = null;
+    if (type === 'attempt') {
+      const attempt = await getInterviewAttempt(supabase, user.id, id);
+      if (attempt) pdf = await renderAttemptReportPdf(attempt);
+    } else if (type === 'session') {
+      const [session, attempts] = await Promise.all([
+        getInterviewSession(supabase, user.id, id),
+        listSessionAttempts(supabase, user.id, id),
+      ]);
+      if (session) pdf = await renderSessionReportPdf(session, attempts);
+    } else {
+      const attempt = await getPresentationAttempt(supabase, user.id, id);
+      if (attempt) pdf = await renderPresentationReportPdf(attempt);
+    }
+
+    if (!pdf) {
+      return NextResponse.json({ error: 'Report not found.' }, { status: 404 });
+    }
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="career-confidence-${type}-report-${id.slice(0, 8)}.pdf"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error in GET /api/reports:', error);
+    return NextResponse.json({ error: 'Could not generate the report.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+
+// src/app/api/resume/route.ts
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { deleteResumeProfile, getResumeProfile, saveResumeProfile } from '@/lib/supabase/resume-profiles';
+import { detectResumeFormat, MAX_RESUME_BYTES } from '@/lib/resume-profile';
+import { extractResumeText } from '@/lib/resume-text';
+import { extractResumeProfile } from '@/ai/flows/extract-resume-profile';
+
+// Returns the user's saved resume profile, or null.
+export async function GET() {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'You must be signed in.' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json({ resume: await getResumeProfile(supabase, user.id) });
+  } catch (error) {
+    console.error('Error in GET /api/resume:', error);
+    return NextResponse.json({ error: 'Could not load your resume profile.' }, { status: 500 });
+  }
+}
+
+// Extracts a structured profile from an uploaded PDF, DOCX or text resume and saves it.
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'You must be signed in.' }, { status: 401 });
+  }
+
+  const formData = await request.formData().catch(() => null);
+  const file = formData?.get('resume');
+  if (!file || !(file instanceof File)) {
+    return NextResponse.json({ error: 'No resume file uploaded.' }, { status: 400 });
+  }
+  if (file.size > MAX_RESUME_BYTES) {
+    return NextResponse.json({ error: 'Resumes must be 5MB or smaller.' }, { status: 413 });
+  }
+  const format = detectResumeFormat(file.name, file.type);
+  if (!format) {
+    return NextResponse.json({ error: 'Please upload a PDF, DOCX or plain text file.' }, { status: 415 });
+  }
+
+  try {
+    const resumeText = await extractResumeText(await file.arrayBuffer(), format);
+    if (!resumeText) {
+      return NextResponse.json({ error: 'No text could be read from this file. Scanned PDFs are not supported.' }, { status: 422 });
+    }
+    const profile = await extractResumeProfile({ resumeText });
+    const resume = await saveResumeProfile(supabase, user.id, file.name, profile);
+    return NextResponse.json({ resume });
+  } catch (error) {
+    console.error('Error in POST /api/resume:', error);
+    return NextResponse.json({ error: 'Could not read your resume. Please try another file.' }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'You must be signed in.' }, { status: 401 });
+  }
+
+  try {
+    await deleteResumeProfile(supabase, user.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in DELETE /api/resume:', error);
+    return NextResponse.json({ error: 'Could not remove your resume profile.' }, { status: 500 });
+  }
+}
@@ -6,6 +6,8 @@ import { Mic, Presentation as PresentationIcon } from 'lucide-react';
 import { useSupabase } from '@/contexts/supabase-auth-context';
 import { useRouter } from 'next/navigation';
 import { useEffect } from 'react';
+import ScoreTrendsPanel from '@/components/app/score-trends-panel';
+import DailyPracticeCard from '@/components/app/daily-practice-card';
 
 export default function DashboardPage() {
     const { user, isLoading } = useSupabase();
@@ -55,6 +57,8 @@ export default function DashboardPage() {
           </Card>
         </Link>
       </div>
+      <DailyPracticeCard />
+      <ScoreTrendsPanel />
     </div>
   );
 }
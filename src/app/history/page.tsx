@@ -0,0 +1,175 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useSupabase } from '@/contexts/supabase-auth-context';
+import useInterviewHistory from '@/hooks/use-interview-history';
+import useInterviewSessions from '@/hooks/use-interview-sessions';
+import HistoryFilterBar from '@/components/app/history-filter-bar';
+import InterviewAttemptItem from '@/components/app/interview-attempt-item';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Accordion } from '@/components/ui/accordion';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ChevronRight, ClipboardCheck, History, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { historyFiltersToSearchParams, parseHistoryFilters, type InterviewHistoryFilters } from '@/lib/history-filters';
+
+const PAGE_SIZE = 20;
+const SESSIONS_PAGE_SIZE = 5;
+
+function SessionReports() {
+  const [page, setPage] = useState(0);
+  const { sessions, pageCount, isLoading, error } = useInterviewSessions(page, SESSIONS_PAGE_SIZE);
+
+  return (
+    <Card className="shadow-xl">
+      <CardHeader>
+        <CardTitle className="text-2xl font-bold text-primary flex items-center gap-2">
+          <ClipboardCheck size={28} /> Session Reports
+        </CardTitle>
+        <CardDescription>Readiness reports from your finished interview sessions.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4 text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" /> Loading sessions...
+          </div>
+        ) : error ? (
+          <p className="text-center text-destructive py-4">We couldn't load your sessions. Please try again.</p>
+        ) : sessions.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4">Finish an interview to get your first session report.</p>
+        ) : (
+          <>
+            <ul className="divide-y">
+              {sessions.map((session) => (
+                <li key={session.id}>
+                  <Link href={`/history/sessions/${session.id}`} className="flex items-center justify-between gap-3 py-3 hover:bg-secondary/50 rounded-md px-2">
+                    <div>
+                      <p className="font-medium">{session.settings.jobRole}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {session.settings.interviewType} · {session.settings.difficultyLevel} · {format(new Date(session.timestamp), 'PPP')}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {session.report ? (
+                        <Badge variant={session.report.readinessScore >= 70 ? 'default' : 'secondary'}>
+                          Readiness: {Math.round(session.report.readinessScore)}
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline">No report</Badge>
+                      )}
+                      <ChevronRight size={18} className="text-muted-foreground" />
+                    </div>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+            {pageCount > 1 && (
+              <div className="flex items-center justify-between">
+                <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                  Newer
+                </Button>
+                <span className="text-sm text-muted-foreground">Page {page + 1} of {pageCount}</span>
+                <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount - 1}>
+                  Older
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function InterviewHistory() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { filters, page } = parseHistoryFilters(searchParams);
+  const { attempts, total, pageCount, isLoading, error } = useInterviewHistory(filters, page, PAGE_SIZE);
+
+  const navigate = (nextFilters: InterviewHistoryFilters, nextPage: number) => {
+    const query = historyFiltersToSearchParams(nextFilters, nextPage).toString();
+    router.replace(query ? `/history?${query}` : '/history', { scroll: false });
+  };
+
+  return (
+    <Card className="shadow-xl">
+      <CardHeader>
+        <CardTitle className="text-3xl font-bold text-primary flex items-center gap-2">
+          <History size={32} /> Attempt History
+        </CardTitle>
+        <CardDescription>
+          Filter and search every interview answer you have saved. Copy the URL to share this view.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Changing a filter always returns to the first page. */}
+        <HistoryFilterBar filters={filters} onChange={(nextFilters) => navigate(nextFilters, 0)} />
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" /> Loading history...
+          </div>
+        ) : error ? (
+          <p className="text-center text-destructive py-8">We couldn't load your history. Please try again.</p>
+        ) : attempts.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No attempts match these filters.</p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {total} attempt{total === 1 ? '' : 's'} found
+            </p>
+            <Accordion type="single" collapsible className="w-full">
+              {attempts.map((attempt) => (
+                <InterviewAttemptItem key={attempt.id} attempt={attempt} />
+              ))}
+            </Accordion>
+            {pageCount > 1 && (
+              <div className="flex items-center justify-between">
+                <Button variant="outline" size="sm" onClick={() => navigate(filters, page - 1)} disabled={page === 0}>
+                  Newer
+                </Button>
+                <span className="text-sm text-muted-foreground">Page {page + 1} of {pageCount}</span>
+                <Button variant="outline" size="sm" onClick={() => navigate(filters, page + 1)} disabled={page >= pageCount - 1}>
+                  Older
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function HistoryPage() {
+  const { user, isLoading } = useSupabase();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.replace('/');
+    }
+  }, [user, isLoading, router]);
+
+  if (isLoading || !user) {
+    return (
+      <div className="flex min-h-screen w-full items-center justify-center">
+        <Loader2 className="h-10 w-10 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto max-w-5xl p-4 md:p-8 space-y-8">
+      <SessionReports />
+      {/* useSearchParams needs a Suspense boundary for the static build. */}
+      <Suspense fallback={<Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />}>
+        <InterviewHistory />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { useSupabase } from '@/contexts/supabase-auth-context';
+import SessionReport from '@/components/app/session-report';
+import InterviewAttemptItem from '@/components/app/interview-attempt-item';
+import { Accordion } from '@/components/ui/accordion';
+import { Button } from '@/components/ui/button';
+import { getInterviewSession } from '@/lib/supabase/interview-sessions';
+import { listSessionAttempts } from '@/lib/supabase/interview-attempts';
+import type { InterviewSession, StoredAttempt } from '@/lib/types';
+
+export default function SessionReportPage() {
+  const { supabase, user, isLoading: isAuthLoading } = useSupabase();
+  const router = useRouter();
+  const { id } = useParams<{ id: string }>();
+  const [session, setSession] = useState<InterviewSession | null>(null);
+  const [attempts, setAttempts] = useState<StoredAttempt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isAuthLoading && !user) {
+      router.replace('/');
+    }
+  }, [user, isAuthLoading, router]);
+
+  useEffect(() => {
+    if (!user) return;
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const [loadedSession, loadedAttempts] = await Promise.all([
+          getInterviewSession(supabase, user.id, id),
+          listSessionAttempts(supabase, user.id, id),
+        ]);
+        setSession(loadedSession);
+        setAttempts(loadedAttempts);
+        setError(loadedSession ? null : 'This session could not be found.');
+      } catch (err) {
+        console.error('Error loading interview session:', err);
+        setError("We couldn't load this session. Please try again.");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, [supabase, user, id]);
+
+  if (isAuthLoading || !user || isLoading) {
+    return (
+      <div className="flex min-h-screen w-full items-center justify-center">
+        <Loader2 className="h-10 w-10 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto max-w-4xl p-4 md:p-8 space-y-6">
+      <Button asChild variant="ghost" size="sm">
+        <Link href="/history"><ArrowLeft size={16} className="mr-1" /> Back to History</Link>
+      </Button>
+      {error || !session ? (
+        <p className="text-center text-destructive py-8">{error}</p>
+      ) : (
+        <>
+          <SessionReport session={session} />
+          {attempts.length > 0 && (
+            <div>
+              <h2 className="text-xl font-semibold mb-3">Answers</h2>
+              <Accordion type="single" collapsible className="w-full">
+                {attempts.map((attempt) => (
+                  <InterviewAttemptItem key={attempt.id} attempt={attempt} showSessionLink={false} />
+                ))}
+              </Accordion>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, Suspense } from 'react';
 import { Button } from '@/components/ui/button';
 import InterviewSetupForm from '@/components/app/interview-setup-form';
 import InterviewArea from '@/components/app/interview-area';
 import ProgressTracker from '@/components/app/progress-tracker';
+import CompetencyCoverage from '@/components/app/competency-coverage';
+import SessionReport from '@/components/app/session-report';
 import { generateInterviewQuestions } from '@/ai/flows/generate-interview-questions';
 import type { GenerateInterviewQuestionsInput } from '@/ai/flows/generate-interview-questions';
 import { evaluateAnswer } from '@/ai/flows/evaluate-answer';
@@ -13,20 +15,37 @@ import type { EvaluateAnswerInput, EvaluateAnswerOutput } from '@/ai/flows/evalu
 import { provideModelAnswer } from '@/ai/flows/provide-model-answer';
 import type { ProvideModelAnswerInput } from '@/ai/flows/provide-model-answer';
 import { analyzeCommunication } from '@/ai/flows/analyze-communication-flow';
+import { analyzeStarAnswer } from '@/ai/flows/analyze-star-answer';
+import { generateFollowUpQuestions } from '@/ai/flows/generate-follow-up-questions';
+import { analyzeJobDescription } from '@/ai/flows/analyze-job-description';
+import { generateCompetencyQuestions } from '@/ai/flows/generate-competency-questions';
+import { summarizeInterviewSession } from '@/ai/flows/summarize-interview-session';
+import type { SummarizeInterviewSessionOutput } from '@/ai/flows/summarize-interview-session';
 import type { AnalyzeCommunicationInput, AnalyzeCommunicationOutput } from '@/ai/flows/analyze-communication-flow';
-import type { InterviewSettings, StoredAttempt } from '@/lib/types';
+import type { StarAnalysis } from '@/lib/star-analysis';
+import type { TranscriptTimings } from '@/lib/transcript-timing';
+import type { PauseMetrics } from '@/lib/pause-analysis';
+import type { FollowUpExchange, InterviewSession, InterviewSettings, StoredAttempt, SuggestedFollowUp } from '@/lib/types';
+import { threadPath } from '@/lib/follow-ups';
+import { buildCompetencyCoverage, type JobDescriptionAnalysis } from '@/lib/job-description';
+import { buildSessionQuestions, toSessionSummaryInput } from '@/lib/session-report';
 import { useToast } from '@/hooks/use-toast';
-import useLocalStorage from '@/hooks/use-local-storage';
+import { insertInterviewAttempt, updateInterviewAttempt } from '@/lib/supabase/interview-attempts';
+import { completeInterviewSession, createInterviewSession } from '@/lib/supabase/interview-sessions';
+import { getBankQuestions, saveBankQuestions } from '@/lib/supabase/question-bank';
+import useRecordingUpload from '@/hooks/use-recording-upload';
+import useAttemptOutbox from '@/hooks/use-attempt-outbox';
 import { v4 as uuidv4 } from 'uuid'; 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Award, RotateCcw, Loader2 } from 'lucide-react';
+import { Award, RotateCcw, Loader2, History } from 'lucide-react';
+import Link from 'next/link';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useSupabase } from '@/contexts/supabase-auth-context';
 import { useRouter } from 'next/navigation';
 
 
 export default function InterviewPage() {
-  const { user, isLoading: isAuthLoading } = useSupabase();
+  const { supabase, user, isLoading: isAuthLoading } = useSupabase();
   const router = useRouter();
 
   // Setup state
@@ -36,11 +55,31 @@ export default function InterviewPage() {
   const [isInterviewActive, setIsInterviewActive] = useState<boolean>(false);
   const [generatedQuestions, setGeneratedQuestions] = useState<string[]>([]);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState<number>(0);
+
+  // Job posting mode: the competency tested by each question
+  const [jobAnalysis, setJobAnalysis] = useState<JobDescriptionAnalysis | null>(null);
+  const [questionCompetencies, setQuestionCompetencies] = useState<string[]>([]);
+
+  // The session groups this run's attempts; its report is generated when the interview is finished
+  const [session, setSession] = useState<InterviewSession | null>(null);
+  const [attemptsByQuestion, setAttemptsByQuestion] = useState<Record<number, StoredAttempt>>({});
+  const [isGeneratingReport, setIsGeneratingReport] = useState<boolean>(false);
   
   // Feedback state for the current question
   const [currentEvaluation, setCurrentEvaluation] = useState<EvaluateAnswerOutput | null>(null);
   const [currentModelAnswer, setCurrentModelAnswer] = useState<string | null>(null);
   const [currentCommunicationAnalysis, setCurrentCommunicationAnalysis] = useState<AnalyzeCommunicationOutput | null>(null);
+  const [currentStarAnalysis, setCurrentStarAnalysis] = useState<StarAnalysis | null>(null);
+
+  // Question texts already in the user's question bank
+  const [savedBankQuestions, setSavedBankQuestions] = useState<string[]>([]);
+  const [isSavingToBank, setIsSavingToBank] = useState<boolean>(false);
+
+  // Follow-up thread for the current question. Follow-ups need the main answer to be saved first.
+  const [threadAttempt, setThreadAttempt] = useState<StoredAttempt | null>(null);
+  const [suggestedFollowUps, setSuggestedFollowUps] = useState<SuggestedFollowUp[]>([]);
+  const [activeFollowUp, setActiveFollowUp] = useState<SuggestedFollowUp | null>(null);
+  const [isLoadingFollowUps, setIsLoadingFollowUps] = useState<boolean>(false);
 
   // Loading states
   const [isLoadingSetup, setIsLoadingSetup] = useState<boolean>(false);
@@ -48,8 +87,10 @@ export default function InterviewPage() {
   const [isLoadingModelAnswer, setIsLoadingModelAnswer] = useState<boolean>(false);
   const [isLoadingNewQuestion, setIsLoadingNewQuestion] = useState<boolean>(false);
 
-  // Progress state
-  const [progress, setProgress] = useLocalStorage<StoredAttempt[]>('careerConfidenceProgress', []);
+  // Answers recorded without connectivity are queued and replayed once back online
+  const { enqueue: enqueueSubmission } = useAttemptOutbox({ autoSync: true });
+
+  const { uploadState: recordingUpload, startUpload: startRecordingUpload, resetUpload: resetRecordingUpload } = useRecordingUpload('interview');
 
   const { toast } = useToast();
 
@@ -69,22 +110,169 @@ export default function InterviewPage() {
     );
   }
 
+  const resetFollowUpThread = () => {
+    setThreadAttempt(null);
+    setSuggestedFollowUps([]);
+    setActiveFollowUp(null);
+  };
+
+  const resetSession = () => {
+    setJobAnalysis(null);
+    setQuestionCompetencies([]);
+    setSession(null);
+    setAttemptsByQuestion({});
+  };
+
+  // The questions were picked (by the user, from the bank or for daily practice), so they are not regenerated or skipped.
+  const hasChosenQuestions = !!(currentSettings?.customQuestion || currentSettings?.questionIds?.length || currentSettings?.dailyQuestions?.length);
+
+  const currentCompetency = jobAnalysis?.competencies.find(competency => competency.name === questionCompetencies[currentQuestionIndex]);
+
+  const recordQuestionAttempt = (attempt: StoredAttempt) => {
+    setAttemptsByQuestion(prev => ({ ...prev, [currentQuestionIndex]: attempt }));
+  };
+
+  const beginSession = async (settings: InterviewSettings, questions: string[], competencies: string[] = [], analysis?: JobDescriptionAnalysis) => {
+    if (!user) return;
+    const newSession: InterviewSession = {
+      id: uuidv4(),
+      timestamp: Date.now(),
+      settings: {
+        jobRole: settings.jobRole,
+        interviewType: settings.interviewType,
+        difficultyLevel: settings.difficultyLevel,
+      },
+      questions: buildSessionQuestions(questions, competencies, {}),
+      jobAnalysis: analysis,
+    };
+    try {
+      await createInterviewSession(supabase, user.id, newSession);
+      setSession(newSession);
+    } catch (error) {
+      // Answers are still saved individually; only the session report is lost.
+      console.error("Error creating interview session:", error);
+    }
+  };
+
+  const startJobDescriptionInterview = async (settings: InterviewSettings, jobDescription: string) => {
+    const analysis = await analyzeJobDescription({ jobDescription });
+    if (analysis.competencies.length === 0) {
+      toast({ title: "No Competencies Found", description: "We couldn't find any requirements in that posting. Please paste the full job description.", variant: "destructive" });
+      setCurrentSettings(null);
+      return;
+    }
+    const result = await generateCompetencyQuestions({
+      jobRole: settings.jobRole,
+      seniority: analysis.seniority,
+      difficultyLevel: analysis.difficultyLevel,
+      competencies: analysis.competencies,
+      numQuestions: settings.numQuestions,
+    });
+    if (result.questions.length === 0) {
+      toast({ title: "Error", description: "Could not generate questions. Please try again.", variant: "destructive" });
+      setCurrentSettings(null);
+      return;
+    }
+    const sessionSettings = { ...settings, difficultyLevel: analysis.difficultyLevel };
+    const questions = result.questions.map(item => item.question);
+    const competencies = result.questions.map(item => item.competency);
+    setCurrentSettings(sessionSettings);
+    setJobAnalysis(analysis);
+    setGeneratedQuestions(questions);
+    setQuestionCompetencies(competencies);
+    await beginSession(sessionSettings, questions, competencies, analysis);
+    setIsInterviewActive(true);
+    toast({ title: "Interview Started!", description: `Found ${analysis.competencies.length} competencies for a ${analysis.seniority} role. Generated ${result.questions.length} questions.` });
+  };
+
+  // Generates a replacement for the current question, keeping its competency in job posting mode.
+  const generateReplacementQuestion = async (settings: InterviewSettings): Promise<string | null> => {
+    if (jobAnalysis && currentCompetency) {
+      const result = await generateCompetencyQuestions({
+        jobRole: settings.jobRole,
+        seniority: jobAnalysis.seniority,
+        difficultyLevel: settings.difficultyLevel,
+        competencies: [currentCompetency],
+        numQuestions: 1,
+        avoidQuestions: generatedQuestions,
+      });
+      return result.questions[0]?.question ?? null;
+    }
+    const aiInput: GenerateInterviewQuestionsInput = {
+      jobRole: settings.jobRole,
+      interviewType: settings.interviewType,
+      difficultyLevel: settings.difficultyLevel,
+      numQuestions: 1,
+      resumeProfile: settings.resumeProfile,
+    };
+    const result = await generateInterviewQuestions(aiInput);
+    return result.questions?.[0] ?? null;
+  };
+
+  const replaceCurrentQuestion = (question: string) => {
+    const newQuestions = [...generatedQuestions];
+    newQuestions[currentQuestionIndex] = question;
+    setGeneratedQuestions(newQuestions);
+    setAttemptsByQuestion(prev => {
+      const next = { ...prev };
+      delete next[currentQuestionIndex];
+      return next;
+    });
+  };
+
   const handleStartInterview = async (settings: InterviewSettings) => {
     setIsLoadingSetup(true);
     setCurrentSettings(settings);
     
     // Clear previous interview state
+    resetFollowUpThread();
+    resetSession();
     setGeneratedQuestions([]);
     setCurrentQuestionIndex(0);
     setCurrentEvaluation(null);
     setCurrentModelAnswer(null);
     setCurrentCommunicationAnalysis(null);
+    setCurrentStarAnalysis(null);
 
     // Check if the user provided their own question
     if (settings.customQuestion && settings.customQuestion.length > 0) {
       setGeneratedQuestions([settings.customQuestion]);
+      await beginSession(settings, [settings.customQuestion]);
       setIsInterviewActive(true);
       toast({ title: "Interview Started!", description: "Ready to practice your custom question." });
+    } else if (settings.dailyQuestions && settings.dailyQuestions.length > 0) {
+      // Review questions are graded with the daily set's settings, even if they were first asked with others.
+      setGeneratedQuestions(settings.dailyQuestions);
+      await beginSession(settings, settings.dailyQuestions);
+      setIsInterviewActive(true);
+      toast({ title: "Daily Practice Started!", description: `${settings.dailyQuestions.length} question${settings.dailyQuestions.length === 1 ? '' : 's'} for today.` });
+    } else if (settings.questionIds && settings.questionIds.length > 0) {
+      try {
+        const bankQuestions = await getBankQuestions(supabase, user.id, settings.questionIds);
+        if (bankQuestions.length > 0) {
+          const questions = bankQuestions.map(item => item.question);
+          setGeneratedQuestions(questions);
+          setSavedBankQuestions(questions);
+          await beginSession(settings, questions);
+          setIsInterviewActive(true);
+          toast({ title: "Interview Started!", description: `Practicing ${questions.length} question${questions.length === 1 ? '' : 's'} from your bank.` });
+        } else {
+          toast({ title: "Questions Not Found", description: "The selected questions are no longer in your bank.", variant: "destructive" });
+          setCurrentSettings(null); // Go back to setup
+        }
+      } catch (error) {
+        console.error("Error loading bank questions:", error);
+        toast({ title: "Error", description: "Failed to load your questions. Please try again.", variant: "destructive" });
+        setCurrentSettings(null); // Go back to setup
+      }
+    } else if (settings.jobDescription) {
+      try {
+        await startJobDescriptionInterview(settings, settings.jobDescription);
+      } catch (error) {
+        console.error("Error analyzing job description:", error);
+        toast({ title: "Error", description: "Failed to read the job posting. Please try again.", variant: "destructive" });
+        setCurrentSettings(null); // Go back to setup
+      }
     } else {
       // Otherwise, generate questions with AI
       try {
@@ -93,10 +281,12 @@ export default function InterviewPage() {
           interviewType: settings.interviewType,
           difficultyLevel: settings.difficultyLevel,
           numQuestions: settings.numQuestions,
+          resumeProfile: settings.resumeProfile,
         };
         const result = await generateInterviewQuestions(aiInput);
         if (result.questions && result.questions.length > 0) {
           setGeneratedQuestions(result.questions);
+          await beginSession(settings, result.questions);
           setIsInterviewActive(true);
           toast({ title: "Interview Started!", description: `Generated ${result.questions.length} questions for you.` });
         } else {
@@ -113,14 +303,55 @@ export default function InterviewPage() {
   };
 
   // Method to handle answer submission, now includes optional recordedVideoUrl
-  const handleSubmitAnswer = async (answer: string, recordingDuration: number, recordedVideoUrl?: string | null) => {
+  const handleSubmitAnswer = async (answer: string, recordingDuration: number, recordedVideoUrl?: string | null, recordedVideo?: Blob | null, transcriptTimings?: TranscriptTimings | null, pauseMetrics?: PauseMetrics | null) => {
     if (!currentSettings || generatedQuestions.length === 0) return;
-    setIsLoadingEvaluation(true);
+    if (activeFollowUp) {
+      await handleSubmitFollowUp(activeFollowUp, answer, recordingDuration);
+      return;
+    }
+    const attemptId = uuidv4();
+    const attemptTimestamp = Date.now();
+    const attemptSettings: StoredAttempt['settings'] = {
+      jobRole: currentSettings.jobRole,
+      interviewType: currentSettings.interviewType,
+      difficultyLevel: currentSettings.difficultyLevel,
+    };
+    const queueOffline = (evaluation?: EvaluateAnswerOutput, communicationAnalysis?: AnalyzeCommunicationOutput, starAnalysis?: StarAnalysis) => {
+      enqueueSubmission({
+        id: attemptId,
+        timestamp: attemptTimestamp,
+        question: generatedQuestions[currentQuestionIndex],
+        userAnswer: answer,
+        recordingDurationSeconds: recordingDuration,
+        settings: attemptSettings,
+        practiceMode: recordedVideoUrl ? 'video' : 'audio',
+        evaluation,
+        communicationAnalysis,
+        starAnalysis,
+        transcriptTimings: transcriptTimings ?? undefined,
+        pauseMetrics: pauseMetrics ?? undefined,
+        rubric: currentSettings.rubric,
+        competency: currentCompetency,
+        sessionId: session?.id,
+      });
+      toast({ title: "Saved Offline", description: "You're offline. Your answer will be evaluated and synced once you're back online." });
+    };
+
     setCurrentEvaluation(null); 
     setCurrentModelAnswer(null);
     setCurrentCommunicationAnalysis(null);
+    setCurrentStarAnalysis(null);
+    resetRecordingUpload();
+    if (!navigator.onLine) {
+      queueOffline();
+      return;
+    }
+
+    setIsLoadingEvaluation(true);
     let evaluationResult: EvaluateAnswerOutput | null = null;
     let communicationResult: AnalyzeCommunicationOutput | null = null;
+    let starResult: StarAnalysis | null = null;
+    let isQueued = false;
     
     try {
       // Evaluate main answer content (text)
@@ -129,6 +360,9 @@ export default function InterviewPage() {
         answer: answer,
         jobRole: currentSettings.jobRole,
         difficulty: currentSettings.difficultyLevel,
+        interviewType: currentSettings.interviewType,
+        rubric: currentSettings.rubric,
+        competency: currentCompetency,
       };
       evaluationResult = await evaluateAnswer(evalInput);
       setCurrentEvaluation(evaluationResult);
@@ -142,6 +376,7 @@ export default function InterviewPage() {
             recordingDurationSeconds: recordingDuration,
             jobRole: currentSettings.jobRole,
             difficulty: currentSettings.difficultyLevel,
+            pauseMetrics: pauseMetrics ?? undefined,
           };
           communicationResult = await analyzeCommunication(commsInput);
           setCurrentCommunicationAnalysis(communicationResult);
@@ -154,45 +389,159 @@ export default function InterviewPage() {
         toast({ title: "Note", description: "No answer text and no recording duration. Communication analysis skipped."});
       }
 
+      // Check the STAR structure of behavioral answers
+      if (currentSettings.interviewType === 'Behavioral' && answer.trim()) {
+        try {
+          starResult = await analyzeStarAnswer({
+            question: generatedQuestions[currentQuestionIndex],
+            answer,
+            jobRole: currentSettings.jobRole,
+          });
+          setCurrentStarAnalysis(starResult);
+        } catch (starError) {
+          console.error("Error analyzing STAR structure:", starError);
+          toast({ title: "STAR Analysis Error", description: "Failed to analyze the structure of your answer.", variant: "destructive" });
+        }
+      }
+
     } catch (error) {
       console.error("Error during answer submission process:", error);
-      toast({ title: "Error", description: "Failed to process answer fully.", variant: "destructive" });
+      if (!navigator.onLine) {
+        // The connection dropped mid-request; keep the answer instead of saving a failed evaluation.
+        queueOffline();
+        isQueued = true;
+      } else {
+        toast({ title: "Error", description: "Failed to process answer fully.", variant: "destructive" });
+      }
     } finally {
       setIsLoadingEvaluation(false);
       // Save attempt regardless of full success, if core settings are present
-      if (currentSettings) {
+      if (currentSettings && user && !isQueued) {
         const newAttempt: StoredAttempt = {
-          id: uuidv4(),
-          timestamp: Date.now(),
+          id: attemptId,
+          timestamp: attemptTimestamp,
           question: generatedQuestions[currentQuestionIndex],
           userAnswer: answer,
           evaluation: evaluationResult || { score: 0, strengths: "N/A - Evaluation failed or no text.", weaknesses: "N/A - Evaluation failed or no text.", modelAnswer: "N/A - Evaluation failed or no text." },
-          settings: {
-            jobRole: currentSettings.jobRole,
-            interviewType: currentSettings.interviewType,
-            difficultyLevel: currentSettings.difficultyLevel,
-          },
+          settings: attemptSettings,
           communicationAnalysis: communicationResult ?? undefined,
+          starAnalysis: starResult ?? undefined,
+          transcriptTimings: transcriptTimings ?? undefined,
+          pauseMetrics: pauseMetrics ?? undefined,
           recordingDurationSeconds: recordingDuration,
           recordedVideoUrl: recordedVideoUrl ?? undefined,
           practiceMode: recordedVideoUrl ? 'video' : 'audio',
+          sessionId: session?.id,
         };
-        setProgress(prevProgress => [...prevProgress, newAttempt]);
-        if (!evaluationResult && (answer.trim() === "" && recordingDuration > 0)) {
-            toast({ title: "Attempt Saved (Partial)", description: "Attempt saved. Evaluation limited due to missing text transcript." });
-        } else if (!evaluationResult) {
-            toast({ title: "Attempt Saved (Evaluation Error)", description: "Attempt saved, but there was an issue with AI evaluation." });
+        try {
+          await insertInterviewAttempt(supabase, user.id, newAttempt);
+          setThreadAttempt(newAttempt);
+          recordQuestionAttempt(newAttempt);
+          if (recordedVideo) {
+            // Upload in the background; the feedback is already on screen.
+            const userId = user.id;
+            startRecordingUpload(attemptId, recordedVideo, path => updateInterviewAttempt(supabase, userId, attemptId, { recordingPath: path }));
+          }
+          if (!evaluationResult && (answer.trim() === "" && recordingDuration > 0)) {
+              toast({ title: "Attempt Saved (Partial)", description: "Attempt saved. Evaluation limited due to missing text transcript." });
+          } else if (!evaluationResult) {
+              toast({ title: "Attempt Saved (Evaluation Error)", description: "Attempt saved, but there was an issue with AI evaluation." });
+          }
+        } catch (saveError) {
+          console.error("Error saving attempt:", saveError);
+          if (!navigator.onLine && evaluationResult) {
+            queueOffline(evaluationResult, communicationResult ?? undefined, starResult ?? undefined);
+          } else {
+            toast({ title: "Save Failed", description: "Your attempt could not be saved to your history.", variant: "destructive" });
+          }
         }
       }
     }
   };
 
+  // Re-evaluates the whole thread with the new follow-up answer and saves it on the attempt.
+  const handleSubmitFollowUp = async (followUp: SuggestedFollowUp, answer: string, recordingDuration: number) => {
+    if (!currentSettings || !threadAttempt || !user) return;
+    const previousFollowUps = threadAttempt.followUps ?? [];
+    const exchange: FollowUpExchange = { ...followUp, answer, recordingDurationSeconds: recordingDuration };
+    // Answering the same follow-up again replaces its exchange: the thread tree is keyed by id.
+    const isReanswer = previousFollowUps.some(item => item.id === followUp.id);
+    const followUps: FollowUpExchange[] = isReanswer
+      ? previousFollowUps.map(item => (item.id === followUp.id ? exchange : item))
+      : [...previousFollowUps, exchange];
+
+    setCurrentEvaluation(null);
+    setCurrentModelAnswer(null);
+    setCurrentCommunicationAnalysis(null);
+    setCurrentStarAnalysis(null);
+    setSuggestedFollowUps(prev => prev.filter(item => item.id !== followUp.id));
+    setIsLoadingEvaluation(true);
+    try {
+      const evaluation = await evaluateAnswer({
+        question: threadAttempt.question,
+        answer: threadAttempt.userAnswer,
+        jobRole: currentSettings.jobRole,
+        difficulty: currentSettings.difficultyLevel,
+        interviewType: currentSettings.interviewType,
+        rubric: currentSettings.rubric,
+        followUps: followUps.map(({ question, answer }) => ({ question, answer })),
+        competency: currentCompetency,
+      });
+      setCurrentEvaluation(evaluation);
+      await updateInterviewAttempt(supabase, user.id, threadAttempt.id, { followUps, evaluation });
+      const updatedAttempt = { ...threadAttempt, followUps, evaluation };
+      setThreadAttempt(updatedAttempt);
+      recordQuestionAttempt(updatedAttempt);
+      toast({ title: "Follow-up Evaluated!", description: `Score for the full exchange: ${evaluation.score}/100` });
+    } catch (error) {
+      console.error("Error submitting follow-up answer:", error);
+      toast({ title: "Follow-up Failed", description: "Your follow-up answer could not be evaluated or saved. Please try again.", variant: "destructive" });
+      if (!isReanswer) setSuggestedFollowUps(prev => [followUp, ...prev]);
+      setCurrentEvaluation(threadAttempt.evaluation);
+    } finally {
+      setIsLoadingEvaluation(false);
+    }
+  };
+
+  const handleRequestFollowUps = async () => {
+    if (!currentSettings || !threadAttempt || !currentEvaluation) return;
+    // Dig into the follow-up that was just answered, or into the main answer.
+    const parentId = activeFollowUp && threadAttempt.followUps?.some(exchange => exchange.id === activeFollowUp.id) ? activeFollowUp.id : null;
+    setIsLoadingFollowUps(true);
+    try {
+      const result = await generateFollowUpQuestions({
+        question: threadAttempt.question,
+        answer: threadAttempt.userAnswer,
+        weaknesses: currentEvaluation.weaknesses,
+        jobRole: currentSettings.jobRole,
+        difficulty: currentSettings.difficultyLevel,
+        conversation: threadPath(threadAttempt.followUps ?? [], parentId).map(({ question, answer }) => ({ question, answer })),
+      });
+      setSuggestedFollowUps(prev => [...prev, ...result.followUps.map(question => ({ id: uuidv4(), parentId, question }))]);
+    } catch (error) {
+      console.error("Error generating follow-up questions:", error);
+      toast({ title: "Error", description: "Failed to generate follow-up questions.", variant: "destructive" });
+    } finally {
+      setIsLoadingFollowUps(false);
+    }
+  };
+
+  const handleAnswerFollowUp = (followUpId: string) => {
+    const followUp = suggestedFollowUps.find(item => item.id === followUpId);
+    if (!followUp) return;
+    setActiveFollowUp(followUp);
+    setCurrentEvaluation(null);
+    setCurrentModelAnswer(null);
+    setCurrentCommunicationAnalysis(null);
+    setCurrentStarAnalysis(null);
+  };
+
   const handleGetModelAnswer = async () => {
     if (!currentSettings || generatedQuestions.length === 0) return;
     setIsLoadingModelAnswer(true);
     try {
       const aiInput: ProvideModelAnswerInput = {
-        question: generatedQuestions[currentQuestionIndex],
+        question: activeFollowUp?.question ?? generatedQuestions[currentQuestionIndex],
         jobRole: currentSettings.jobRole,
         difficulty: currentSettings.difficultyLevel,
       };
@@ -207,34 +556,30 @@ export default function InterviewPage() {
   };
 
   const handleNextQuestion = () => {
+    resetFollowUpThread();
     if (currentQuestionIndex < generatedQuestions.length - 1) {
       setCurrentQuestionIndex(prev => prev + 1);
       setCurrentEvaluation(null);
       setCurrentModelAnswer(null);
       setCurrentCommunicationAnalysis(null);
+      setCurrentStarAnalysis(null);
     } else {
       handleFinishInterview();
     }
   };
   
   const handleSkipQuestion = async () => {
-    if (!currentSettings || currentSettings.customQuestion) return;
+    if (!currentSettings || hasChosenQuestions) return;
     setIsLoadingNewQuestion(true);
+    resetFollowUpThread();
     setCurrentEvaluation(null);
     setCurrentModelAnswer(null);
     setCurrentCommunicationAnalysis(null);
+    setCurrentStarAnalysis(null);
     try {
-      const aiInput: GenerateInterviewQuestionsInput = {
-        jobRole: currentSettings.jobRole,
-        interviewType: currentSettings.interviewType,
-        difficultyLevel: currentSettings.difficultyLevel,
-        numQuestions: 1, 
-      };
-      const result = await generateInterviewQuestions(aiInput);
-      if (result.questions && result.questions.length > 0) {
-        const newQuestions = [...generatedQuestions];
-        newQuestions[currentQuestionIndex] = result.questions[0]; 
-        setGeneratedQuestions(newQuestions);
+      const newQuestion = await generateReplacementQuestion(currentSettings);
+      if (newQuestion) {
+        replaceCurrentQuestion(newQuestion);
         toast({ title: "Question Skipped", description: "A new question has been generated." });
       } else {
          toast({ title: "Skip Failed", description: "Could not generate a new question. Moving to next if available.", variant: "destructive" });
@@ -252,23 +597,17 @@ export default function InterviewPage() {
   };
 
   const handleRegenerateQuestion = async () => {
-     if (!currentSettings || currentSettings.customQuestion) return;
+     if (!currentSettings || hasChosenQuestions) return;
     setIsLoadingNewQuestion(true);
+    resetFollowUpThread();
     setCurrentEvaluation(null);
     setCurrentModelAnswer(null);
     setCurrentCommunicationAnalysis(null);
+    setCurrentStarAnalysis(null);
     try {
-      const aiInput: GenerateInterviewQuestionsInput = {
-        jobRole: currentSettings.jobRole,
-        interviewType: currentSettings.interviewType,
-        difficultyLevel: currentSettings.difficultyLevel,
-        numQuestions: 1, 
-      };
-      const result = await generateInterviewQuestions(aiInput);
-      if (result.questions && result.questions.length > 0) {
-        const newQuestions = [...generatedQuestions];
-        newQuestions[currentQuestionIndex] = result.questions[0]; 
-        setGeneratedQuestions(newQuestions);
+      const newQuestion = await generateReplacementQuestion(currentSettings);
+      if (newQuestion) {
+        replaceCurrentQuestion(newQuestion);
         toast({ title: "Question Regenerated", description: "A new version of the question is ready." });
       } else {
          toast({ title: "Regeneration Failed", description: "Could not regenerate the question.", variant: "destructive" });
@@ -281,9 +620,59 @@ export default function InterviewPage() {
   }
 
 
-  const handleFinishInterview = () => {
+  const handleSaveQuestionToBank = async () => {
+    if (!currentSettings || !user) return;
+    const question = generatedQuestions[currentQuestionIndex];
+    setIsSavingToBank(true);
+    try {
+      await saveBankQuestions(supabase, user.id, [{
+        question,
+        jobRole: currentSettings.jobRole,
+        interviewType: currentSettings.interviewType,
+        difficultyLevel: currentSettings.difficultyLevel,
+        source: currentSettings.customQuestion ? 'custom' : 'generated',
+      }]);
+      // Saving a question that is already in the bank is a no-op, so it counts as saved either way.
+      setSavedBankQuestions(prev => [...prev, question]);
+      toast({ title: "Saved to Question Bank", description: "Star it or practice it again from the Questions page." });
+    } catch (error) {
+      console.error("Error saving question to bank:", error);
+      toast({ title: "Save Failed", description: "The question could not be saved to your bank.", variant: "destructive" });
+    }
+    setIsSavingToBank(false);
+  };
+
+  const handleFinishInterview = async () => {
     setIsInterviewActive(false);
     toast({ title: "Interview Finished!", description: "Great job on completing your practice session!" });
+    if (session && user) {
+      await finishSession(session, user.id);
+    }
+  };
+
+  // Summarizes the answered questions and stores the report on the session.
+  const finishSession = async (activeSession: InterviewSession, userId: string) => {
+    const questions = buildSessionQuestions(generatedQuestions, questionCompetencies, attemptsByQuestion);
+    const attempts = Object.values(attemptsByQuestion);
+    setIsGeneratingReport(true);
+    let report: SummarizeInterviewSessionOutput | undefined;
+    if (attempts.length > 0) {
+      try {
+        report = await summarizeInterviewSession(toSessionSummaryInput(activeSession.settings, questions, attempts));
+      } catch (error) {
+        console.error("Error summarizing interview session:", error);
+        toast({ title: "Report Failed", description: "Your answers are saved, but the session report could not be generated.", variant: "destructive" });
+      }
+    }
+    try {
+      setSession(await completeInterviewSession(supabase, userId, activeSession.id, { questions, report }));
+    } catch (error) {
+      console.error("Error saving interview session:", error);
+      toast({ title: "Save Failed", description: "The session report could not be saved to your history.", variant: "destructive" });
+      setSession({ ...activeSession, questions, report });
+    } finally {
+      setIsGeneratingReport(false);
+    }
   };
   
   const isLastQuestion = currentQuestionIndex === generatedQuestions.length - 1;
@@ -294,12 +683,16 @@ export default function InterviewPage() {
         <>
           {/* If interview is not active, show setup or completion card */}
           {(currentSettings === null || generatedQuestions.length === 0 || (currentQuestionIndex === 0 && !currentEvaluation)) ? 
-            (<InterviewSetupForm 
-              onSubmit={handleStartInterview} 
-              isLoading={isLoadingSetup}
-            />)
+            (/* The setup form reads search params, which need a Suspense boundary for the static build. */
+            <Suspense fallback={<Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />}>
+              <InterviewSetupForm 
+                onSubmit={handleStartInterview} 
+                isLoading={isLoadingSetup}
+              />
+            </Suspense>)
           : 
-            (<Card className="w-full max-w-md mx-auto text-center shadow-xl">
+            (<>
+            <Card className={`w-full mx-auto text-center shadow-xl ${jobAnalysis && !session ? 'max-w-xl' : 'max-w-md'}`}>
               <CardHeader>
                 <Award size={64} className="mx-auto text-accent mb-4" />
                 <CardTitle className="text-3xl font-bold">Interview Complete!</CardTitle>
@@ -307,14 +700,30 @@ export default function InterviewPage() {
                   Well done! You've completed your practice session. Review your progress below.
                 </CardDescription>
               </CardHeader>
-              <CardContent>
+              <CardContent className="space-y-6">
+                {/* The session report shows coverage itself; this covers runs without a saved session. */}
+                {jobAnalysis && !session && (
+                  <CompetencyCoverage
+                    jobTitle={jobAnalysis.jobTitle}
+                    seniority={jobAnalysis.seniority}
+                    coverage={buildCompetencyCoverage(jobAnalysis.competencies, buildSessionQuestions(generatedQuestions, questionCompetencies, attemptsByQuestion))}
+                  />
+                )}
+                {session?.completedAt && (
+                  <Button asChild variant="outline" className="w-full">
+                    <Link href={`/history/sessions/${session.id}`}><History size={18} className="mr-2" /> Open Report in History</Link>
+                  </Button>
+                )}
                 <Button onClick={() => {
                     setCurrentSettings(null); // This will take user back to setup form
+                    resetFollowUpThread();
+                    resetSession();
                     setGeneratedQuestions([]);
                     setCurrentQuestionIndex(0);
                     setCurrentEvaluation(null);
                     setCurrentModelAnswer(null);
                     setCurrentCommunicationAnalysis(null);
+                    setCurrentStarAnalysis(null);
                   }} 
                   size="lg" 
                   className="w-full text-lg py-6"
@@ -322,15 +731,39 @@ export default function InterviewPage() {
                   <RotateCcw size={20} className="mr-2"/> Start New Interview
                 </Button>
               </CardContent>
-            </Card>)
+            </Card>
+            <div className="mt-8 w-full max-w-3xl mx-auto">
+              {isGeneratingReport ? (
+                <div className="flex items-center justify-center py-8 text-muted-foreground">
+                  <Loader2 className="h-6 w-6 animate-spin mr-2" /> Preparing your session report...
+                </div>
+              ) : session && (session.completedAt || session.report) ? (
+                <SessionReport session={session} />
+              ) : null}
+            </div>
+            </>)
           }
           <div className="mt-12">
-            {hasMounted ? <ProgressTracker attempts={progress} /> : <p className="text-center text-muted-foreground">Loading progress...</p>}
+            {hasMounted ? <ProgressTracker /> : <p className="text-center text-muted-foreground">Loading progress...</p>}
           </div>
         </>
       ) : (
         <InterviewArea
-          question={generatedQuestions[currentQuestionIndex]}
+          question={activeFollowUp?.question ?? generatedQuestions[currentQuestionIndex]}
+          mainQuestion={generatedQuestions[currentQuestionIndex]}
+          competency={currentCompetency?.name}
+          reportAttemptId={threadAttempt?.id}
+          starAnalysis={currentStarAnalysis}
+          isSavedToBank={savedBankQuestions.includes(generatedQuestions[currentQuestionIndex])}
+          isSavingToBank={isSavingToBank}
+          onSaveToBank={handleSaveQuestionToBank}
+          isFollowUp={activeFollowUp !== null}
+          followUpThread={threadAttempt?.followUps ?? []}
+          suggestedFollowUps={suggestedFollowUps}
+          canAskFollowUps={threadAttempt !== null}
+          isLoadingFollowUps={isLoadingFollowUps}
+          onRequestFollowUps={handleRequestFollowUps}
+          onAnswerFollowUp={handleAnswerFollowUp}
           questionNumber={currentQuestionIndex + 1}
           totalQuestions={generatedQuestions.length}
           onSubmitAnswer={handleSubmitAnswer}
@@ -346,7 +779,8 @@ export default function InterviewPage() {
           communicationAnalysisResult={currentCommunicationAnalysis}
           modelAnswerText={currentModelAnswer}
           isLastQuestion={isLastQuestion}
-          isCustomQuestion={!!currentSettings?.customQuestion}
+          isCustomQuestion={hasChosenQuestions}
+          recordingUpload={recordingUpload}
         />
       )}
     </div>
@@ -6,10 +6,14 @@ import type { PresentationSettings, StoredPresentationAttempt } from '@/lib/type
 import PresentationSetupForm from '@/components/app/presentation-setup-form';
 import PresentationArea from '@/components/app/presentation-area';
 import { useToast } from '@/hooks/use-toast';
-import useLocalStorage from '@/hooks/use-local-storage';
+import { insertPresentationAttempt, updatePresentationAttempt } from '@/lib/supabase/presentation-attempts';
+import useRecordingUpload from '@/hooks/use-recording-upload';
 import { v4 as uuidv4 } from 'uuid';
 import { analyzePresentation } from '@/ai/flows/analyze-presentation-flow';
 import type { AnalyzePresentationOutput } from '@/ai/flows/analyze-presentation-flow';
+import type { PauseMetrics } from '@/lib/pause-analysis';
+import type { ProsodyMetrics } from '@/lib/prosody-analysis';
+import type { TranscriptTimings } from '@/lib/transcript-timing';
 import { generatePresentationSuggestion } from '@/ai/flows/generate-presentation-suggestion';
 import PresentationProgressTracker from '@/components/app/presentation-progress-tracker';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -18,17 +22,17 @@ import { useRouter } from 'next/navigation';
 import { Loader2 } from 'lucide-react';
 
 export default function PresentationPage() {
-  const { user, isLoading: isAuthLoading } = useSupabase();
+  const { supabase, user, isLoading: isAuthLoading } = useSupabase();
   const router = useRouter();
 
   const [settings, setSettings] = useState<PresentationSettings | null>(null);
   const [isPracticeActive, setIsPracticeActive] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [currentAnalysis, setCurrentAnalysis] = useState<AnalyzePresentationOutput | null>(null);
+  const [savedAttemptId, setSavedAttemptId] = useState<string | null>(null);
   const [modelSuggestion, setModelSuggestion] = useState<string | null>(null);
   const [isLoadingSuggestion, setIsLoadingSuggestion] = useState(false);
-  
-  const [progress, setProgress] = useLocalStorage<StoredPresentationAttempt[]>('careerConfidencePresentationProgress', []);
+  const { uploadState: recordingUpload, startUpload: startRecordingUpload, resetUpload: resetRecordingUpload } = useRecordingUpload('presentation');
   const { toast } = useToast();
 
   const [hasMounted, setHasMounted] = useState(false);
@@ -55,11 +59,13 @@ export default function PresentationPage() {
     toast({ title: 'Practice Session Started!', description: 'Your presentation timer has begun.' });
   };
 
-  const handleSubmitPresentation = async (transcript: string, duration: number, recordedVideoUrl?: string | null) => {
-    if (!settings) return;
+  const handleSubmitPresentation = async (transcript: string, duration: number, recordedVideoUrl?: string | null, recordedVideo?: Blob | null, transcriptTimings?: TranscriptTimings | null, pauseMetrics?: PauseMetrics | null, prosodyMetrics?: ProsodyMetrics | null) => {
+    if (!settings || !user) return;
     setIsLoading(true);
     setCurrentAnalysis(null);
+    setSavedAttemptId(null);
     setModelSuggestion(null);
+    resetRecordingUpload();
 
     try {
       const result = await analyzePresentation({
@@ -68,6 +74,8 @@ export default function PresentationPage() {
         timeFrame: settings.timeFrame,
         transcript: transcript,
         actualDurationSeconds: duration,
+        pauseMetrics: pauseMetrics ?? undefined,
+        prosodyMetrics: prosodyMetrics ?? undefined,
       });
       setCurrentAnalysis(result);
       toast({ title: 'Analysis Complete!', description: 'Your feedback is ready.' });
@@ -81,8 +89,20 @@ export default function PresentationPage() {
         actualDurationSeconds: duration,
         recordedVideoUrl: recordedVideoUrl ?? undefined,
         practiceMode: recordedVideoUrl ? 'video' : 'audio',
+        transcriptTimings: transcriptTimings ?? undefined,
       };
-      setProgress(prev => [...prev, newAttempt]);
+      try {
+        await insertPresentationAttempt(supabase, user.id, newAttempt);
+        setSavedAttemptId(newAttempt.id);
+        if (recordedVideo) {
+          // Upload in the background; the feedback is already on screen.
+          const userId = user.id;
+          startRecordingUpload(newAttempt.id, recordedVideo, path => updatePresentationAttempt(supabase, userId, newAttempt.id, { recordingPath: path }));
+        }
+      } catch (saveError) {
+        console.error('Error saving presentation attempt:', saveError);
+        toast({ variant: 'destructive', title: 'Save Failed', description: 'Your feedback is ready, but this attempt could not be saved to your history.' });
+      }
 
     } catch (error) {
        console.error('Error analyzing presentation:', error);
@@ -139,7 +159,7 @@ export default function PresentationPage() {
         <>
           <PresentationSetupForm onSubmit={handleStartPractice} isLoading={isLoading} />
           <div className="mt-12">
-            {hasMounted ? <PresentationProgressTracker attempts={progress} /> : <p className="text-center text-muted-foreground">Loading progress...</p>}
+            {hasMounted ? <PresentationProgressTracker /> : <p className="text-center text-muted-foreground">Loading progress...</p>}
           </div>
         </>
       ) : settings ? (
@@ -153,12 +173,14 @@ export default function PresentationPage() {
           onGetModelSuggestion={handleGetModelSuggestion}
           isLoadingSuggestion={isLoadingSuggestion}
           modelSuggestion={modelSuggestion}
+          recordingUpload={recordingUpload}
+          reportAttemptId={savedAttemptId ?? undefined}
         />
       ) : (
         <>
           <PresentationSetupForm onSubmit={handleStartPractice} isLoading={isLoading} />
            <div className="mt-12">
-            {hasMounted ? <PresentationProgressTracker attempts={progress} /> : <p className="text-center text-muted-foreground">Loading progress...</p>}
+            {hasMounted ? <PresentationProgressTracker /> : <p className="text-center text-muted-foreground">Loading progress...</p>}
           </div>
         </>
       )}
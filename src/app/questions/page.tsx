@@ -0,0 +1,34 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2 } from 'lucide-react';
+import { useSupabase } from '@/contexts/supabase-auth-context';
+import QuestionBankView from '@/components/app/question-bank-view';
+
+export default function QuestionBankPage() {
+  const { user, isLoading } = useSupabase();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.replace('/');
+    }
+  }, [user, isLoading, router]);
+
+  if (isLoading || !user) {
+    return (
+      <div className="flex min-h-screen w-full items-center justify-center">
+        <Loader2 className="h-10 w-10 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto max-w-4xl p-4 md:p-8">
+      <h1 className="text-3xl font-bold tracking-tight text-primary mb-2">Question Bank</h1>
+      <p className="text-muted-foreground mb-6">Questions you have saved, starred and imported. Pick any of them to build a practice interview.</p>
+      <QuestionBankView />
+    </div>
+  );
+}
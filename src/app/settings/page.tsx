@@ -0,0 +1,33 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2 } from 'lucide-react';
+import { useSupabase } from '@/contexts/supabase-auth-context';
+import RecordingStorageSettings from '@/components/app/recording-storage-settings';
+
+export default function SettingsPage() {
+  const { user, isLoading } = useSupabase();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.replace('/');
+    }
+  }, [user, isLoading, router]);
+
+  if (isLoading || !user) {
+    return (
+      <div className="flex min-h-screen w-full items-center justify-center">
+        <Loader2 className="h-10 w-10 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto max-w-3xl p-4 md:p-8">
+      <h1 className="text-3xl font-bold tracking-tight text-primary mb-6">Settings</h1>
+      <RecordingStorageSettings />
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { CheckCircle, CircleDashed, AlertCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import type { CompetencyCoverage as Coverage } from '@/lib/job-description';
+
+type CompetencyCoverageProps = {
+  jobTitle: string;
+  seniority: string;
+  coverage: Coverage[];
+};
+
+// End-of-interview summary for job posting mode: one row per competency the posting asked for.
+export default function CompetencyCoverage({ jobTitle, seniority, coverage }: CompetencyCoverageProps) {
+  const coveredCount = coverage.filter(item => item.covered).length;
+
+  return (
+    <div className="space-y-4 text-left">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold">Competency Coverage</h3>
+          <p className="text-sm text-muted-foreground">{seniority} {jobTitle}</p>
+        </div>
+        <Badge variant={coveredCount === coverage.length ? 'default' : 'secondary'}>
+          {coveredCount}/{coverage.length} demonstrated
+        </Badge>
+      </div>
+      <ul className="space-y-3">
+        {coverage.map(({ competency, questionCount, answeredCount, averageScore, covered }) => (
+          <li key={competency.name} className="space-y-1">
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="font-medium flex items-center gap-1">
+                {covered ? (
+                  <CheckCircle size={16} className="text-green-600 shrink-0" />
+                ) : answeredCount > 0 ? (
+                  <AlertCircle size={16} className="text-amber-600 shrink-0" />
+                ) : (
+                  <CircleDashed size={16} className="text-muted-foreground shrink-0" />
+                )}
+                {competency.name}
+              </span>
+              <span className="text-muted-foreground">
+                {averageScore !== null ? `${averageScore}/100` : questionCount > 0 ? 'Not answered' : 'Not asked'}
+              </span>
+            </div>
+            <Progress value={averageScore ?? 0} className="h-2" />
+            <p className="text-xs text-muted-foreground">{competency.description}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
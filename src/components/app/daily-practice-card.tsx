@@ -0,0 +1,73 @@
+'use client';
+
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { CalendarCheck, Flame, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import DailySetList from '@/components/app/daily-set-list';
+import useDailyPractice from '@/hooks/use-daily-practice';
+
+// Dashboard card with today's practice set, the practice streak and upcoming reviews.
+export default function DailyPracticeCard() {
+  const { dailySet, progress, schedule, due, streak, isLoading, error, rebuild } = useDailyPractice();
+
+  const answeredCount = progress.filter(Boolean).length;
+  const isComplete = !!dailySet && dailySet.questions.length > 0 && answeredCount === dailySet.questions.length;
+  const nextReview = schedule.find(item => item.dueAt > Date.now());
+
+  return (
+    <Card className="w-full max-w-4xl mt-12 shadow-lg">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2"><CalendarCheck className="text-primary" />Daily Practice</CardTitle>
+          <CardDescription>
+            {dailySet
+              ? `${dailySet.settings.jobRole} · ${dailySet.settings.interviewType} · ${dailySet.settings.difficultyLevel}`
+              : 'Questions you struggled with come back at growing intervals, mixed with a few new ones.'}
+          </CardDescription>
+        </div>
+        <div className="text-right shrink-0">
+          <p className="flex items-center justify-end gap-1 text-2xl font-bold">
+            <Flame className={streak.current > 0 ? 'h-6 w-6 text-orange-500' : 'h-6 w-6 text-muted-foreground'} />
+            {streak.current}
+          </p>
+          <p className="text-xs text-muted-foreground">day streak · best {streak.longest}</p>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : error ? (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-destructive text-sm">Could not prepare today&apos;s practice set.</p>
+            <Button variant="outline" size="sm" onClick={() => rebuild()}><RotateCcw className="mr-2 h-4 w-4" />Try Again</Button>
+          </div>
+        ) : dailySet ? (
+          <>
+            <DailySetList questions={dailySet.questions} progress={progress} />
+            <p className="text-sm text-muted-foreground">
+              {due.length} review{due.length === 1 ? '' : 's'} due · {schedule.length} question{schedule.length === 1 ? '' : 's'} in rotation
+              {nextReview && due.length === 0 && ` · next review ${format(nextReview.dueAt, 'MMM d')}`}
+            </p>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">Finish your first interview answer to get a daily practice set.</p>
+        )}
+      </CardContent>
+      {dailySet && dailySet.questions.length > 0 && !isLoading && (
+        <CardFooter className="justify-between gap-4">
+          <p className="text-sm">
+            {isComplete
+              ? 'Done for today. Nice work!'
+              : `${answeredCount} of ${dailySet.questions.length} answered today`}
+          </p>
+          <Button asChild>
+            <Link href="/interview?daily=1">{isComplete ? 'Practice Again' : 'Start Daily Practice'}</Link>
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import Link from 'next/link';
+import { CalendarCheck, PlayCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import DailySetList from '@/components/app/daily-set-list';
+import useDailyPractice from '@/hooks/use-daily-practice';
+import { toDailyInterviewSettings } from '@/lib/daily-practice';
+import type { InterviewSettings } from '@/lib/types';
+
+type DailyPracticeStartProps = {
+  onSubmit: (settings: InterviewSettings) => void;
+  isLoading: boolean;
+};
+
+// Shown instead of the setup form when the dashboard links to `/interview?daily=1`.
+export default function DailyPracticeStart({ onSubmit, isLoading }: DailyPracticeStartProps) {
+  const { dailySet, progress, isLoading: isLoadingSet, error } = useDailyPractice();
+
+  return (
+    <Card className="w-full max-w-lg mx-auto shadow-xl">
+      <CardHeader>
+        <CardTitle className="text-3xl font-bold text-center text-primary flex items-center justify-center gap-2">
+          <CalendarCheck size={28} />Daily Practice
+        </CardTitle>
+        <CardDescription className="text-center">
+          {dailySet
+            ? `${dailySet.settings.jobRole} · ${dailySet.settings.interviewType} · ${dailySet.settings.difficultyLevel}`
+            : "Today's reviews and new questions."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoadingSet ? (
+          <Skeleton className="h-40 w-full" />
+        ) : dailySet && dailySet.questions.length > 0 ? (
+          <DailySetList questions={dailySet.questions} progress={progress} />
+        ) : (
+          <p className="text-sm text-center text-muted-foreground">
+            {error ? "Could not prepare today's practice set." : 'There is no practice set yet. Finish your first interview answer to get one.'}
+          </p>
+        )}
+      </CardContent>
+      <CardFooter className="flex-col gap-3">
+        <Button
+          className="w-full text-lg py-6"
+          disabled={isLoading || !dailySet || dailySet.questions.length === 0}
+          onClick={() => dailySet && onSubmit(toDailyInterviewSettings(dailySet))}
+        >
+          {isLoading ? 'Setting up...' : <><PlayCircle size={22} className="mr-2"/> Start Daily Practice</>}
+        </Button>
+        <Link href="/interview" className="text-sm text-muted-foreground underline">Set up a different interview</Link>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { CheckCircle2, Circle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { DailyQuestion } from '@/lib/daily-practice';
+
+type DailySetListProps = {
+  questions: DailyQuestion[];
+  progress: boolean[]; // Whether each question was answered today
+};
+
+// The questions of a daily practice set, marked off as they are answered.
+export default function DailySetList({ questions, progress }: DailySetListProps) {
+  return (
+    <ul className="space-y-2">
+      {questions.map((item, index) => (
+        <li key={index} className="flex items-start gap-3 rounded-md border p-3">
+          {progress[index]
+            ? <CheckCircle2 className="h-5 w-5 mt-0.5 shrink-0 text-green-600" />
+            : <Circle className="h-5 w-5 mt-0.5 shrink-0 text-muted-foreground" />}
+          <p className={progress[index] ? 'flex-1 text-sm text-muted-foreground line-through' : 'flex-1 text-sm'}>{item.question}</p>
+          <Badge variant={item.kind === 'review' ? 'default' : 'secondary'} className="text-xs shrink-0">
+            {item.kind === 'review' ? 'Review' : 'New'}
+          </Badge>
+        </li>
+      ))}
+    </ul>
+  );
+}
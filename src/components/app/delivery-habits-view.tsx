@@ -0,0 +1,141 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowDownRight, ArrowUpRight, Gauge, MessageSquareWarning, Minus } from 'lucide-react';
+import useDeliverySamples from '@/hooks/use-delivery-samples';
+import { computeDeliveryHabits } from '@/lib/delivery-habits';
+
+// Habits are computed over this many days of interviews and presentations alike.
+export const HABITS_WINDOW_DAYS = 90;
+
+const wpmChartConfig = {
+  interview: { label: 'Interview', color: 'hsl(var(--chart-1))' },
+  presentation: { label: 'Presentation', color: 'hsl(var(--chart-2))' },
+} satisfies ChartConfig;
+
+type StatCardProps = {
+  title: string;
+  icon: React.ReactNode;
+  value: string;
+  delta: number | null;
+  unit: string;
+  lowerIsBetter?: boolean;
+};
+
+function StatCard({ title, icon, value, delta, unit, lowerIsBetter = false }: StatCardProps) {
+  const improved = delta !== null && delta !== 0 && (lowerIsBetter ? delta < 0 : delta > 0);
+  const DeltaIcon = delta === null || delta === 0 ? Minus : delta > 0 ? ArrowUpRight : ArrowDownRight;
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="pb-2">
+        <CardDescription className="flex items-center gap-2">{icon}{title}</CardDescription>
+        <CardTitle className="text-3xl">{value}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className={`text-sm flex items-center gap-1 ${delta === null || delta === 0 ? 'text-muted-foreground' : improved ? 'text-green-600' : 'text-red-600'}`}>
+          <DeltaIcon size={16} />
+          {delta === null ? 'Not enough data for a weekly comparison' : `${delta > 0 ? '+' : ''}${delta} ${unit} vs last week`}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function DeliveryHabitsView() {
+  const { samples, isLoading } = useDeliverySamples(HABITS_WINDOW_DAYS);
+  const habits = useMemo(() => computeDeliveryHabits(samples), [samples]);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-72 w-full" />
+      </div>
+    );
+  }
+
+  if (samples.length === 0) {
+    return (
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>No Delivery Data Yet</CardTitle>
+          <CardDescription>Complete an interview answer or a presentation to see your filler-word and pace habits.</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  const topFillerCount = habits.topFillers[0]?.count ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <StatCard
+          title="Filler Words per Minute"
+          icon={<MessageSquareWarning size={16} />}
+          value={habits.overall.fillersPerMinute !== null ? String(habits.overall.fillersPerMinute) : '—'}
+          delta={habits.fillersPerMinuteDelta}
+          unit="/min"
+          lowerIsBetter
+        />
+        <StatCard
+          title="Average Speaking Pace"
+          icon={<Gauge size={16} />}
+          value={habits.overall.averageWpm !== null ? `${habits.overall.averageWpm} WPM` : '—'}
+          delta={habits.averageWpmDelta}
+          unit="WPM"
+        />
+      </div>
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>Top Filler Words</CardTitle>
+          <CardDescription>The fillers that show up most across your attempts of the last {HABITS_WINDOW_DAYS} days.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {habits.topFillers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No filler words detected. Nice work!</p>
+          ) : habits.topFillers.map(({ word, count }) => (
+            <div key={word} className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span className="font-medium">&ldquo;{word}&rdquo;</span>
+                <span className="text-muted-foreground">{count}×</span>
+              </div>
+              <Progress value={(count / topFillerCount) * 100} className="h-2" />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>Speaking Pace Distribution</CardTitle>
+          <CardDescription>How many attempts fell into each words-per-minute range. Around 120-160 WPM is comfortable for most listeners.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={wpmChartConfig} className="h-[260px] w-full aspect-auto">
+            <BarChart data={habits.wpmDistribution} margin={{ left: -16, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="interview" stackId="wpm" fill="var(--color-interview)" />
+              <Bar dataKey="presentation" stackId="wpm" fill="var(--color-presentation)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <p className="text-xs text-muted-foreground text-center">
+        This week: {habits.thisWeek.attempts} attempt{habits.thisWeek.attempts === 1 ? '' : 's'} · Last week: {habits.lastWeek.attempts} attempt{habits.lastWeek.attempts === 1 ? '' : 's'}
+      </p>
+    </div>
+  );
+}
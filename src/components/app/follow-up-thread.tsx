@@ -0,0 +1,35 @@
+'use client';
+
+import { CornerDownRight } from 'lucide-react';
+import { childExchanges } from '@/lib/follow-ups';
+import type { FollowUpExchange } from '@/lib/types';
+
+type FollowUpThreadProps = {
+  exchanges: FollowUpExchange[];
+  parentId?: string | null;
+};
+
+// Renders answered follow-ups as a nested thread under their parent question.
+export default function FollowUpThread({ exchanges, parentId = null }: FollowUpThreadProps) {
+  const children = childExchanges(exchanges, parentId);
+  if (children.length === 0) return null;
+
+  return (
+    <ul className="space-y-2">
+      {children.map(exchange => (
+        <li key={exchange.id} className="pl-4 border-l-2 border-primary/30">
+          <p className="font-medium flex items-start gap-1">
+            <CornerDownRight size={16} className="mt-1 shrink-0 text-primary" />
+            {exchange.question}
+          </p>
+          <p className="pl-5 text-sm text-muted-foreground whitespace-pre-wrap">
+            {exchange.answer || '(No text was transcribed for this answer.)'}
+          </p>
+          <div className="mt-2">
+            <FollowUpThread exchanges={exchanges} parentId={exchange.id} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, X } from 'lucide-react';
+import { interviewTypes, difficultyLevels } from '@/lib/types';
+import { scoreBands, type InterviewHistoryFilters, type ScoreBand } from '@/lib/history-filters';
+
+// Radix Select items cannot have an empty value, so "any" stands in for no filter.
+const ANY = 'any';
+
+type HistoryFilterBarProps = {
+  filters: InterviewHistoryFilters;
+  onChange: (filters: InterviewHistoryFilters) => void;
+};
+
+export default function HistoryFilterBar({ filters, onChange }: HistoryFilterBarProps) {
+  // Text fields are applied on submit rather than on every keystroke.
+  const [search, setSearch] = useState(filters.search ?? '');
+  const [jobRole, setJobRole] = useState(filters.jobRole ?? '');
+
+  useEffect(() => {
+    setSearch(filters.search ?? '');
+    setJobRole(filters.jobRole ?? '');
+  }, [filters.search, filters.jobRole]);
+
+  const update = (changes: Partial<InterviewHistoryFilters>) => onChange({ ...filters, ...changes });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    update({ search: search.trim() || undefined, jobRole: jobRole.trim() || undefined });
+  };
+
+  const hasFilters = Object.values(filters).some(value => value !== undefined);
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search questions and answers..."
+          className="flex-1"
+        />
+        <Input
+          value={jobRole}
+          onChange={(e) => setJobRole(e.target.value)}
+          placeholder="Job role"
+          className="sm:w-48"
+        />
+        <Button type="submit"><Search className="mr-2 h-4 w-4" />Search</Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Interview Type</Label>
+          <Select
+            value={filters.interviewType ?? ANY}
+            onValueChange={(value) => update({ interviewType: value === ANY ? undefined : value as InterviewHistoryFilters['interviewType'] })}
+          >
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any type</SelectItem>
+              {interviewTypes.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Difficulty</Label>
+          <Select
+            value={filters.difficultyLevel ?? ANY}
+            onValueChange={(value) => update({ difficultyLevel: value === ANY ? undefined : value as InterviewHistoryFilters['difficultyLevel'] })}
+          >
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any difficulty</SelectItem>
+              {difficultyLevels.map(level => <SelectItem key={level} value={level}>{level}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Mode</Label>
+          <Select
+            value={filters.practiceMode ?? ANY}
+            onValueChange={(value) => update({ practiceMode: value === ANY ? undefined : value as InterviewHistoryFilters['practiceMode'] })}
+          >
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any mode</SelectItem>
+              <SelectItem value="video">Video</SelectItem>
+              <SelectItem value="audio">Audio</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Score</Label>
+          <Select
+            value={filters.scoreBand ?? ANY}
+            onValueChange={(value) => update({ scoreBand: value === ANY ? undefined : value as ScoreBand })}
+          >
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any score</SelectItem>
+              {(Object.keys(scoreBands) as ScoreBand[]).map(band => (
+                <SelectItem key={band} value={band}>{scoreBands[band].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="history-from" className="text-xs">From</Label>
+          <Input
+            id="history-from"
+            type="date"
+            value={filters.from ?? ''}
+            max={filters.to}
+            onChange={(e) => update({ from: e.target.value || undefined })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="history-to" className="text-xs">To</Label>
+          <Input
+            id="history-to"
+            type="date"
+            value={filters.to ?? ''}
+            min={filters.from}
+            onChange={(e) => update({ to: e.target.value || undefined })}
+          />
+        </div>
+      </div>
+
+      {hasFilters && (
+        <Button type="button" variant="ghost" size="sm" onClick={() => onChange({})}>
+          <X className="mr-1 h-4 w-4" />Clear Filters
+        </Button>
+      )}
+    </form>
+  );
+}
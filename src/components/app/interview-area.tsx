@@ -28,6 +28,12 @@ import {
   X,
   Clapperboard,
   MicOff,
+  MessagesSquare,
+  CornerDownRight,
+  FileDown,
+  ListChecks,
+  Bookmark,
+  BookmarkCheck,
 } from 'lucide-react';
 import type { EvaluateAnswerOutput } from '@/ai/flows/evaluate-answer';
 import type { AnalyzeCommunicationOutput } from '@/ai/flows/analyze-communication-flow';
@@ -42,13 +48,25 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import RecordingUploadStatus from '@/components/app/recording-upload-status';
+import FollowUpThread from '@/components/app/follow-up-thread';
+import RubricBreakdown from '@/components/app/rubric-breakdown';
+import StarBreakdown from '@/components/app/star-breakdown';
+import SyncedTranscriptPlayer from '@/components/app/synced-transcript-player';
+import PauseMetricsSummary from '@/components/app/pause-metrics-summary';
+import LiveCoachOverlay from '@/components/app/live-coach-overlay';
+import useLiveCoach from '@/hooks/use-live-coach';
+import { analyzeRecordingPauses, type PauseMetrics } from '@/lib/pause-analysis';
+import type { FollowUpExchange, RecordingUploadState, SuggestedFollowUp } from '@/lib/types';
+import type { StarAnalysis } from '@/lib/star-analysis';
+import type { TranscriptTimings } from '@/lib/transcript-timing';
 
 
 type InterviewAreaProps = {
   question: string;
   questionNumber: number;
   totalQuestions: number;
-  onSubmitAnswer: (answer: string, voiceRecordingDuration: number, recordedVideoUrl?: string | null) => Promise<void>;
+  onSubmitAnswer: (answer: string, voiceRecordingDuration: number, recordedVideoUrl?: string | null, recordedVideo?: Blob | null, transcriptTimings?: TranscriptTimings | null, pauseMetrics?: PauseMetrics | null) => Promise<void>;
   onSkipQuestion: () => void;
   onRegenerateQuestion: () => void;
   onGetModelAnswer: () => Promise<void>;
@@ -62,6 +80,26 @@ type InterviewAreaProps = {
   modelAnswerText: string | null;
   isLastQuestion: boolean;
   isCustomQuestion: boolean;
+  recordingUpload: RecordingUploadState;
+  // Follow-up thread. `question` is the active follow-up while `isFollowUp` is set.
+  mainQuestion: string;
+  isFollowUp: boolean;
+  followUpThread: FollowUpExchange[];
+  suggestedFollowUps: SuggestedFollowUp[];
+  canAskFollowUps: boolean;
+  isLoadingFollowUps: boolean;
+  onRequestFollowUps: () => Promise<void>;
+  onAnswerFollowUp: (followUpId: string) => void;
+  // Job posting mode: the competency the current question tests
+  competency?: string;
+  // Id of the saved attempt, once it has been stored; enables the PDF report
+  reportAttemptId?: string;
+  // Behavioral interviews: STAR analysis of the main answer
+  starAnalysis?: StarAnalysis | null;
+  // Question bank: whether the main question is saved, and saving it
+  isSavedToBank: boolean;
+  isSavingToBank: boolean;
+  onSaveToBank: () => Promise<void>;
 };
 
 const EXPECTED_ANSWER_TIME_SECONDS = 120;
@@ -84,6 +122,21 @@ export default function InterviewArea({
   modelAnswerText,
   isLastQuestion,
   isCustomQuestion,
+  recordingUpload,
+  mainQuestion,
+  isFollowUp,
+  followUpThread,
+  suggestedFollowUps,
+  canAskFollowUps,
+  isLoadingFollowUps,
+  onRequestFollowUps,
+  onAnswerFollowUp,
+  competency,
+  reportAttemptId,
+  starAnalysis,
+  isSavedToBank,
+  isSavingToBank,
+  onSaveToBank,
 }: InterviewAreaProps) {
   // Shared state
   const [showEvaluation, setShowEvaluation] = useState(false);
@@ -93,6 +146,8 @@ export default function InterviewArea({
 
   // Video Mode State
   const [answer, setAnswer] = useState('');
+  const [transcriptTimings, setTranscriptTimings] = useState<TranscriptTimings | null>(null);
+  const [pauseMetrics, setPauseMetrics] = useState<PauseMetrics | null>(null);
   const [isRecording, setIsRecording] = useState(false);
   const [isTranscribing, setIsTranscribing] = useState(false);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -101,6 +156,7 @@ export default function InterviewArea({
   const [recordingStartTime, setRecordingStartTime] = useState<number | null>(null);
   const [recordingDurationSeconds, setRecordingDurationSeconds] = useState<number>(0);
   const [recordedVideoUrl, setRecordedVideoUrl] = useState<string | null>(null);
+  const recordedVideoBlobRef = useRef<Blob | null>(null);
   const videoPreviewRef = useRef<HTMLVideoElement>(null);
   const [hasCameraPermission, setHasCameraPermission] = useState<boolean | null>(null);
   const videoStreamRef = useRef<MediaStream | null>(null);
@@ -117,6 +173,7 @@ export default function InterviewArea({
   const [audioRecordingDuration, setAudioRecordingDuration] = useState(0);
   const isForcedStopRef = useRef(false);
   const finalTranscriptRef = useRef('');
+  const liveCoach = useLiveCoach();
 
   // This effect creates and destroys the stream based on practice mode
   useEffect(() => {
@@ -191,6 +248,7 @@ export default function InterviewArea({
                 interimTranscript += event.results[i][0].transcript;
             }
         }
+        liveCoach.trackResults(event);
     };
 
     recognition.onstart = () => {
@@ -204,6 +262,7 @@ export default function InterviewArea({
     recognition.onend = () => {
         setIsListening(false);
         if (isForcedStopRef.current) {
+            liveCoach.stop();
             if (audioRecordingStartTimeRef.current) {
                 const duration = Math.round((Date.now() - audioRecordingStartTimeRef.current) / 1000);
                 setAudioRecordingDuration(duration);
@@ -243,6 +302,7 @@ export default function InterviewArea({
         });
         setIsListening(false);
         isForcedStopRef.current = true;
+        liveCoach.stop();
     };
 
     return () => {
@@ -264,7 +324,10 @@ export default function InterviewArea({
 
     // Video resets
     setAnswer('');
+    setTranscriptTimings(null);
+    setPauseMetrics(null);
     setRecordedVideoUrl(prevUrl => { if (prevUrl) URL.revokeObjectURL(prevUrl); return null; });
+    recordedVideoBlobRef.current = null;
     if (isRecording && mediaRecorderRef.current?.state === 'recording') mediaRecorderRef.current.stop();
     setIsTranscribing(false);
     setRecordingStartTime(null);
@@ -343,10 +406,13 @@ export default function InterviewArea({
           }
 
           const mediaBlob = new Blob(mediaChunksRef.current, { type: chosenMimeType });
+          recordedVideoBlobRef.current = mediaBlob;
           setRecordedVideoUrl(URL.createObjectURL(mediaBlob));
           
           const formData = new FormData();
           formData.append('audio', mediaBlob, `recording.webm`);
+          // Measured locally while the server transcribes.
+          const pauseAnalysis = analyzeRecordingPauses(mediaBlob);
 
           try {
             const response = await fetch('/api/transcribe', { method: 'POST', body: formData });
@@ -356,12 +422,15 @@ export default function InterviewArea({
             }
             const result = await response.json();
             setAnswer(result.transcript);
+            setTranscriptTimings(result.timings ?? null);
             toast({ title: "Transcription Complete!", description: "Your answer is ready to submit."});
           } catch (error) {
             const message = error instanceof Error ? error.message : "Unknown error.";
             toast({ title: "Transcription Failed", description: message, variant: "destructive" });
             setAnswer('');
+            setTranscriptTimings(null);
           } finally {
+            setPauseMetrics(await pauseAnalysis);
             setIsTranscribing(false);
             mediaChunksRef.current = [];
           }
@@ -383,10 +452,13 @@ export default function InterviewArea({
       if (mediaRecorderRef.current?.state === 'recording') mediaRecorderRef.current.stop();
     } else {
       setAnswer('');
+      setTranscriptTimings(null);
+      setPauseMetrics(null);
       setRecordingDurationSeconds(0);
       mediaChunksRef.current = [];
       if (recordedVideoUrl) URL.revokeObjectURL(recordedVideoUrl);
       setRecordedVideoUrl(null);
+      recordedVideoBlobRef.current = null;
       startCountdown();
     }
   };
@@ -407,6 +479,7 @@ export default function InterviewArea({
       setAudioRecordingDuration(0);
       audioRecordingStartTimeRef.current = null;
       isForcedStopRef.current = false;
+      liveCoach.start();
       recognitionRef.current.start();
     }
   };
@@ -416,7 +489,7 @@ export default function InterviewArea({
       if (isLoadingEvaluation || isRecording || isTranscribing || countdown !== null) return;
       if (!answer.trim() && !recordedVideoUrl) { toast({title: "No Answer Content", description: "Please record your answer."}); return; }
       if (!answer.trim() && recordedVideoUrl) toast({title: "Submitting Video", description: "Submitting video without transcribed text. AI text analysis will be limited."});
-      await onSubmitAnswer(answer, recordingDurationSeconds, recordedVideoUrl);
+      await onSubmitAnswer(answer, recordingDurationSeconds, recordedVideoUrl, recordedVideoBlobRef.current, transcriptTimings, pauseMetrics);
     } else {
       if (isLoadingEvaluation || isListening) return;
       if (!finalTranscript.trim()) { toast({title: "No Answer Content", description: "Please record an audio answer."}); return; }
@@ -475,19 +548,38 @@ export default function InterviewArea({
       <Card className="shadow-xl">
         <CardHeader>
           <div className="flex justify-between items-center mb-2">
-            <CardTitle className="text-2xl font-semibold text-primary">Question {questionNumber} of {totalQuestions}</CardTitle>
+            <CardTitle className="text-2xl font-semibold text-primary">{isFollowUp ? `Follow-up to Question ${questionNumber}` : `Question ${questionNumber} of ${totalQuestions}`}</CardTitle>
+            <div className="flex gap-2">
+            {!isFollowUp && !isLoadingNewQuestion &&
+                <Tooltip>
+                    <TooltipTrigger asChild><Button variant="outline" size="sm" onClick={onSaveToBank} disabled={isSavedToBank || isSavingToBank} className="gap-1">{isSavingToBank ? <Loader2 size={16} className="animate-spin"/> : isSavedToBank ? <BookmarkCheck size={16}/> : <Bookmark size={16}/>}{isSavedToBank ? 'Saved' : 'Save'}</Button></TooltipTrigger>
+                    <TooltipContent><p>{isSavedToBank ? 'This question is in your question bank' : 'Save this question to your question bank'}</p></TooltipContent>
+                </Tooltip>
+            }
             { practiceMode === 'video' &&
                 <Tooltip>
                     <TooltipTrigger asChild><Button variant="outline" size="sm" onClick={() => setShowVideoPreview(p => !p)} className="gap-1"><EyeOff size={16}/>{showVideoPreview ? 'Hide Preview' : 'Show Preview'}</Button></TooltipTrigger>
                     <TooltipContent><p>{showVideoPreview ? 'Hide live camera preview' : 'Show live camera preview'}</p></TooltipContent>
                 </Tooltip>
             }
+            </div>
           </div>
           <Progress value={progressPercentage} className="w-full h-2" />
           {isLoadingNewQuestion ? (
             <div className="flex items-center justify-center h-24"><Loader2 className="h-8 w-8 animate-spin text-primary" /><p className="ml-2 text-muted-foreground">Generating question...</p></div>
           ) : (
-            <p className="text-xl mt-4 py-4 min-h-[6rem] leading-relaxed">{question}</p>
+            <>
+              {isFollowUp && (
+                <div className="mt-4 p-3 rounded-md border bg-muted/50 space-y-2 text-sm">
+                  <p className="font-medium text-muted-foreground">{mainQuestion}</p>
+                  <FollowUpThread exchanges={followUpThread} />
+                </div>
+              )}
+              {competency && (
+                <Badge variant="secondary" className="mt-4 gap-1"><Target size={14} />Tests: {competency}</Badge>
+              )}
+              <p className="text-xl mt-4 py-4 min-h-[6rem] leading-relaxed">{question}</p>
+            </>
           )}
         </CardHeader>
 
@@ -516,6 +608,7 @@ export default function InterviewArea({
 
             <TabsContent value="audio">
                 <div className="flex flex-col items-center justify-center space-y-4">
+                  <LiveCoachOverlay coach={liveCoach} isListening={isListening} />
                   <div className={`w-full min-h-[50px] p-3 rounded-md border bg-muted text-muted-foreground ${finalTranscript.trim() ? 'text-foreground' : ''}`}>
                     {finalTranscript.trim() ? finalTranscript : isListening ? "Listening... click stop when you're done." : "Your transcript will appear here after you record."}
                   </div>
@@ -533,8 +626,8 @@ export default function InterviewArea({
         {!showEvaluation && !isLoadingNewQuestion && (
           <CardFooter className="flex flex-col sm:flex-row justify-between items-center gap-2 pt-4">
             <div className="flex gap-2 w-full sm:w-auto">
-              <Tooltip><TooltipTrigger asChild><Button onClick={onRegenerateQuestion} variant="outline" disabled={recordButtonDisabled || isRecording || isCustomQuestion} className="gap-1"><RefreshCcw size={18} /> Regenerate</Button></TooltipTrigger><TooltipContent><p>{isCustomQuestion ? 'Cannot regenerate your own question' : 'Get a different question.'}</p></TooltipContent></Tooltip>
-              <Tooltip><TooltipTrigger asChild><Button onClick={onSkipQuestion} variant="outline" disabled={recordButtonDisabled || isRecording || isCustomQuestion} className="gap-1"><SkipForward size={18} /> Skip</Button></TooltipTrigger><TooltipContent><p>{isCustomQuestion ? 'Cannot skip your own question' : 'Skip this question.'}</p></TooltipContent></Tooltip>
+              <Tooltip><TooltipTrigger asChild><Button onClick={onRegenerateQuestion} variant="outline" disabled={recordButtonDisabled || isRecording || isCustomQuestion || isFollowUp} className="gap-1"><RefreshCcw size={18} /> Regenerate</Button></TooltipTrigger><TooltipContent><p>{isCustomQuestion ? 'Cannot regenerate your own question' : 'Get a different question.'}</p></TooltipContent></Tooltip>
+              <Tooltip><TooltipTrigger asChild><Button onClick={onSkipQuestion} variant="outline" disabled={recordButtonDisabled || isRecording || isCustomQuestion || isFollowUp} className="gap-1"><SkipForward size={18} /> Skip</Button></TooltipTrigger><TooltipContent><p>{isCustomQuestion ? 'Cannot skip your own question' : 'Skip this question.'}</p></TooltipContent></Tooltip>
             </div>
             <div className="flex gap-2 w-full sm:w-auto items-center">
               {practiceMode === 'video' && 
@@ -557,7 +650,14 @@ export default function InterviewArea({
       {showEvaluation && evaluationResult && !isLoadingEvaluation && (
         <Card className="shadow-xl animate-in fade-in duration-500">
           <CardHeader>
-            <CardTitle className="text-2xl font-semibold text-primary flex items-center gap-2"><Award size={24}/> Performance Feedback</CardTitle>
+            <div className="flex justify-between items-center gap-2">
+              <CardTitle className="text-2xl font-semibold text-primary flex items-center gap-2"><Award size={24}/> {followUpThread.length > 0 ? 'Feedback on the Full Exchange' : 'Performance Feedback'}</CardTitle>
+              {reportAttemptId && (
+                <Button asChild variant="outline" size="sm" className="gap-1">
+                  <a href={`/api/reports?type=attempt&id=${reportAttemptId}`} download><FileDown size={16} /> PDF Report</a>
+                </Button>
+              )}
+            </div>
             <Alert variant={evaluationResult.score >= 70 ? "default" : "destructive"} className="mt-2 border-2"><Badge variant={evaluationResult.score >=70 ? 'default': 'destructive'} className="text-lg">Score: {evaluationResult.score}/100</Badge></Alert>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -573,14 +673,31 @@ export default function InterviewArea({
                       </DropdownMenuContent>
                     </DropdownMenu>
                 </div>
-                <video src={recordedVideoUrl} controls className="w-full rounded-md shadow-md aspect-video bg-black"></video>
+                {transcriptTimings ? (
+                  <SyncedTranscriptPlayer src={recordedVideoUrl} transcript={answer} timings={transcriptTimings} />
+                ) : (
+                  <video src={recordedVideoUrl} controls className="w-full rounded-md shadow-md aspect-video bg-black"></video>
+                )}
               </div>
             )}
+             {starAnalysis && followUpThread.length === 0 ? (
+              <div>
+                <h3 className="text-lg font-semibold mb-2">Your Answer, STAR Breakdown</h3>
+                <StarBreakdown transcript={practiceMode === 'video' ? answer : finalTranscript} analysis={starAnalysis} />
+              </div>
+             ) : !(practiceMode === 'video' && recordedVideoUrl && transcriptTimings) && (
              <div>
                 <h3 className="text-lg font-semibold">Your Answer Transcript</h3>
                 <p className="text-sm text-muted-foreground bg-muted p-3 rounded-md border whitespace-pre-wrap">{practiceMode === 'video' ? (answer || '(No text was transcribed)') : (finalTranscript || '(No text was recorded)')}</p>
              </div>
-             {practiceMode === 'video' && recordedVideoUrl && (<Alert variant="default" className="mt-3 bg-blue-50 border-blue-200 text-blue-800"><Info className="h-4 w-4 !text-blue-800" /><AlertTitle>Video is Temporary</AlertTitle><AlertDescription>This video is not saved permanently. Download it now if you wish to keep a copy.</AlertDescription></Alert>)}
+             )}
+             {practiceMode === 'video' && recordedVideoUrl && (<RecordingUploadStatus uploadState={recordingUpload} />)}
+            {evaluationResult.rubric && evaluationResult.rubric.length > 0 && (
+              <div>
+                <h3 className="text-lg font-semibold flex items-center text-primary mb-2"><ListChecks size={20} className="mr-2" />Rubric Breakdown{evaluationResult.rubricName && `: ${evaluationResult.rubricName}`}</h3>
+                <RubricBreakdown rubric={evaluationResult.rubric} />
+              </div>
+            )}
             <div>
               <h3 className="text-lg font-semibold flex items-center text-green-600"><CheckCircle size={20} className="mr-2" />Strengths</h3>
               <p className="text-muted-foreground bg-green-50 p-3 rounded-md border border-green-200">{evaluationResult.strengths}</p>
@@ -589,6 +706,12 @@ export default function InterviewArea({
               <h3 className="text-lg font-semibold flex items-center text-red-600"><AlertCircle size={20} className="mr-2" />Areas for Improvement</h3>
               <p className="text-muted-foreground bg-red-50 p-3 rounded-md border border-red-200">{evaluationResult.weaknesses}</p>
             </div>
+            {competency && evaluationResult.competencyFeedback && (
+              <div>
+                <h3 className="text-lg font-semibold flex items-center text-primary"><Target size={20} className="mr-2" />Competency: {competency}</h3>
+                <p className="text-muted-foreground bg-muted p-3 rounded-md border">{evaluationResult.competencyFeedback}</p>
+              </div>
+            )}
 
             {communicationAnalysisResult && (
               <div className="space-y-3 pt-3 border-t mt-4">
@@ -598,12 +721,42 @@ export default function InterviewArea({
                   <p><strong className="font-medium">Confidence Cues:</strong> {communicationAnalysisResult.confidenceCues}</p>
                   <p><strong className="font-medium">Speaking Pace:</strong> {communicationAnalysisResult.speakingPaceWPM} WPM. {communicationAnalysisResult.paceFeedback}</p>
                   {communicationAnalysisResult.fillerWordsFound.length > 0 && (<p><strong className="font-medium">Filler Words Found:</strong> {communicationAnalysisResult.fillerWordsFound.join(', ')}</p>)}
+                  {communicationAnalysisResult.pauseMetrics && (
+                    <div className="space-y-1"><strong className="font-medium">Pauses:</strong> <PauseMetricsSummary metrics={communicationAnalysisResult.pauseMetrics} /></div>
+                  )}
                   {timeFeedback && <p><strong className="font-medium">Time Management:</strong> {timeFeedback}</p>}
                 </div>
               </div>
             )}
              {(!answer.trim() && recordedVideoUrl) && (<Alert variant="default" className="mt-3"><AlertCircle className="h-4 w-4" /><AlertTitle>Note on Text Analysis</AlertTitle><AlertDescription>No text was transcribed from your video. AI analysis may be limited.</AlertDescription></Alert>)}
             {!modelAnswerText && (<Tooltip><TooltipTrigger asChild><Button onClick={handleGetModel} variant="outline" className="w-full sm:w-auto border-accent text-accent-foreground hover:bg-accent/10 mt-2 gap-1" disabled={isLoadingModelAnswer || isRecording || isTranscribing} >{isLoadingModelAnswer ? (<Loader2 className="mr-2 h-4 w-4 animate-spin" />) : (<Lightbulb size={18} />)}Show Model Answer</Button></TooltipTrigger><TooltipContent><p>Get an AI-generated ideal answer for this question.</p></TooltipContent></Tooltip>)}
+
+            <div className="space-y-3 pt-3 border-t mt-4">
+              <h3 className="text-xl font-semibold flex items-center text-primary gap-1"><MessagesSquare size={22} className="mr-1" />Follow-up Questions</h3>
+              {suggestedFollowUps.length > 0 ? (
+                <ul className="space-y-2">
+                  {suggestedFollowUps.map(followUp => (
+                    <li key={followUp.id} className="flex items-start justify-between gap-2 p-3 rounded-md border bg-muted/50">
+                      <p className="flex items-start gap-1"><CornerDownRight size={16} className="mt-1 shrink-0 text-primary" />{followUp.question}</p>
+                      <Button size="sm" variant="outline" onClick={() => onAnswerFollowUp(followUp.id)} disabled={isRecording || isTranscribing || isListening}>Answer</Button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">A real interviewer would dig deeper. Ask for a follow-up to practice answering it in this thread.</p>
+              )}
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <span className="inline-block">
+                    <Button onClick={onRequestFollowUps} variant="outline" className="gap-1" disabled={!canAskFollowUps || isLoadingFollowUps || isRecording || isTranscribing || isListening}>
+                      {isLoadingFollowUps ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <MessagesSquare size={18} />}
+                      Ask a Follow-up
+                    </Button>
+                  </span>
+                </TooltipTrigger>
+                <TooltipContent><p>{canAskFollowUps ? 'Get probing follow-up questions based on your answer.' : 'Follow-ups are available once your answer is saved.'}</p></TooltipContent>
+              </Tooltip>
+            </div>
           </CardContent>
         </Card>
       )}
@@ -0,0 +1,133 @@
+'use client';
+
+import RecordingPlayer from '@/components/app/recording-player';
+import FollowUpThread from '@/components/app/follow-up-thread';
+import RubricBreakdown from '@/components/app/rubric-breakdown';
+import StarBreakdown from '@/components/app/star-breakdown';
+import PauseMetricsSummary from '@/components/app/pause-metrics-summary';
+import { AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Badge } from '@/components/ui/badge';
+import { formatDistanceToNow } from 'date-fns';
+import Link from 'next/link';
+import { Clock, MicVocal, BarChartHorizontal, Clapperboard, Mic, Cloud, ListChecks } from 'lucide-react';
+import type { StoredAttempt } from '@/lib/types';
+
+type InterviewAttemptItemProps = {
+  attempt: StoredAttempt;
+  showSessionLink?: boolean;
+};
+
+// One saved attempt as an accordion row. Must be rendered inside an `Accordion`.
+export default function InterviewAttemptItem({ attempt, showSessionLink = true }: InterviewAttemptItemProps) {
+  return (
+    <AccordionItem value={attempt.id} className="mb-2 border-b-0">
+      <AccordionTrigger className="bg-secondary/50 hover:bg-secondary/80 px-4 py-3 rounded-lg shadow-sm data-[state=open]:rounded-b-none data-[state=open]:shadow-md">
+        <div className="flex justify-between items-center w-full">
+          <div className='text-left'>
+            <p className="font-semibold text-primary-foreground text-lg">{attempt.settings.jobRole.length > 25 ? `${attempt.settings.jobRole.substring(0,25)}...` : attempt.settings.jobRole}</p>
+            <p className="text-xs text-muted-foreground">{formatDistanceToNow(new Date(attempt.timestamp), { addSuffix: true })}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className="text-xs hidden sm:flex items-center gap-1"><Cloud size={12}/> Synced</Badge>
+            {attempt.practiceMode === 'video' ? (
+              <Badge variant="outline" className="text-xs hidden sm:flex items-center gap-1"><Clapperboard size={12}/> Video</Badge>
+            ) : attempt.practiceMode === 'audio' ? (
+              <Badge variant="outline" className="text-xs hidden sm:flex items-center gap-1"><Mic size={12}/> Audio</Badge>
+            ) : null}
+            {attempt.recordingDurationSeconds !== undefined && attempt.recordingDurationSeconds > 0 ? (
+              <Badge variant="outline" className="text-xs hidden sm:flex items-center gap-1">
+                <Clock size={12}/> {attempt.recordingDurationSeconds}s
+              </Badge>
+            ) : null}
+            <Badge variant={attempt.evaluation.score >= 70 ? 'default' : 'destructive'} className="text-sm px-3 py-1">
+              Score: {attempt.evaluation.score}
+            </Badge>
+          </div>
+        </div>
+      </AccordionTrigger>
+      <AccordionContent className="bg-card p-4 rounded-b-lg shadow-inner border border-t-0">
+        <div className="space-y-3">
+          <div>
+            <h4 className="font-medium text-muted-foreground">Question:</h4>
+            <p className="pl-2">{attempt.question}</p>
+          </div>
+          {attempt.starAnalysis ? (
+            <div>
+              <h4 className="font-medium text-muted-foreground mb-1">Your Answer (STAR Breakdown):</h4>
+              <StarBreakdown transcript={attempt.userAnswer} analysis={attempt.starAnalysis} />
+            </div>
+          ) : (
+            <div>
+              <h4 className="font-medium text-muted-foreground">Your Answer (Text):</h4>
+              <p className="pl-2 whitespace-pre-wrap">{attempt.userAnswer || '(No text was transcribed for this attempt.)'}</p>
+            </div>
+          )}
+          {attempt.followUps && attempt.followUps.length > 0 && (
+            <div>
+              <h4 className="font-medium text-muted-foreground mb-1">Follow-up Questions:</h4>
+              <FollowUpThread exchanges={attempt.followUps} />
+            </div>
+          )}
+          {attempt.recordingPath && (
+            <div>
+              <h4 className="font-medium text-muted-foreground mb-1">Your Recording:</h4>
+              <RecordingPlayer recordingPath={attempt.recordingPath} transcript={attempt.userAnswer} timings={attempt.transcriptTimings} />
+            </div>
+          )}
+
+          {attempt.evaluation.rubric && attempt.evaluation.rubric.length > 0 && (
+            <div>
+              <h4 className="font-medium text-muted-foreground flex items-center gap-1 mb-2"><ListChecks size={16}/>Rubric Breakdown{attempt.evaluation.rubricName && ` (${attempt.evaluation.rubricName})`}:</h4>
+              <RubricBreakdown rubric={attempt.evaluation.rubric} />
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 pt-2">
+            <div className="bg-green-50 p-3 rounded border border-green-200">
+              <h4 className="font-medium text-green-700">Strengths:</h4>
+              <p className="text-sm text-green-600">{attempt.evaluation.strengths}</p>
+            </div>
+            <div className="bg-red-50 p-3 rounded border border-red-200">
+              <h4 className="font-medium text-red-700">Weaknesses:</h4>
+              <p className="text-sm text-red-600">{attempt.evaluation.weaknesses}</p>
+            </div>
+          </div>
+
+          {attempt.communicationAnalysis && (
+             <div className="mt-3 pt-3 border-t">
+               <h4 className="font-medium text-muted-foreground flex items-center gap-1 mb-1"><BarChartHorizontal size={16}/>Communication Analysis:</h4>
+               <div className="pl-2 space-y-1 text-sm">
+                  <p><strong>Clarity:</strong> {attempt.communicationAnalysis.clarityFeedback}</p>
+                  <p><strong>Confidence Cues:</strong> {attempt.communicationAnalysis.confidenceCues}</p>
+                  <p>
+                      <strong>Pace:</strong> {attempt.communicationAnalysis.speakingPaceWPM} WPM. {attempt.communicationAnalysis.paceFeedback}
+                      {attempt.recordingDurationSeconds && ` (Total: ${attempt.recordingDurationSeconds}s)`}
+                  </p>
+                  {attempt.communicationAnalysis.fillerWordsFound.length > 0 && (
+                      <p><strong>Filler Words:</strong> {attempt.communicationAnalysis.fillerWordsFound.join(', ')}</p>
+                  )}
+                  {attempt.communicationAnalysis.pauseMetrics && (
+                      <div className="space-y-1"><strong>Pauses:</strong> <PauseMetricsSummary metrics={attempt.communicationAnalysis.pauseMetrics} /></div>
+                  )}
+               </div>
+             </div>
+          )}
+
+           <div className="bg-indigo-50 p-3 rounded border border-indigo-200 mt-2">
+              <h4 className="font-medium text-indigo-700 flex items-center gap-1"><MicVocal size={16}/>Model Answer Suggestion:</h4>
+              <p className="text-sm text-indigo-600">{attempt.evaluation.modelAnswer}</p>
+            </div>
+          <div className="text-xs text-muted-foreground pt-2 flex justify-between gap-2">
+            <span>Type: {attempt.settings.interviewType} | Difficulty: {attempt.settings.difficultyLevel}</span>
+            <span className="flex gap-3">
+              {showSessionLink && attempt.sessionId && (
+                <Link href={`/history/sessions/${attempt.sessionId}`} className="text-primary hover:underline">View session report</Link>
+              )}
+              <a href={`/api/reports?type=attempt&id=${attempt.id}`} download className="text-primary hover:underline">Download PDF</a>
+            </span>
+          </div>
+        </div>
+      </AccordionContent>
+    </AccordionItem>
+  );
+}
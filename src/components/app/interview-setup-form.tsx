@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
@@ -22,11 +23,21 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { Briefcase, ListChecks, BarChart3, PlayCircle, Edit } from 'lucide-react';
+import { Briefcase, ListChecks, BarChart3, PlayCircle, Edit, ClipboardList, Scale, BookMarked } from 'lucide-react';
+import Link from 'next/link';
 import type { InterviewSettings, QuestionCount } from '@/lib/types';
 import { interviewTypes, difficultyLevels, questionCountOptions } from '@/lib/types';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
+import ResumeUpload from '@/components/app/resume-upload';
+import QuestionBankPicker from '@/components/app/question-bank-picker';
+import DailyPracticeStart from '@/components/app/daily-practice-start';
+import type { ResumeProfile } from '@/lib/resume-profile';
+import { MAX_JOB_DESCRIPTION_LENGTH, MIN_JOB_DESCRIPTION_LENGTH } from '@/lib/job-description';
+import useRubrics from '@/hooks/use-rubrics';
+
+// Select value for grading with the built-in rubric of the interview type.
+const BUILT_IN_RUBRIC = 'built-in';
 
 const formSchema = z.object({
   jobRole: z.string().min(2, { message: 'Job role must be at least 2 characters.' }).max(50),
@@ -43,15 +54,27 @@ const formSchema = z.object({
       }
     ) as z.ZodType<QuestionCount>,
   customQuestion: z.string().min(10, { message: 'Your question must be at least 10 characters long.' }).optional().or(z.literal('')),
+  jobDescription: z.string().max(MAX_JOB_DESCRIPTION_LENGTH, { message: 'Job postings must be under 15,000 characters.' }).optional(),
+  rubricId: z.string(),
+  questionIds: z.array(z.string()),
 });
 
+type SetupMode = 'generate' | 'custom' | 'job-description' | 'bank';
+
 type InterviewSetupFormProps = {
   onSubmit: (settings: InterviewSettings) => void;
   isLoading: boolean;
 };
 
 export default function InterviewSetupForm({ onSubmit, isLoading }: InterviewSetupFormProps) {
-  const [mode, setMode] = useState<'generate' | 'custom'>('generate');
+  // The question bank page links here with `?questions=<id>,<id>` to preselect questions.
+  const searchParams = useSearchParams();
+  const preselectedQuestionIds = searchParams.get('questions')?.split(',').filter(Boolean) ?? [];
+  // The dashboard links here with `?daily=1` to start today's practice set.
+  const isDailyPractice = searchParams.get('daily') === '1';
+  const [mode, setMode] = useState<SetupMode>(preselectedQuestionIds.length > 0 ? 'bank' : 'generate');
+  const [resumeProfile, setResumeProfile] = useState<ResumeProfile | null>(null);
+  const { rubrics } = useRubrics();
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -61,10 +84,17 @@ export default function InterviewSetupForm({ onSubmit, isLoading }: InterviewSet
       difficultyLevel: 'Intermediate',
       numQuestions: 3 as QuestionCount,
       customQuestion: '',
+      jobDescription: '',
+      rubricId: BUILT_IN_RUBRIC,
+      questionIds: preselectedQuestionIds,
     },
   });
 
   function handleSubmit(values: z.infer<typeof formSchema>) {
+    const selectedRubric = rubrics.find(item => item.id === values.rubricId);
+    const rubric = selectedRubric
+      ? { id: selectedRubric.id, name: selectedRubric.name, criteria: selectedRubric.criteria }
+      : undefined;
     if (mode === 'custom') {
       if (!values.customQuestion || values.customQuestion.length < 10) {
         form.setError("customQuestion", { type: "manual", message: "Please enter a question with at least 10 characters."});
@@ -77,12 +107,137 @@ export default function InterviewSetupForm({ onSubmit, isLoading }: InterviewSet
         difficultyLevel: 'Intermediate',
         interviewType: 'Behavioral', // A safe, general default
         numQuestions: 1,
+        rubric,
+      });
+    } else if (mode === 'job-description') {
+      if (!values.jobDescription || values.jobDescription.trim().length < MIN_JOB_DESCRIPTION_LENGTH) {
+        form.setError("jobDescription", { type: "manual", message: "Please paste the full job posting so its competencies can be identified."});
+        return;
+      }
+      onSubmit({
+        jobRole: values.jobRole,
+        jobDescription: values.jobDescription.trim(),
+        // The difficulty is replaced by the seniority found in the posting
+        difficultyLevel: values.difficultyLevel,
+        interviewType: 'Behavioral',
+        numQuestions: values.numQuestions,
+        rubric,
+      });
+    } else if (mode === 'bank') {
+      if (values.questionIds.length === 0) {
+        form.setError("questionIds", { type: "manual", message: "Pick at least one question from your bank."});
+        return;
+      }
+      onSubmit({
+        jobRole: values.jobRole,
+        interviewType: values.interviewType,
+        difficultyLevel: values.difficultyLevel,
+        questionIds: values.questionIds,
+        numQuestions: values.numQuestions, // Not used; the chosen questions are asked
+        rubric,
       });
     } else {
-      onSubmit(values);
+      onSubmit({
+        jobRole: values.jobRole,
+        interviewType: values.interviewType,
+        difficultyLevel: values.difficultyLevel,
+        numQuestions: values.numQuestions,
+        resumeProfile: resumeProfile ?? undefined,
+        rubric,
+      });
     }
   }
 
+  // Rendered in both the generated and job posting tabs; only the active tab is mounted.
+  const questionCountField = (
+    <FormField
+      control={form.control}
+      name="numQuestions"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel className="flex items-center gap-2 text-lg">Number of Questions</FormLabel>
+          <Select 
+            onValueChange={(value) => field.onChange(Number(value) as QuestionCount)} 
+            defaultValue={String(field.value)}
+          >
+            <FormControl>
+              <SelectTrigger className="text-base">
+                <SelectValue placeholder="Select number of questions" />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {questionCountOptions.map((num) => (
+                <SelectItem key={num} value={String(num)} className="text-base">
+                  {num} Questions
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  // Rendered in both the generated and question bank tabs.
+  const interviewTypeField = (
+    <FormField
+      control={form.control}
+      name="interviewType"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel className="flex items-center gap-2 text-lg"><ListChecks size={20} />Interview Type</FormLabel>
+          <Select onValueChange={field.onChange} defaultValue={field.value}>
+            <FormControl>
+              <SelectTrigger className="text-base">
+                <SelectValue placeholder="Select interview type" />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {interviewTypes.map((type) => (
+                <SelectItem key={type} value={type} className="text-base">
+                  {type}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const difficultyField = (
+    <FormField
+      control={form.control}
+      name="difficultyLevel"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel className="flex items-center gap-2 text-lg"><BarChart3 size={20} />Difficulty Level</FormLabel>
+          <Select onValueChange={field.onChange} defaultValue={field.value}>
+            <FormControl>
+              <SelectTrigger className="text-base">
+                <SelectValue placeholder="Select difficulty" />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {difficultyLevels.map((level) => (
+                <SelectItem key={level} value={level} className="text-base">
+                  {level}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  if (isDailyPractice) {
+    return <DailyPracticeStart onSubmit={onSubmit} isLoading={isLoading} />;
+  }
+
   return (
     <Card className="w-full max-w-lg mx-auto shadow-xl">
       <CardHeader>
@@ -94,10 +249,12 @@ export default function InterviewSetupForm({ onSubmit, isLoading }: InterviewSet
       <CardContent>
         <Form {...form}>
           <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
-            <Tabs defaultValue="generate" className="w-full" onValueChange={(value) => setMode(value as 'generate' | 'custom')}>
-              <TabsList className="grid w-full grid-cols-2">
-                <TabsTrigger value="generate">AI Generated Questions</TabsTrigger>
-                <TabsTrigger value="custom">Use My Own Question</TabsTrigger>
+            <Tabs defaultValue={mode} className="w-full" onValueChange={(value) => setMode(value as SetupMode)}>
+              <TabsList className="grid w-full grid-cols-2 sm:grid-cols-4 h-auto">
+                <TabsTrigger value="generate" className="whitespace-normal">AI Generated Questions</TabsTrigger>
+                <TabsTrigger value="job-description" className="whitespace-normal">From a Job Posting</TabsTrigger>
+                <TabsTrigger value="bank" className="whitespace-normal">From My Question Bank</TabsTrigger>
+                <TabsTrigger value="custom" className="whitespace-normal">Use My Own Question</TabsTrigger>
               </TabsList>
 
               {/* Common Fields */}
@@ -116,25 +273,26 @@ export default function InterviewSetupForm({ onSubmit, isLoading }: InterviewSet
                     </FormItem>
                   )}
                 />
-              </div>
-
-              <TabsContent value="generate" className="space-y-6">
                 <FormField
                   control={form.control}
-                  name="interviewType"
+                  name="rubricId"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel className="flex items-center gap-2 text-lg"><ListChecks size={20} />Interview Type</FormLabel>
+                      <FormLabel className="flex items-center gap-2 text-lg"><Scale size={20} />Evaluation Rubric</FormLabel>
+                      <CardDescription className="text-xs pb-2">
+                        Grade answers with the built-in criteria for the interview type, or with one of your own. <Link href="/rubrics" className="underline">Manage rubrics</Link>
+                      </CardDescription>
                       <Select onValueChange={field.onChange} defaultValue={field.value}>
                         <FormControl>
                           <SelectTrigger className="text-base">
-                            <SelectValue placeholder="Select interview type" />
+                            <SelectValue placeholder="Select a rubric" />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          {interviewTypes.map((type) => (
-                            <SelectItem key={type} value={type} className="text-base">
-                              {type}
+                          <SelectItem value={BUILT_IN_RUBRIC} className="text-base">Built-in (matches interview type)</SelectItem>
+                          {rubrics.map((rubric) => (
+                            <SelectItem key={rubric.id} value={rubric.id} className="text-base">
+                              {rubric.name}{rubric.shared ? ' (shared)' : ''}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -143,59 +301,54 @@ export default function InterviewSetupForm({ onSubmit, isLoading }: InterviewSet
                     </FormItem>
                   )}
                 />
+              </div>
+
+              <TabsContent value="generate" className="space-y-6">
+                {interviewTypeField}
 
+                {difficultyField}
+
+                {questionCountField}
+
+                <ResumeUpload onChange={setResumeProfile} />
+              </TabsContent>
+
+              <TabsContent value="job-description" className="space-y-6">
                 <FormField
                   control={form.control}
-                  name="difficultyLevel"
+                  name="jobDescription"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel className="flex items-center gap-2 text-lg"><BarChart3 size={20} />Difficulty Level</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
-                        <FormControl>
-                          <SelectTrigger className="text-base">
-                            <SelectValue placeholder="Select difficulty" />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          {difficultyLevels.map((level) => (
-                            <SelectItem key={level} value={level} className="text-base">
-                              {level}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
+                      <FormLabel className="flex items-center gap-2 text-lg"><ClipboardList size={20} />Job Posting</FormLabel>
+                      <CardDescription className="text-xs pb-2">Paste the full posting. We'll identify the competencies and seniority it asks for and ask a question about each.</CardDescription>
+                      <FormControl>
+                        <Textarea
+                          placeholder="Paste the job description here..."
+                          {...field}
+                          className="text-sm min-h-[200px]"
+                        />
+                      </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-                
+                {questionCountField}
+              </TabsContent>
+
+              <TabsContent value="bank" className="space-y-6">
                 <FormField
                   control={form.control}
-                  name="numQuestions"
+                  name="questionIds"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel className="flex items-center gap-2 text-lg">Number of Questions</FormLabel>
-                      <Select 
-                        onValueChange={(value) => field.onChange(Number(value) as QuestionCount)} 
-                        defaultValue={String(field.value)}
-                      >
-                        <FormControl>
-                          <SelectTrigger className="text-base">
-                            <SelectValue placeholder="Select number of questions" />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          {questionCountOptions.map((num) => (
-                            <SelectItem key={num} value={String(num)} className="text-base">
-                              {num} Questions
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
+                      <FormLabel className="flex items-center gap-2 text-lg"><BookMarked size={20} />Questions</FormLabel>
+                      <QuestionBankPicker selectedIds={field.value} onChange={field.onChange} />
                       <FormMessage />
                     </FormItem>
                   )}
                 />
+                {interviewTypeField}
+                {difficultyField}
               </TabsContent>
 
               <TabsContent value="custom" className="space-y-6">
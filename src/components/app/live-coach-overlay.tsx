@@ -0,0 +1,144 @@
+'use client';
+
+import { Gauge, MessageSquareWarning, Settings2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import type { LiveCoach } from '@/hooks/use-live-coach';
+import { LIVE_COACH_LIMITS, MIN_WPM_GAP, type LiveCoachNumberSetting, type LiveCoachSettings } from '@/lib/live-coach';
+
+type LiveCoachOverlayProps = {
+  coach: LiveCoach;
+  isListening: boolean;
+};
+
+const NUMBER_SETTINGS: { key: LiveCoachNumberSetting; label: string }[] = [
+  { key: 'minWpm', label: 'Slowest pace (WPM)' },
+  { key: 'maxWpm', label: 'Fastest pace (WPM)' },
+  { key: 'windowSeconds', label: 'Pace window (seconds)' },
+  { key: 'fillerNudgeCount', label: 'Filler nudge after (times)' },
+];
+
+// The pace bounds also depend on each other, so the slowest pace stays below the fastest.
+function settingBounds(key: LiveCoachNumberSetting, settings: LiveCoachSettings) {
+  const { min, max } = LIVE_COACH_LIMITS[key];
+  if (key === 'minWpm') return { min, max: Math.min(max, settings.maxWpm - MIN_WPM_GAP) };
+  if (key === 'maxWpm') return { min: Math.max(min, settings.minWpm + MIN_WPM_GAP), max };
+  return { min, max };
+}
+
+function LiveCoachSettingsPopover({ coach }: { coach: LiveCoach }) {
+  const { settings, updateSettings } = coach;
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="Live coach settings">
+          <Settings2 className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="live-coach-enabled">Live coach</Label>
+          <Switch id="live-coach-enabled" checked={settings.enabled} onCheckedChange={enabled => updateSettings({ enabled })} />
+        </div>
+        {NUMBER_SETTINGS.map(({ key, label }) => {
+          const { min, max } = settingBounds(key, settings);
+          return (
+            <div key={key} className="flex items-center justify-between gap-2">
+              <Label htmlFor={`live-coach-${key}`} className="text-sm font-normal">{label}</Label>
+              {/* Committed on blur so partly typed numbers aren't clamped; the key resets the field after a clamp. */}
+              <Input
+                key={settings[key]}
+                id={`live-coach-${key}`}
+                type="number"
+                min={min}
+                max={max}
+                className="h-8 w-20"
+                defaultValue={settings[key]}
+                disabled={!settings.enabled}
+                onBlur={event => {
+                  const value = Number(event.target.value);
+                  updateSettings({ [key]: Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : settings[key] });
+                }}
+              />
+            </div>
+          );
+        })}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+// Rolling pace, filler count and nudges while the speech recognizer is listening.
+export default function LiveCoachOverlay({ coach, isListening }: LiveCoachOverlayProps) {
+  const { settings, stats, nudges } = coach;
+
+  if (!isListening || !settings.enabled) {
+    return (
+      <div className="flex w-full items-center justify-end gap-1 text-xs text-muted-foreground">
+        Live coach {settings.enabled ? 'on' : 'off'}
+        <LiveCoachSettingsPopover coach={coach} />
+      </div>
+    );
+  }
+
+  // The gauge runs from 0 to a bit past the fastest target pace.
+  const scaleMax = Math.max(220, settings.maxWpm + 50);
+  const toPercent = (wpm: number) => Math.min(100, (wpm / scaleMax) * 100);
+  const isOutOfRange = stats.wpm !== null && (stats.wpm > settings.maxWpm || stats.wpm < settings.minWpm);
+
+  return (
+    <div className="w-full space-y-3 rounded-md border bg-background p-3" aria-live="polite">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Live coach</p>
+        <LiveCoachSettingsPopover coach={coach} />
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-[1fr_auto]">
+        <div>
+          <div className="mb-1 flex items-center justify-between text-xs text-muted-foreground">
+            <span className="flex items-center gap-1"><Gauge size={14} /> Pace, last {settings.windowSeconds}s</span>
+            <span className={cn('font-semibold', isOutOfRange ? 'text-yellow-600' : 'text-foreground')}>
+              {stats.wpm !== null ? `${stats.wpm} WPM` : 'Measuring...'}
+            </span>
+          </div>
+          <div className="relative h-3 w-full rounded-full bg-muted">
+            <div
+              className="absolute inset-y-0 rounded-full bg-green-500/30"
+              style={{ left: `${toPercent(settings.minWpm)}%`, width: `${toPercent(settings.maxWpm) - toPercent(settings.minWpm)}%` }}
+              title={`Target ${settings.minWpm}-${settings.maxWpm} WPM`}
+            />
+            {stats.wpm !== null && (
+              <div
+                className={cn('absolute top-1/2 h-5 w-1.5 -translate-x-1/2 -translate-y-1/2 rounded-sm transition-all', isOutOfRange ? 'bg-yellow-500' : 'bg-primary')}
+                style={{ left: `${toPercent(stats.wpm)}%` }}
+              />
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <MessageSquareWarning size={16} className="text-muted-foreground" />
+          <span className="font-semibold">{stats.fillerTotal}</span> filler word{stats.fillerTotal === 1 ? '' : 's'}
+        </div>
+      </div>
+
+      {stats.fillers.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {stats.fillers.map(filler => (
+            <Badge key={filler.phrase} variant={filler.count >= settings.fillerNudgeCount ? 'destructive' : 'outline'}>
+              &quot;{filler.phrase}&quot; ×{filler.count}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {nudges.map(nudge => (
+        <p key={nudge.kind} className="rounded-md bg-yellow-50 px-3 py-2 text-sm text-yellow-900">{nudge.message}</p>
+      ))}
+    </div>
+  );
+}
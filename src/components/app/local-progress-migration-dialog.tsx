@@ -0,0 +1,62 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { CloudUpload, Loader2 } from 'lucide-react';
+import type { LocalProgress } from '@/lib/local-progress-migration';
+
+type LocalProgressMigrationDialogProps = {
+  open: boolean;
+  progress: LocalProgress;
+  onImport: () => Promise<void>;
+  onDismiss: () => void;
+};
+
+export default function LocalProgressMigrationDialog({ open, progress, onImport, onDismiss }: LocalProgressMigrationDialogProps) {
+  const [isImporting, setIsImporting] = useState(false);
+  const interviewCount = progress.interviewAttempts.length;
+  const presentationCount = progress.presentationAttempts.length;
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      await onImport();
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={(isOpen) => { if (!isOpen && !isImporting) onDismiss(); }}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2"><CloudUpload size={22} className="text-primary" /> Import your saved progress?</AlertDialogTitle>
+          <AlertDialogDescription>
+            We found practice history saved in this browser. Import it into your account so it follows you to every device.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <ul className="list-disc pl-6 text-sm space-y-1">
+          <li>{interviewCount} interview {interviewCount === 1 ? 'attempt' : 'attempts'}</li>
+          <li>{presentationCount} presentation {presentationCount === 1 ? 'attempt' : 'attempts'}</li>
+        </ul>
+        <p className="text-xs text-muted-foreground">Original dates are kept. Attempts that are already in your account are skipped.</p>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isImporting}>Not Now</AlertDialogCancel>
+          <Button onClick={handleImport} disabled={isImporting} className="gap-1">
+            {isImporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <CloudUpload size={16} />}
+            Import {interviewCount + presentationCount} {interviewCount + presentationCount === 1 ? 'Attempt' : 'Attempts'}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,31 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { LONG_PAUSE_SECONDS, MIN_PAUSE_SECONDS, type PauseMetrics } from '@/lib/pause-analysis';
+
+type PauseMetricsSummaryProps = {
+  metrics: PauseMetrics;
+};
+
+// Pause and silence measurements from a recording, as compact badges.
+export default function PauseMetricsSummary({ metrics }: PauseMetricsSummaryProps) {
+  if (metrics.timeToFirstWordSeconds === null) {
+    return <p className="text-sm text-muted-foreground">No speech was detected in the recording&apos;s audio.</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Badge variant="outline">First word after {metrics.timeToFirstWordSeconds}s</Badge>
+      <Badge variant="outline" title={`Silences of ${MIN_PAUSE_SECONDS}s or more`}>
+        {metrics.pauseCount} pause{metrics.pauseCount === 1 ? '' : 's'}
+      </Badge>
+      {metrics.pauseCount > 0 && <Badge variant="outline">Longest {metrics.longestPauseSeconds}s</Badge>}
+      {metrics.longPauseCount > 0 && (
+        <Badge variant="destructive">{metrics.longPauseCount} over {LONG_PAUSE_SECONDS}s</Badge>
+      )}
+      <Badge variant="outline" title={`${metrics.speechSeconds}s of speech, ${metrics.silenceSeconds}s of silence`}>
+        Speech to silence {metrics.speechToSilenceRatio !== null ? `${metrics.speechToSilenceRatio} : 1` : 'no silence'}
+      </Badge>
+    </div>
+  );
+}
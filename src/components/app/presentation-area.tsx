@@ -27,16 +27,27 @@ import {
   Clapperboard,
   RefreshCw,
   Lightbulb,
+  FileDown,
 } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from '@/hooks/use-toast';
-import type { PresentationSettings } from '@/lib/types';
+import type { PresentationSettings, RecordingUploadState } from '@/lib/types';
 import type { AnalyzePresentationOutput } from '@/ai/flows/analyze-presentation-flow';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import RecordingUploadStatus from '@/components/app/recording-upload-status';
+import SyncedTranscriptPlayer from '@/components/app/synced-transcript-player';
+import PauseMetricsSummary from '@/components/app/pause-metrics-summary';
+import VocalDeliveryCharts from '@/components/app/vocal-delivery-charts';
+import LiveCoachOverlay from '@/components/app/live-coach-overlay';
+import useLiveCoach from '@/hooks/use-live-coach';
+import { detectPauses, type PauseMetrics } from '@/lib/pause-analysis';
+import { analyzeProsody, type ProsodyMetrics } from '@/lib/prosody-analysis';
+import { decodeRecordingAudio } from '@/lib/recording-audio';
+import type { TranscriptTimings } from '@/lib/transcript-timing';
 
 type PresentationAreaProps = {
   settings: PresentationSettings;
-  onSubmit: (transcript: string, duration: number, recordedVideoUrl?: string | null) => Promise<void>;
+  onSubmit: (transcript: string, duration: number, recordedVideoUrl?: string | null, recordedVideo?: Blob | null, transcriptTimings?: TranscriptTimings | null, pauseMetrics?: PauseMetrics | null, prosodyMetrics?: ProsodyMetrics | null) => Promise<void>;
   onEndPractice: () => void;
   onRetryPractice: () => void;
   isLoading: boolean;
@@ -44,6 +55,8 @@ type PresentationAreaProps = {
   onGetModelSuggestion: () => Promise<void>;
   isLoadingSuggestion: boolean;
   modelSuggestion: string | null;
+  recordingUpload: RecordingUploadState;
+  reportAttemptId?: string; // Id of the saved attempt, once stored; enables the PDF report
 };
 
 // Helper to get target seconds from timeFrame string
@@ -90,6 +103,8 @@ export default function PresentationArea({
   onGetModelSuggestion,
   isLoadingSuggestion,
   modelSuggestion,
+  recordingUpload,
+  reportAttemptId,
 }: PresentationAreaProps) {
   // Shared state
   const [practiceMode, setPracticeMode] = useState<'audio' | 'video'>('audio');
@@ -107,6 +122,7 @@ export default function PresentationArea({
   const chosenMimeTypeRef = useRef<string>('video/webm');
   const [hasCameraPermission, setHasCameraPermission] = useState<boolean | null>(null);
   const [recordedVideoUrl, setRecordedVideoUrl] = useState<string | null>(null);
+  const [transcriptTimings, setTranscriptTimings] = useState<TranscriptTimings | null>(null);
   const [countdown, setCountdown] = useState<number | null>(null);
   const countdownIntervalRef = useRef<NodeJS.Timeout | null>(null);
   
@@ -117,6 +133,7 @@ export default function PresentationArea({
   const [finalTranscript, setFinalTranscript] = useState('');
   const isForcedStopRef = useRef(false);
   const finalTranscriptRef = useRef('');
+  const liveCoach = useLiveCoach();
 
   // Timer State
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
@@ -191,6 +208,7 @@ export default function PresentationArea({
                 finalTranscriptRef.current += event.results[i][0].transcript + ' ';
             }
         }
+        liveCoach.trackResults(event);
     };
 
     recognition.onstart = () => {
@@ -204,6 +222,7 @@ export default function PresentationArea({
     recognition.onend = async () => {
         setIsListening(false);
         if (isForcedStopRef.current) {
+            liveCoach.stop();
             const duration = stopTimer();
             const final = finalTranscriptRef.current;
             setFinalTranscript(final);
@@ -228,6 +247,7 @@ export default function PresentationArea({
         console.error('Speech recognition error', event.error);
         toast({ variant: 'destructive', title: 'Recognition Error', description: `An error occurred: ${event.error}. Try again or use Video Mode.` });
         setIsListening(false);
+        liveCoach.stop();
         stopTimer();
     };
 
@@ -251,6 +271,7 @@ export default function PresentationArea({
             if (prevUrl) URL.revokeObjectURL(prevUrl);
             return null;
         });
+        setTranscriptTimings(null);
         setElapsedSeconds(0);
         cancelCountdown();
     }
@@ -331,6 +352,11 @@ export default function PresentationArea({
         const formData = new FormData();
         const fileExtension = chosenMimeType.includes('mp4') ? 'mp4' : 'webm';
         formData.append('audio', mediaBlob, `presentation.${fileExtension}`);
+        // Measured locally while the server transcribes; the audio is decoded once for both.
+        const audioAnalysis = decodeRecordingAudio(mediaBlob).then(audio => audio && {
+          pauseMetrics: detectPauses(audio.samples, audio.sampleRate),
+          prosodyMetrics: analyzeProsody(audio.samples, audio.sampleRate),
+        });
         
         try {
           const response = await fetch('/api/transcribe', { method: 'POST', body: formData });
@@ -340,7 +366,9 @@ export default function PresentationArea({
           }
           const result = await response.json();
           setTranscript(result.transcript);
-          await onSubmit(result.transcript, duration, newVideoUrl);
+          setTranscriptTimings(result.timings ?? null);
+          const measured = await audioAnalysis;
+          await onSubmit(result.transcript, duration, newVideoUrl, mediaBlob, result.timings, measured?.pauseMetrics, measured?.prosodyMetrics);
 
         } catch (error) {
           const message = error instanceof Error ? error.message : "An unknown error occurred during transcription.";
@@ -368,6 +396,7 @@ export default function PresentationArea({
       setElapsedSeconds(0);
       if (recordedVideoUrl) URL.revokeObjectURL(recordedVideoUrl);
       setRecordedVideoUrl(null);
+      setTranscriptTimings(null);
       startCountdown();
     }
   };
@@ -386,6 +415,7 @@ export default function PresentationArea({
       finalTranscriptRef.current = '';
       setElapsedSeconds(0);
       isForcedStopRef.current = false;
+      liveCoach.start();
       recognitionRef.current.start();
     }
   };
@@ -480,6 +510,7 @@ export default function PresentationArea({
             <TabsContent value="audio">
               {!isAudioSupported && <Alert variant="destructive"><AlertTitle>Audio Not Supported</AlertTitle><AlertDescription>Your browser doesn't support live transcription. Try Chrome/Edge or use Video Mode.</AlertDescription></Alert>}
               <div className="flex flex-col items-center justify-center space-y-4">
+                  <LiveCoachOverlay coach={liveCoach} isListening={isListening} />
                   <div className={`w-full min-h-[50px] p-3 rounded-md border bg-muted text-muted-foreground ${finalTranscript.trim() ? 'text-foreground' : ''}`}>
                     {finalTranscript.trim() ? finalTranscript : isListening ? "Listening... click stop when you're done." : "Your transcript will appear here after you record."}
                   </div>
@@ -511,14 +542,23 @@ export default function PresentationArea({
                       <Button variant="outline" size="icon" onClick={handleDownloadTranscript} disabled={!displayedTranscript} aria-label="Download Transcript">
                         <FileText className="h-5 w-5" />
                       </Button>
+                      {reportAttemptId && (
+                        <Button asChild variant="outline" size="icon" aria-label="Download PDF Report">
+                          <a href={`/api/reports?type=presentation&id=${reportAttemptId}`} download><FileDown className="h-5 w-5" /></a>
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </CardHeader>
                 <CardContent className="space-y-6">
                     {recordedVideoUrl && (
-                      <div className="rounded-lg overflow-hidden border shadow-md">
-                        <video src={recordedVideoUrl} controls className="w-full aspect-video bg-black"></video>
-                      </div>
+                      transcriptTimings ? (
+                        <SyncedTranscriptPlayer src={recordedVideoUrl} transcript={transcript} timings={transcriptTimings} />
+                      ) : (
+                        <div className="rounded-lg overflow-hidden border shadow-md">
+                          <video src={recordedVideoUrl} controls className="w-full aspect-video bg-black"></video>
+                        </div>
+                      )
                     )}
                     
                     <Card className="p-6 bg-secondary/30">
@@ -543,6 +583,18 @@ export default function PresentationArea({
                         <FeedbackDetailCard icon={<ThumbsUp size={20}/>} title="Engagement" content={analysisResult.engagementFeedback} />
                         <FeedbackDetailCard icon={<Clock size={20}/>} title="Pacing &amp; Time Management" content={`${analysisResult.paceFeedback} ${analysisResult.timeManagementFeedback}`} />
                         {analysisResult.fillerWordsFound.length > 0 && <FeedbackDetailCard icon={<BookOpen size={20}/>} title="Filler Words" content={`The following filler words were detected: ${analysisResult.fillerWordsFound.join(', ')}.`} />}
+                        {analysisResult.pauseMetrics && (
+                          <div>
+                            <h4 className="text-md font-semibold mb-2">Pauses</h4>
+                            <PauseMetricsSummary metrics={analysisResult.pauseMetrics} />
+                          </div>
+                        )}
+                        {analysisResult.prosodyMetrics && (
+                          <div>
+                            <h4 className="text-md font-semibold mb-2">Vocal Delivery</h4>
+                            <VocalDeliveryCharts metrics={analysisResult.prosodyMetrics} />
+                          </div>
+                        )}
                     </div>
 
                     {displayedTranscript && (
@@ -556,13 +608,7 @@ export default function PresentationArea({
                         </div>
                       </div>
                     )}
-                    <Alert variant="default" className="mt-3 bg-blue-50 border-blue-200 text-blue-800">
-                        <Info className="h-4 w-4 !text-blue-800" />
-                        <AlertTitle>Video is Temporary</AlertTitle>
-                        <AlertDescription>
-                            This video is not saved permanently. Download it now if you wish to keep a copy.
-                        </AlertDescription>
-                    </Alert>
+                    {recordedVideoUrl && <RecordingUploadStatus uploadState={recordingUpload} />}
                     {!modelSuggestion && (
                         <div className="pt-4 mt-4 border-t">
                             <Button onClick={onGetModelSuggestion} variant="outline" className="w-full sm:w-auto border-accent text-accent-foreground hover:bg-accent/10 mt-2 gap-1" disabled={isLoadingSuggestion}>
@@ -1,19 +1,18 @@
 
 'use client';
 
-import { StoredPresentationAttempt } from '@/lib/types';
+import usePresentationAttempts from '@/hooks/use-presentation-attempts';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { formatDistanceToNow } from 'date-fns';
-import { TrendingUp, Archive, Clock, Users, BookOpen, Clapperboard, Mic, BarChartHorizontal } from 'lucide-react';
+import { TrendingUp, Archive, Clock, Users, BookOpen, Clapperboard, Mic, BarChartHorizontal, Loader2, ChevronLeft, ChevronRight, FileDown } from 'lucide-react';
 import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import RecordingPlayer from '@/components/app/recording-player';
 
-
-type PresentationProgressTrackerProps = {
-  attempts: StoredPresentationAttempt[];
-};
+const PAGE_SIZE = 10;
 
 const FeedbackMetricBar = ({ label, score }: { label: string; score: number }) => {
   const getBarColor = (value: number) => {
@@ -34,8 +33,29 @@ const FeedbackMetricBar = ({ label, score }: { label: string; score: number }) =
 };
 
 
-export default function PresentationProgressTracker({ attempts }: PresentationProgressTrackerProps) {
-  if (attempts.length === 0) {
+export default function PresentationProgressTracker() {
+  const { attempts, total, page, pageCount, setPage, isLoading, error } = usePresentationAttempts(PAGE_SIZE);
+
+  if (isLoading && attempts.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-8 text-muted-foreground">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" /> Loading progress...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="mt-8 shadow-lg">
+        <CardHeader>
+          <CardTitle className="text-2xl flex items-center gap-2"><Archive size={28} className="text-muted-foreground"/>Presentation Progress</CardTitle>
+          <CardDescription>We couldn't load your presentation history. Please refresh the page to try again.</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  if (total === 0) {
     return (
       <Card className="mt-8 shadow-lg">
         <CardHeader>
@@ -59,7 +79,7 @@ export default function PresentationProgressTracker({ attempts }: PresentationPr
       <CardContent>
         <ScrollArea className="h-[500px] pr-4">
           <Accordion type="single" collapsible className="w-full">
-            {attempts.sort((a,b) => b.timestamp - a.timestamp).map((attempt, index) => (
+            {attempts.map((attempt, index) => (
               <AccordionItem value={`item-${index}`} key={attempt.id} className="mb-2 border-b-0">
                 <AccordionTrigger className="bg-secondary/50 hover:bg-secondary/80 px-4 py-3 rounded-lg shadow-sm data-[state=open]:rounded-b-none data-[state=open]:shadow-md">
                   <div className="flex justify-between items-center w-full">
@@ -105,6 +125,13 @@ export default function PresentationProgressTracker({ attempts }: PresentationPr
                       </div>
                     </Card>
                     
+                    {attempt.recordingPath && (
+                      <div>
+                        <h4 className="font-medium text-muted-foreground mb-1">Recording:</h4>
+                        <RecordingPlayer recordingPath={attempt.recordingPath} transcript={attempt.transcript} timings={attempt.transcriptTimings} />
+                      </div>
+                    )}
+
                     <div>
                       <h4 className="font-medium text-muted-foreground">Transcript:</h4>
                       <p className="pl-2 mt-1 text-sm bg-muted p-2 rounded-md border whitespace-pre-wrap">{attempt.transcript || '(No text was transcribed for this attempt.)'}</p>
@@ -120,12 +147,28 @@ export default function PresentationProgressTracker({ attempts }: PresentationPr
                         <p className="text-sm text-green-600">{attempt.analysis.structureFeedback} {attempt.analysis.engagementFeedback}</p>
                       </div>
                     </div>
+                    <div className="flex justify-end">
+                      <a href={`/api/reports?type=presentation&id=${attempt.id}`} download className="text-xs text-primary hover:underline flex items-center gap-1">
+                        <FileDown size={14} /> Download PDF report
+                      </a>
+                    </div>
                   </div>
                 </AccordionContent>
               </AccordionItem>
             ))}
           </Accordion>
         </ScrollArea>
+        {pageCount > 1 && (
+          <div className="flex items-center justify-between pt-4">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0 || isLoading} className="gap-1">
+              <ChevronLeft size={16} /> Newer
+            </Button>
+            <p className="text-sm text-muted-foreground">Page {page + 1} of {pageCount} ({total} attempts)</p>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount - 1 || isLoading} className="gap-1">
+              Older <ChevronRight size={16} />
+            </Button>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -1,20 +1,58 @@
 
 'use client';
 
-import { StoredAttempt } from '@/lib/types';
+import { useEffect, useRef } from 'react';
+import Link from 'next/link';
+import useInterviewHistory from '@/hooks/use-interview-history';
+import useAttemptOutbox from '@/hooks/use-attempt-outbox';
+import InterviewAttemptItem from '@/components/app/interview-attempt-item';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { formatDistanceToNow } from 'date-fns';
-import { TrendingUp, Archive, Clock, MicVocal, BarChartHorizontal, Clapperboard, Mic } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { TrendingUp, Archive, Loader2, CloudOff, History, AlertTriangle, RefreshCw, Trash2 } from 'lucide-react';
+import { isFailedSubmission } from '@/lib/attempt-outbox';
 
-type ProgressTrackerProps = {
-  attempts: StoredAttempt[];
-};
+// The full, filterable list lives on the /history page.
+const RECENT_ATTEMPTS_LIMIT = 10;
 
-export default function ProgressTracker({ attempts }: ProgressTrackerProps) {
-  if (attempts.length === 0) {
+export default function ProgressTracker() {
+  const { attempts, isLoading, error, refresh } = useInterviewHistory({}, 0, RECENT_ATTEMPTS_LIMIT);
+  const { pending, retry, dismiss } = useAttemptOutbox();
+
+  // Reload from the database whenever queued answers finish syncing.
+  const pendingCountRef = useRef(pending.length);
+  useEffect(() => {
+    if (pending.length < pendingCountRef.current) refresh();
+    pendingCountRef.current = pending.length;
+  }, [pending.length, refresh]);
+
+  // An attempt that already reached the database wins over its queued copy.
+  const syncedIds = new Set(attempts.map(attempt => attempt.id));
+  const pendingSubmissions = pending.filter(submission => !syncedIds.has(submission.id));
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-muted-foreground">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" /> Loading progress...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="mt-8 shadow-lg">
+        <CardHeader>
+          <CardTitle className="text-2xl flex items-center gap-2"><Archive size={28} className="text-muted-foreground"/>Your Progress</CardTitle>
+          <CardDescription>We couldn't load your practice history. Please refresh the page to try again.</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  if (attempts.length === 0 && pendingSubmissions.length === 0) {
     return (
       <Card className="mt-8 shadow-lg">
         <CardHeader>
@@ -38,83 +76,64 @@ export default function ProgressTracker({ attempts }: ProgressTrackerProps) {
       <CardContent>
         <ScrollArea className="h-[500px] pr-4"> {/* Increased height slightly */}
           <Accordion type="single" collapsible className="w-full">
-            {attempts.sort((a,b) => b.timestamp - a.timestamp).map((attempt, index) => (
-              <AccordionItem value={`item-${index}`} key={attempt.id} className="mb-2 border-b-0">
-                <AccordionTrigger className="bg-secondary/50 hover:bg-secondary/80 px-4 py-3 rounded-lg shadow-sm data-[state=open]:rounded-b-none data-[state=open]:shadow-md">
+            {pendingSubmissions.map((submission) => (
+              <AccordionItem value={`pending-${submission.id}`} key={submission.id} className="mb-2 border-b-0">
+                <AccordionTrigger className="bg-muted/50 hover:bg-muted/80 px-4 py-3 rounded-lg shadow-sm border border-dashed data-[state=open]:rounded-b-none data-[state=open]:shadow-md">
                   <div className="flex justify-between items-center w-full">
                     <div className='text-left'>
-                      <p className="font-semibold text-primary-foreground text-lg">{attempt.settings.jobRole.length > 25 ? `${attempt.settings.jobRole.substring(0,25)}...` : attempt.settings.jobRole}</p>
-                      <p className="text-xs text-muted-foreground">{formatDistanceToNow(new Date(attempt.timestamp), { addSuffix: true })}</p>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      {attempt.practiceMode === 'video' ? (
-                        <Badge variant="outline" className="text-xs hidden sm:flex items-center gap-1"><Clapperboard size={12}/> Video</Badge>
-                      ) : attempt.practiceMode === 'audio' ? (
-                        <Badge variant="outline" className="text-xs hidden sm:flex items-center gap-1"><Mic size={12}/> Audio</Badge>
-                      ) : null}
-                      {attempt.recordingDurationSeconds !== undefined && attempt.recordingDurationSeconds > 0 ? (
-                        <Badge variant="outline" className="text-xs hidden sm:flex items-center gap-1">
-                          <Clock size={12}/> {attempt.recordingDurationSeconds}s
-                        </Badge>
-                      ) : null}
-                      <Badge variant={attempt.evaluation.score >= 70 ? 'default' : 'destructive'} className="text-sm px-3 py-1">
-                        Score: {attempt.evaluation.score}
-                      </Badge>
+                      <p className="font-semibold text-lg">{submission.settings.jobRole.length > 25 ? `${submission.settings.jobRole.substring(0,25)}...` : submission.settings.jobRole}</p>
+                      <p className="text-xs text-muted-foreground">{formatDistanceToNow(new Date(submission.timestamp), { addSuffix: true })}</p>
                     </div>
+                    {isFailedSubmission(submission) ? (
+                      <Badge variant="destructive" className="text-xs flex items-center gap-1"><AlertTriangle size={12}/> Sync failed</Badge>
+                    ) : (
+                      <Badge variant="secondary" className="text-xs flex items-center gap-1"><CloudOff size={12}/> Pending</Badge>
+                    )}
                   </div>
                 </AccordionTrigger>
                 <AccordionContent className="bg-card p-4 rounded-b-lg shadow-inner border border-t-0">
                   <div className="space-y-3">
                     <div>
                       <h4 className="font-medium text-muted-foreground">Question:</h4>
-                      <p className="pl-2">{attempt.question}</p>
+                      <p className="pl-2">{submission.question}</p>
                     </div>
                     <div>
                       <h4 className="font-medium text-muted-foreground">Your Answer (Text):</h4>
-                      <p className="pl-2 whitespace-pre-wrap">{attempt.userAnswer || '(No text was transcribed for this attempt.)'}</p>
+                      <p className="pl-2 whitespace-pre-wrap">{submission.userAnswer || '(No text was transcribed for this attempt.)'}</p>
                     </div>
-                    
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3 pt-2">
-                      <div className="bg-green-50 p-3 rounded border border-green-200">
-                        <h4 className="font-medium text-green-700">Strengths:</h4>
-                        <p className="text-sm text-green-600">{attempt.evaluation.strengths}</p>
-                      </div>
-                      <div className="bg-red-50 p-3 rounded border border-red-200">
-                        <h4 className="font-medium text-red-700">Weaknesses:</h4>
-                        <p className="text-sm text-red-600">{attempt.evaluation.weaknesses}</p>
+                    {isFailedSubmission(submission) ? (
+                      <div className="space-y-2 pt-2">
+                        <p className="text-xs text-destructive">
+                          This answer could not be synced after several tries and won&apos;t be retried automatically.
+                          {submission.lastError && ` Last sync error: ${submission.lastError}`}
+                        </p>
+                        <div className="flex gap-2">
+                          <Button size="sm" variant="outline" className="gap-1" onClick={() => retry(submission.id)}><RefreshCw size={14} /> Retry</Button>
+                          <Button size="sm" variant="ghost" className="gap-1" onClick={() => dismiss(submission.id)}><Trash2 size={14} /> Dismiss</Button>
+                        </div>
                       </div>
-                    </div>
-
-                    {attempt.communicationAnalysis && (
-                       <div className="mt-3 pt-3 border-t">
-                         <h4 className="font-medium text-muted-foreground flex items-center gap-1 mb-1"><BarChartHorizontal size={16}/>Communication Analysis:</h4>
-                         <div className="pl-2 space-y-1 text-sm">
-                            <p><strong>Clarity:</strong> {attempt.communicationAnalysis.clarityFeedback}</p>
-                            <p><strong>Confidence Cues:</strong> {attempt.communicationAnalysis.confidenceCues}</p>
-                            <p>
-                                <strong>Pace:</strong> {attempt.communicationAnalysis.speakingPaceWPM} WPM. {attempt.communicationAnalysis.paceFeedback}
-                                {attempt.recordingDurationSeconds && ` (Total: ${attempt.recordingDurationSeconds}s)`}
-                            </p>
-                            {attempt.communicationAnalysis.fillerWordsFound.length > 0 && (
-                                <p><strong>Filler Words:</strong> {attempt.communicationAnalysis.fillerWordsFound.join(', ')}</p>
-                            )}
-                         </div>
-                       </div>
+                    ) : (
+                      <p className="text-xs text-muted-foreground pt-2">
+                        Waiting for a connection. This answer will be evaluated and synced automatically.
+                        {submission.lastError && ` Last sync error: ${submission.lastError}`}
+                      </p>
                     )}
-
-                     <div className="bg-indigo-50 p-3 rounded border border-indigo-200 mt-2">
-                        <h4 className="font-medium text-indigo-700 flex items-center gap-1"><MicVocal size={16}/>Model Answer Suggestion:</h4>
-                        <p className="text-sm text-indigo-600">{attempt.evaluation.modelAnswer}</p>
-                      </div>
-                    <div className="text-xs text-muted-foreground pt-2">
-                      Type: {attempt.settings.interviewType} | Difficulty: {attempt.settings.difficultyLevel}
-                    </div>
                   </div>
                 </AccordionContent>
               </AccordionItem>
             ))}
+            {attempts.map((attempt) => (
+              <InterviewAttemptItem key={attempt.id} attempt={attempt} />
+            ))}
           </Accordion>
         </ScrollArea>
+        {attempts.length > 0 && (
+          <div className="flex justify-center mt-4">
+            <Button asChild variant="outline">
+              <Link href="/history"><History className="mr-2 h-4 w-4" />View Full History</Link>
+            </Button>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,61 @@
+'use client';
+
+import { Star, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import type { BankQuestion } from '@/lib/types';
+
+type QuestionBankListProps = {
+  questions: BankQuestion[];
+  selectedIds: string[];
+  onToggleSelected: (questionId: string) => void;
+  onToggleStarred?: (question: BankQuestion) => void;
+  onDelete?: (question: BankQuestion) => void;
+};
+
+// Selectable rows of question bank questions with their tags. Starring and
+// deleting are only offered when the handlers are given.
+export default function QuestionBankList({ questions, selectedIds, onToggleSelected, onToggleStarred, onDelete }: QuestionBankListProps) {
+  return (
+    <ul className="divide-y rounded-md border">
+      {questions.map(question => {
+        const isSelected = selectedIds.includes(question.id);
+        const order = selectedIds.indexOf(question.id) + 1;
+        return (
+          <li key={question.id} className="flex items-start gap-3 p-3">
+            <Checkbox
+              id={`bank-question-${question.id}`}
+              checked={isSelected}
+              onCheckedChange={() => onToggleSelected(question.id)}
+              className="mt-1"
+            />
+            <div className="flex-1 space-y-1">
+              <label htmlFor={`bank-question-${question.id}`} className="text-sm leading-snug cursor-pointer">{question.question}</label>
+              <div className="flex flex-wrap gap-1">
+                {isSelected && <Badge className="text-xs">#{order}</Badge>}
+                {question.jobRole && <Badge variant="outline" className="text-xs">{question.jobRole}</Badge>}
+                {question.interviewType && <Badge variant="outline" className="text-xs">{question.interviewType}</Badge>}
+                {question.difficultyLevel && <Badge variant="outline" className="text-xs">{question.difficultyLevel}</Badge>}
+                <Badge variant="secondary" className="text-xs capitalize">{question.source}</Badge>
+              </div>
+            </div>
+            {onToggleStarred && (
+              <Button type="button" variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => onToggleStarred(question)}>
+                <Star className={question.starred ? 'h-4 w-4 fill-amber-400 text-amber-500' : 'h-4 w-4'} />
+                <span className="sr-only">{question.starred ? 'Unstar question' : 'Star question'}</span>
+              </Button>
+            )}
+            {!onToggleStarred && question.starred && <Star className="h-4 w-4 mt-1 shrink-0 fill-amber-400 text-amber-500" />}
+            {onDelete && (
+              <Button type="button" variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => onDelete(question)}>
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Delete question</span>
+              </Button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import QuestionBankList from '@/components/app/question-bank-list';
+import useQuestionBank from '@/hooks/use-question-bank';
+import { MAX_BANK_INTERVIEW_QUESTIONS, filterBankQuestions } from '@/lib/question-bank';
+
+type QuestionBankPickerProps = {
+  selectedIds: string[];
+  onChange: (questionIds: string[]) => void;
+};
+
+// Picks questions from the user's bank for an interview. Selection order is the order they are asked.
+export default function QuestionBankPicker({ selectedIds, onChange }: QuestionBankPickerProps) {
+  const { questions, isLoading, error } = useQuestionBank();
+  const [search, setSearch] = useState('');
+  const [starredOnly, setStarredOnly] = useState(false);
+
+  const visibleQuestions = filterBankQuestions(questions, { search, starredOnly });
+
+  const toggleSelected = (questionId: string) => {
+    if (selectedIds.includes(questionId)) {
+      onChange(selectedIds.filter(id => id !== questionId));
+    } else if (selectedIds.length < MAX_BANK_INTERVIEW_QUESTIONS) {
+      onChange([...selectedIds, questionId]);
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+  if (error) {
+    return <p className="text-destructive text-sm">Could not load your question bank.</p>;
+  }
+  if (questions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Your question bank is empty. Save questions during an interview or <Link href="/questions" className="underline">import your own</Link>.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <Input value={search} onChange={e => setSearch(e.target.value)} placeholder="Search your questions..." className="flex-1" />
+        <div className="flex items-center gap-2 shrink-0">
+          <Switch id="picker-starred-only" checked={starredOnly} onCheckedChange={setStarredOnly} />
+          <Label htmlFor="picker-starred-only" className="text-sm">Starred</Label>
+        </div>
+      </div>
+      <ScrollArea className="h-64">
+        {visibleQuestions.length > 0 ? (
+          <QuestionBankList questions={visibleQuestions} selectedIds={selectedIds} onToggleSelected={toggleSelected} />
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">No questions match.</p>
+        )}
+      </ScrollArea>
+      <p className="text-xs text-muted-foreground">
+        {selectedIds.length} of up to {MAX_BANK_INTERVIEW_QUESTIONS} selected. <Link href="/questions" className="underline">Manage question bank</Link>
+      </p>
+    </div>
+  );
+}
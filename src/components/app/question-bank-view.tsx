@@ -0,0 +1,288 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BookMarked, FileUp, Loader2, PlayCircle, Plus } from 'lucide-react';
+import QuestionBankList from '@/components/app/question-bank-list';
+import useQuestionBank from '@/hooks/use-question-bank';
+import { useSupabase } from '@/contexts/supabase-auth-context';
+import { useToast } from '@/hooks/use-toast';
+import { deleteBankQuestion, saveBankQuestions, setBankQuestionStarred } from '@/lib/supabase/question-bank';
+import {
+  MAX_BANK_INTERVIEW_QUESTIONS,
+  MAX_BANK_QUESTION_LENGTH,
+  MIN_BANK_QUESTION_LENGTH,
+  filterBankQuestions,
+  parseQuestionImport,
+  type QuestionBankFilters,
+} from '@/lib/question-bank';
+import { difficultyLevels, interviewTypes, type BankQuestion, type BankQuestionDraft } from '@/lib/types';
+
+// Radix Select items cannot have an empty value, so "any" stands in for no tag.
+const ANY = 'any';
+
+const MAX_IMPORT_FILE_BYTES = 1024 * 1024;
+
+export default function QuestionBankView() {
+  const { supabase, user } = useSupabase();
+  const { toast } = useToast();
+  const { questions, setQuestions, isLoading, error } = useQuestionBank();
+  const [filters, setFilters] = useState<QuestionBankFilters>({});
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [newQuestion, setNewQuestion] = useState<BankQuestionDraft>({ question: '', source: 'custom' });
+  const [isAdding, setIsAdding] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const visibleQuestions = filterBankQuestions(questions, filters);
+  const updateFilters = (changes: Partial<QuestionBankFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+
+  const addToBank = (added: BankQuestion[]) => setQuestions(prev => [...added, ...prev]);
+
+  const toggleSelected = (questionId: string) => {
+    setSelectedIds(prev => {
+      if (prev.includes(questionId)) return prev.filter(id => id !== questionId);
+      if (prev.length >= MAX_BANK_INTERVIEW_QUESTIONS) {
+        toast({ title: 'Selection Full', description: `An interview can have at most ${MAX_BANK_INTERVIEW_QUESTIONS} questions.` });
+        return prev;
+      }
+      return [...prev, questionId];
+    });
+  };
+
+  const handleToggleStarred = async (question: BankQuestion) => {
+    if (!user) return;
+    const starred = !question.starred;
+    setQuestions(prev => prev.map(item => (item.id === question.id ? { ...item, starred } : item)));
+    try {
+      await setBankQuestionStarred(supabase, user.id, question.id, starred);
+    } catch (starError) {
+      console.error('Error starring question:', starError);
+      setQuestions(prev => prev.map(item => (item.id === question.id ? { ...item, starred: question.starred } : item)));
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not update the question.' });
+    }
+  };
+
+  const handleDelete = async (question: BankQuestion) => {
+    if (!user) return;
+    try {
+      await deleteBankQuestion(supabase, user.id, question.id);
+      setQuestions(prev => prev.filter(item => item.id !== question.id));
+      setSelectedIds(prev => prev.filter(id => id !== question.id));
+      toast({ title: 'Question Deleted' });
+    } catch (deleteError) {
+      console.error('Error deleting question:', deleteError);
+      toast({ variant: 'destructive', title: 'Delete Failed', description: 'The question could not be deleted.' });
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow re-importing the same file
+    if (!file || !user) return;
+    if (file.size > MAX_IMPORT_FILE_BYTES) {
+      toast({ variant: 'destructive', title: 'File Too Large', description: 'Import files must be under 1 MB.' });
+      return;
+    }
+    setIsImporting(true);
+    try {
+      const { questions: drafts, errors } = parseQuestionImport(await file.text(), file.name);
+      setImportErrors(errors);
+      if (drafts.length === 0) {
+        toast({ variant: 'destructive', title: 'Nothing Imported', description: 'No valid questions were found in the file.' });
+        return;
+      }
+      const added = await saveBankQuestions(supabase, user.id, drafts);
+      addToBank(added);
+      const skipped = drafts.length - added.length;
+      toast({
+        title: 'Questions Imported',
+        description: `Added ${added.length} question${added.length === 1 ? '' : 's'}${skipped > 0 ? `; ${skipped} already in your bank` : ''}.`,
+      });
+    } catch (importError) {
+      console.error('Error importing questions:', importError);
+      toast({ variant: 'destructive', title: 'Import Failed', description: 'Your questions could not be imported.' });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!user) return;
+    const question = newQuestion.question.trim();
+    if (question.length < MIN_BANK_QUESTION_LENGTH) {
+      toast({ variant: 'destructive', title: 'Question Too Short', description: `Questions must be at least ${MIN_BANK_QUESTION_LENGTH} characters.` });
+      return;
+    }
+    setIsAdding(true);
+    try {
+      const added = await saveBankQuestions(supabase, user.id, [{ ...newQuestion, question, jobRole: newQuestion.jobRole?.trim() || undefined }]);
+      if (added.length === 0) {
+        toast({ title: 'Already Saved', description: 'That question is already in your bank.' });
+      } else {
+        addToBank(added);
+        setNewQuestion(prev => ({ ...prev, question: '' }));
+        toast({ title: 'Question Added' });
+      }
+    } catch (addError) {
+      console.error('Error adding question:', addError);
+      toast({ variant: 'destructive', title: 'Save Failed', description: 'The question could not be saved.' });
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl flex items-center gap-2"><Plus size={20} /> Add Questions</CardTitle>
+          <CardDescription>
+            Type a question, or import a CSV or JSON file. CSV files need a <code>question</code> column and may have <code>jobRole</code>, <code>interviewType</code> and <code>difficulty</code> columns.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Textarea
+            value={newQuestion.question}
+            onChange={e => setNewQuestion(prev => ({ ...prev, question: e.target.value }))}
+            placeholder="e.g., Tell me about a time you disagreed with your manager."
+            maxLength={MAX_BANK_QUESTION_LENGTH}
+            className="min-h-[80px]"
+          />
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <Input
+              value={newQuestion.jobRole ?? ''}
+              onChange={e => setNewQuestion(prev => ({ ...prev, jobRole: e.target.value }))}
+              placeholder="Job role (optional)"
+              maxLength={50}
+            />
+            <Select
+              value={newQuestion.interviewType ?? ANY}
+              onValueChange={value => setNewQuestion(prev => ({ ...prev, interviewType: value === ANY ? undefined : value as BankQuestion['interviewType'] }))}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>No interview type</SelectItem>
+                {interviewTypes.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select
+              value={newQuestion.difficultyLevel ?? ANY}
+              onValueChange={value => setNewQuestion(prev => ({ ...prev, difficultyLevel: value === ANY ? undefined : value as BankQuestion['difficultyLevel'] }))}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>No difficulty</SelectItem>
+                {difficultyLevels.map(level => <SelectItem key={level} value={level}>{level}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          {importErrors.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTitle>Some rows were skipped</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-5 text-xs space-y-0.5">
+                  {importErrors.slice(0, 10).map((message, index) => <li key={index}>{message}</li>)}
+                </ul>
+                {importErrors.length > 10 && <p className="text-xs mt-1">And {importErrors.length - 10} more.</p>}
+              </AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-end gap-2">
+          <input ref={fileInputRef} type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={handleImport} />
+          <Button type="button" variant="outline" className="gap-1" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+            {isImporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileUp size={16} />} Import CSV/JSON
+          </Button>
+          <Button type="button" className="gap-1" onClick={handleAdd} disabled={isAdding}>
+            {isAdding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus size={16} />} Add Question
+          </Button>
+        </CardFooter>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-xl flex items-center gap-2"><BookMarked size={20} /> Your Questions</CardTitle>
+          <CardDescription>Select questions in the order you want to be asked them, then start a practice interview.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2">
+            <Input value={filters.search ?? ''} onChange={e => updateFilters({ search: e.target.value })} placeholder="Search questions..." />
+            <Input value={filters.jobRole ?? ''} onChange={e => updateFilters({ jobRole: e.target.value })} placeholder="Job role" />
+            <Select
+              value={filters.interviewType ?? ANY}
+              onValueChange={value => updateFilters({ interviewType: value === ANY ? undefined : value as QuestionBankFilters['interviewType'] })}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any type</SelectItem>
+                {interviewTypes.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.difficultyLevel ?? ANY}
+              onValueChange={value => updateFilters({ difficultyLevel: value === ANY ? undefined : value as QuestionBankFilters['difficultyLevel'] })}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any difficulty</SelectItem>
+                {difficultyLevels.map(level => <SelectItem key={level} value={level}>{level}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="starred-only" checked={!!filters.starredOnly} onCheckedChange={checked => updateFilters({ starredOnly: checked })} />
+            <Label htmlFor="starred-only">Starred only</Label>
+          </div>
+
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-16 w-full" />
+              <Skeleton className="h-16 w-full" />
+              <Skeleton className="h-16 w-full" />
+            </div>
+          ) : error ? (
+            <p className="text-destructive text-sm">Could not load your question bank. Please refresh the page.</p>
+          ) : visibleQuestions.length === 0 ? (
+            <p className="text-muted-foreground text-sm text-center py-6">
+              {questions.length === 0 ? 'Your bank is empty. Save questions during an interview, or add and import them above.' : 'No questions match these filters.'}
+            </p>
+          ) : (
+            <QuestionBankList
+              questions={visibleQuestions}
+              selectedIds={selectedIds}
+              onToggleSelected={toggleSelected}
+              onToggleStarred={handleToggleStarred}
+              onDelete={handleDelete}
+            />
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-between items-center gap-2">
+          <span className="text-sm text-muted-foreground">{selectedIds.length} selected</span>
+          <div className="flex gap-2">
+            {selectedIds.length > 0 && (
+              <Button type="button" variant="ghost" onClick={() => setSelectedIds([])}>Clear</Button>
+            )}
+            {selectedIds.length > 0 ? (
+              <Button asChild className="gap-1">
+                <Link href={`/interview?questions=${selectedIds.join(',')}`}><PlayCircle size={16} /> Practice Selected</Link>
+              </Button>
+            ) : (
+              <Button disabled className="gap-1"><PlayCircle size={16} /> Practice Selected</Button>
+            )}
+          </div>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Loader2, PlayCircle } from 'lucide-react';
+import { useSupabase } from '@/contexts/supabase-auth-context';
+import { useToast } from '@/hooks/use-toast';
+import { getRecordingUrl } from '@/lib/supabase/recordings';
+import SyncedTranscriptPlayer from '@/components/app/synced-transcript-player';
+import type { TranscriptTimings } from '@/lib/transcript-timing';
+
+type RecordingPlayerProps = {
+  recordingPath: string;
+  transcript?: string;
+  timings?: TranscriptTimings; // Shows the transcript in sync with playback
+};
+
+// Plays a saved recording. The signed URL is only requested when the user asks for it.
+export default function RecordingPlayer({ recordingPath, transcript = '', timings }: RecordingPlayerProps) {
+  const { supabase } = useSupabase();
+  const { toast } = useToast();
+  const [signedUrl, setSignedUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleLoad = async () => {
+    setIsLoading(true);
+    try {
+      setSignedUrl(await getRecordingUrl(supabase, recordingPath));
+    } catch (error) {
+      console.error('Error loading recording:', error);
+      toast({ variant: 'destructive', title: 'Playback Failed', description: 'Could not load this recording.' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (signedUrl && timings) {
+    return <SyncedTranscriptPlayer src={signedUrl} transcript={transcript} timings={timings} autoPlay />;
+  }
+  if (signedUrl) {
+    return <video src={signedUrl} controls autoPlay className="w-full rounded-md shadow-md aspect-video bg-black"></video>;
+  }
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleLoad} disabled={isLoading} className="gap-1">
+      {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <PlayCircle size={16} />}
+      Play Recording
+    </Button>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { HardDrive, Loader2, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { RetentionPolicy, RetentionReport } from '@/lib/recording-retention';
+
+type StorageUsage = {
+  usedBytes: number;
+  quotaBytes: number;
+  recordingCount: number;
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+// Blank inputs mean "no limit".
+const parseLimit = (value: string): number | null => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+export default function RecordingStorageSettings() {
+  const { toast } = useToast();
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [report, setReport] = useState<RetentionReport | null>(null);
+  const [keepLastN, setKeepLastN] = useState('');
+  const [maxAgeDays, setMaxAgeDays] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [usageResponse, retentionResponse] = await Promise.all([
+        fetch('/api/recordings/quota'),
+        fetch('/api/recordings/retention'),
+      ]);
+      if (!usageResponse.ok || !retentionResponse.ok) throw new Error('Failed to load storage settings.');
+
+      const retention: { policy: RetentionPolicy; report: RetentionReport } = await retentionResponse.json();
+      setUsage(await usageResponse.json());
+      setReport(retention.report);
+      setKeepLastN(retention.policy.keepLastN?.toString() ?? '');
+      setMaxAgeDays(retention.policy.maxAgeDays?.toString() ?? '');
+    } catch (error) {
+      console.error('Error loading storage settings:', error);
+      toast({ variant: 'destructive', title: 'Error', description: 'Could not load your storage settings.' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/recordings/retention', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ keepLastN: parseLimit(keepLastN), maxAgeDays: parseLimit(maxAgeDays) }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setReport(data.report);
+      toast({ title: 'Policy Saved', description: 'Review the dry run below before applying it.' });
+    } catch (error) {
+      console.error('Error saving retention policy:', error);
+      toast({ variant: 'destructive', title: 'Save Failed', description: error instanceof Error ? error.message : 'Could not save your policy.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      const response = await fetch('/api/recordings/retention', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun: false }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      toast({ title: 'Recordings Deleted', description: `Freed ${formatBytes(data.report.freedBytes)}.` });
+      await load();
+    } catch (error) {
+      console.error('Error applying retention policy:', error);
+      toast({ variant: 'destructive', title: 'Cleanup Failed', description: error instanceof Error ? error.message : 'Could not apply your policy.' });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  const usedPercent = usage && usage.quotaBytes > 0 ? Math.min(100, (usage.usedBytes / usage.quotaBytes) * 100) : 0;
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><HardDrive className="h-5 w-5 text-primary" />Recording Storage</CardTitle>
+          <CardDescription>
+            {usage ? `${usage.recordingCount} recording${usage.recordingCount === 1 ? '' : 's'} saved.` : 'Storage usage is unavailable.'}
+          </CardDescription>
+        </CardHeader>
+        {usage && (
+          <CardContent className="space-y-2">
+            <Progress value={usedPercent} className="h-2" />
+            <p className="text-sm text-muted-foreground">
+              {formatBytes(usage.usedBytes)} of {formatBytes(usage.quotaBytes)} used
+            </p>
+          </CardContent>
+        )}
+      </Card>
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>Auto-Delete Policy</CardTitle>
+          <CardDescription>Older recordings are removed after each new upload. Leave a field blank for no limit.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="keep-last-n">Keep only the last N recordings</Label>
+              <Input id="keep-last-n" type="number" min={1} placeholder="No limit" value={keepLastN} onChange={(e) => setKeepLastN(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="max-age-days">Delete recordings older than (days)</Label>
+              <Input id="max-age-days" type="number" min={1} placeholder="No limit" value={maxAgeDays} onChange={(e) => setMaxAgeDays(e.target.value)} />
+            </div>
+          </div>
+
+          {report && (
+            <div className="rounded-md border p-3 space-y-2">
+              <h4 className="font-semibold text-sm">Dry Run</h4>
+              {report.recordings.length === 0 ? (
+                <p className="text-sm text-muted-foreground">The saved policy would not delete any recordings.</p>
+              ) : (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    The saved policy would delete {report.recordings.length} recording{report.recordings.length === 1 ? '' : 's'} and free {formatBytes(report.freedBytes)}.
+                  </p>
+                  <ul className="text-xs text-muted-foreground max-h-40 overflow-y-auto space-y-1">
+                    {report.recordings.map(recording => (
+                      <li key={recording.path} className="flex justify-between gap-2">
+                        <span>{new Date(recording.createdAt).toLocaleString()}</span>
+                        <span>{formatBytes(recording.sizeBytes)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-end gap-2">
+          <Button variant="outline" onClick={handleSave} disabled={isSaving || isApplying}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save & Preview
+          </Button>
+          <Button variant="destructive" onClick={handleApply} disabled={isSaving || isApplying || !report || report.recordings.length === 0}>
+            {isApplying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+            Apply Now
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
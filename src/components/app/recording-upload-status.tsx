@@ -0,0 +1,55 @@
+'use client';
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Progress } from '@/components/ui/progress';
+import Link from 'next/link';
+import { AlertCircle, CheckCircle, CloudUpload, Info } from 'lucide-react';
+import type { RecordingUploadState } from '@/lib/types';
+
+type RecordingUploadStatusProps = {
+  uploadState: RecordingUploadState;
+};
+
+export default function RecordingUploadStatus({ uploadState }: RecordingUploadStatusProps) {
+  if (uploadState.status === 'uploading') {
+    return (
+      <Alert variant="default" className="mt-3">
+        <CloudUpload className="h-4 w-4" />
+        <AlertTitle>Saving Your Video... {uploadState.progress}%</AlertTitle>
+        <AlertDescription>
+          <Progress value={uploadState.progress} className="h-2 mt-2" />
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (uploadState.status === 'saved') {
+    return (
+      <Alert variant="default" className="mt-3 bg-green-50 border-green-200 text-green-800">
+        <CheckCircle className="h-4 w-4 !text-green-800" />
+        <AlertTitle>Video Saved</AlertTitle>
+        <AlertDescription>You can replay this recording from your progress history.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (uploadState.status === 'blocked') {
+    return (
+      <Alert variant="destructive" className="mt-3">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>Storage Quota Reached</AlertTitle>
+        <AlertDescription>
+          This video was not saved. Download it now, or free up space in <Link href="/settings" className="underline">Settings</Link>.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert variant="default" className="mt-3 bg-blue-50 border-blue-200 text-blue-800">
+      <Info className="h-4 w-4 !text-blue-800" />
+      <AlertTitle>Video is Temporary</AlertTitle>
+      <AlertDescription>This video is not saved permanently. Download it now if you wish to keep a copy.</AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { FileText, Loader2, Trash2, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { MAX_RESUME_BYTES, RESUME_ACCEPT, type ResumeProfile } from '@/lib/resume-profile';
+import type { SavedResumeProfile } from '@/lib/supabase/resume-profiles';
+
+type ResumeUploadProps = {
+  // Called with the profile questions should use, or null when none should be used.
+  onChange: (profile: ResumeProfile | null) => void;
+};
+
+const MAX_SKILLS_SHOWN = 8;
+
+export default function ResumeUpload({ onChange }: ResumeUploadProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [resume, setResume] = useState<SavedResumeProfile | null>(null);
+  const [useForQuestions, setUseForQuestions] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isRemoving, setIsRemoving] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/resume');
+        if (!response.ok) throw new Error('Failed to load resume profile.');
+        const data: { resume: SavedResumeProfile | null } = await response.json();
+        setResume(data.resume);
+      } catch (error) {
+        console.error('Error loading resume profile:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  useEffect(() => {
+    onChange(resume && useForQuestions ? resume.profile : null);
+  }, [resume, useForQuestions, onChange]);
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (file.size > MAX_RESUME_BYTES) {
+      toast({ variant: 'destructive', title: 'File Too Large', description: 'Resumes must be 5MB or smaller.' });
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('resume', file);
+      const response = await fetch('/api/resume', { method: 'POST', body: formData });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setResume(data.resume);
+      setUseForQuestions(true);
+      toast({ title: 'Resume Analyzed', description: 'Questions will now draw on your experience.' });
+    } catch (error) {
+      console.error('Error uploading resume:', error);
+      toast({ variant: 'destructive', title: 'Upload Failed', description: error instanceof Error ? error.message : 'Could not read your resume.' });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setIsRemoving(true);
+    try {
+      const response = await fetch('/api/resume', { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setResume(null);
+      toast({ title: 'Resume Removed' });
+    } catch (error) {
+      console.error('Error removing resume:', error);
+      toast({ variant: 'destructive', title: 'Error', description: error instanceof Error ? error.message : 'Could not remove your resume.' });
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-20 w-full" />;
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <input ref={inputRef} type="file" accept={RESUME_ACCEPT} className="hidden" onChange={handleFileSelected} />
+      <div className="flex items-center justify-between gap-2">
+        <Label className="flex items-center gap-2 text-lg"><FileText size={20} />Resume</Label>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => inputRef.current?.click()} disabled={isUploading || isRemoving}>
+            {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+            {resume ? 'Replace' : 'Upload'}
+          </Button>
+          {resume && (
+            <Button type="button" variant="ghost" size="sm" onClick={handleRemove} disabled={isUploading || isRemoving} aria-label="Remove resume">
+              {isRemoving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isUploading ? (
+        <p className="text-sm text-muted-foreground">Reading your resume, this can take a few seconds...</p>
+      ) : resume ? (
+        <>
+          <p className="text-xs text-muted-foreground truncate">{resume.fileName ?? 'Uploaded resume'}</p>
+          {resume.profile.experience.length > 0 && (
+            <ul className="text-sm space-y-1">
+              {resume.profile.experience.slice(0, 3).map((role, index) => (
+                <li key={index}>
+                  <span className="font-medium">{role.title}</span> at {role.company}
+                  {role.period && <span className="text-muted-foreground"> ({role.period})</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+          {resume.profile.skills.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {resume.profile.skills.slice(0, MAX_SKILLS_SHOWN).map((skill) => (
+                <Badge key={skill} variant="secondary">{skill}</Badge>
+              ))}
+              {resume.profile.skills.length > MAX_SKILLS_SHOWN && (
+                <Badge variant="outline">+{resume.profile.skills.length - MAX_SKILLS_SHOWN} more</Badge>
+              )}
+            </div>
+          )}
+          <div className="flex items-center gap-2 pt-1">
+            <Switch id="use-resume" checked={useForQuestions} onCheckedChange={setUseForQuestions} />
+            <Label htmlFor="use-resume" className="text-sm">Tailor questions to my resume</Label>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Upload a PDF, DOCX or text resume to get questions about your own experience and projects.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import { Progress } from '@/components/ui/progress';
+import type { RubricScore } from '@/lib/rubrics';
+
+type RubricBreakdownProps = {
+  rubric: RubricScore[];
+};
+
+// Per-criterion scores behind an answer's overall score, with each criterion's share of the weight.
+export default function RubricBreakdown({ rubric }: RubricBreakdownProps) {
+  const totalWeight = rubric.reduce((sum, item) => sum + item.weight, 0);
+
+  return (
+    <ul className="space-y-3">
+      {rubric.map(item => (
+        <li key={item.criterionId} className="space-y-1">
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span className="font-medium">
+              {item.name}
+              <span className="ml-1 text-xs font-normal text-muted-foreground">
+                ({totalWeight > 0 ? Math.round((item.weight / totalWeight) * 100) : 0}% weight)
+              </span>
+            </span>
+            <span className="text-muted-foreground">{Math.round(item.score)}/100</span>
+          </div>
+          <Progress value={item.score} className="h-2" />
+          <p className="text-xs text-muted-foreground">{item.justification}</p>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,176 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  MAX_RUBRIC_CRITERIA,
+  assignCriterionIds,
+  rubricScoreLevels,
+  validateRubricDraft,
+  type RubricCriterion,
+  type RubricDraft,
+} from '@/lib/rubrics';
+
+type RubricEditorProps = {
+  initial: RubricDraft;
+  title: string;
+  onSave: (draft: RubricDraft) => Promise<void>;
+  onCancel: () => void;
+};
+
+const blankCriterion = (): RubricCriterion => ({ id: '', name: '', description: '', weight: 1, anchors: [] });
+
+// Edits a rubric's name, description and weighted criteria, with an optional example answer per score level.
+export default function RubricEditor({ initial, title, onSave, onCancel }: RubricEditorProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState(initial.name);
+  const [description, setDescription] = useState(initial.description);
+  const [criteria, setCriteria] = useState<RubricCriterion[]>(initial.criteria.length > 0 ? initial.criteria : [blankCriterion()]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const totalWeight = criteria.reduce((sum, criterion) => sum + (criterion.weight > 0 ? criterion.weight : 0), 0);
+
+  const updateCriterion = (index: number, changes: Partial<RubricCriterion>) => {
+    setCriteria(prev => prev.map((criterion, i) => (i === index ? { ...criterion, ...changes } : criterion)));
+  };
+
+  const anchorFor = (criterion: RubricCriterion, score: number) =>
+    criterion.anchors?.find(anchor => anchor.score === score)?.description ?? '';
+
+  const setAnchor = (index: number, score: number, text: string) => {
+    const anchors = (criteria[index].anchors ?? []).filter(anchor => anchor.score !== score);
+    if (text) anchors.push({ score, description: text });
+    anchors.sort((a, b) => b.score - a.score);
+    updateCriterion(index, { anchors });
+  };
+
+  const handleSave = async () => {
+    const draft: RubricDraft = {
+      name: name.trim(),
+      description: description.trim(),
+      criteria: assignCriterionIds(criteria.map(criterion => ({
+        ...criterion,
+        name: criterion.name.trim(),
+        description: criterion.description.trim(),
+        anchors: criterion.anchors
+          ?.map(anchor => ({ ...anchor, description: anchor.description.trim() }))
+          .filter(anchor => anchor.description),
+      }))),
+    };
+    const problem = validateRubricDraft(draft);
+    if (problem) {
+      toast({ variant: 'destructive', title: 'Check Your Rubric', description: problem });
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="text-2xl text-primary">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="rubric-name">Name</Label>
+          <Input id="rubric-name" value={name} onChange={e => setName(e.target.value)} placeholder="e.g., Senior PM Behavioral Rubric" maxLength={80} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rubric-description">Description (optional)</Label>
+          <Textarea id="rubric-description" value={description} onChange={e => setDescription(e.target.value)} placeholder="Who this rubric is for and when to use it." className="min-h-[60px]" />
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold">Criteria</h3>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => setCriteria(prev => [...prev, blankCriterion()])}
+              disabled={criteria.length >= MAX_RUBRIC_CRITERIA}
+            >
+              <Plus size={16} /> Add Criterion
+            </Button>
+          </div>
+          {criteria.map((criterion, index) => (
+            <div key={index} className="rounded-md border p-4 space-y-3">
+              <div className="flex items-end gap-3">
+                <div className="flex-1 space-y-1">
+                  <Label htmlFor={`criterion-name-${index}`}>Criterion</Label>
+                  <Input id={`criterion-name-${index}`} value={criterion.name} onChange={e => updateCriterion(index, { name: e.target.value })} placeholder="e.g., Stakeholder Management" maxLength={60} />
+                </div>
+                <div className="w-28 space-y-1">
+                  <Label htmlFor={`criterion-weight-${index}`}>Weight</Label>
+                  <Input
+                    id={`criterion-weight-${index}`}
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={Number.isFinite(criterion.weight) ? criterion.weight : ''}
+                    onChange={e => updateCriterion(index, { weight: parseFloat(e.target.value) })}
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setCriteria(prev => prev.filter((_, i) => i !== index))}
+                  disabled={criteria.length === 1}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Remove criterion</span>
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {totalWeight > 0 && criterion.weight > 0 ? `${Math.round((criterion.weight / totalWeight) * 100)}% of the overall score` : 'Set a weight above zero.'}
+              </p>
+              <div className="space-y-1">
+                <Label htmlFor={`criterion-description-${index}`}>What it measures</Label>
+                <Textarea id={`criterion-description-${index}`} value={criterion.description} onChange={e => updateCriterion(index, { description: e.target.value })} className="min-h-[60px]" />
+              </div>
+              <Accordion type="single" collapsible>
+                <AccordionItem value="anchors" className="border-b-0">
+                  <AccordionTrigger className="py-2 text-sm">Score level examples (optional)</AccordionTrigger>
+                  <AccordionContent className="space-y-2">
+                    {rubricScoreLevels.map(level => (
+                      <div key={level.score} className="space-y-1">
+                        <Label htmlFor={`criterion-${index}-anchor-${level.score}`} className="text-xs">{level.label} ({level.score})</Label>
+                        <Textarea
+                          id={`criterion-${index}-anchor-${level.score}`}
+                          value={anchorFor(criterion, level.score)}
+                          onChange={e => setAnchor(index, level.score, e.target.value)}
+                          placeholder={`What a ${level.label.toLowerCase()} answer looks like for this criterion.`}
+                          className="min-h-[50px] text-sm"
+                        />
+                      </div>
+                    ))}
+                  </AccordionContent>
+                </AccordionItem>
+              </Accordion>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+      <CardFooter className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>Cancel</Button>
+        <Button type="button" onClick={handleSave} disabled={isSaving} className="gap-1">
+          {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save size={16} />} Save Rubric
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
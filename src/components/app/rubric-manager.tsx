@@ -0,0 +1,216 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Copy, Pencil, Plus, Scale, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import RubricEditor from '@/components/app/rubric-editor';
+import useRubrics from '@/hooks/use-rubrics';
+import { useSupabase } from '@/contexts/supabase-auth-context';
+import { useToast } from '@/hooks/use-toast';
+import { createRubric, deleteRubric, setRubricShared, updateRubric } from '@/lib/supabase/rubrics';
+import { interviewRubrics, type Rubric, type RubricDraft } from '@/lib/rubrics';
+import { interviewTypes, type InterviewType } from '@/lib/types';
+
+type EditorState = {
+  rubricId?: string; // Unset for a new rubric
+  draft: RubricDraft;
+};
+
+const copyBuiltInRubric = (type: InterviewType): RubricDraft => ({
+  name: `${type} (copy)`,
+  description: `Based on the built-in ${type} rubric.`,
+  criteria: interviewRubrics[type].map(criterion => ({ ...criterion, anchors: [] })),
+});
+
+// Lists the user's custom rubrics and the shared ones, and opens the editor to create,
+// change or delete the user's own. Shared rubrics from others can only be copied.
+export default function RubricManager() {
+  const { supabase, user } = useSupabase();
+  const { toast } = useToast();
+  const { rubrics, isLoading, error, refresh } = useRubrics();
+  const [editor, setEditor] = useState<EditorState | null>(null);
+
+  const handleSave = async (draft: RubricDraft) => {
+    if (!user || !editor) return;
+    try {
+      if (editor.rubricId) {
+        await updateRubric(supabase, user.id, editor.rubricId, draft);
+      } else {
+        await createRubric(supabase, user.id, draft);
+      }
+      toast({ title: 'Rubric Saved', description: `"${draft.name}" can now be picked when you set up an interview.` });
+      setEditor(null);
+      await refresh();
+    } catch (saveError) {
+      console.error('Error saving rubric:', saveError);
+      toast({ variant: 'destructive', title: 'Save Failed', description: 'Your rubric could not be saved.' });
+    }
+  };
+
+  const handleShare = async (rubric: Rubric, shared: boolean) => {
+    if (!user) return;
+    try {
+      await setRubricShared(supabase, user.id, rubric.id, shared);
+      toast({
+        title: shared ? 'Rubric Shared' : 'Rubric Private',
+        description: shared ? `Everyone can now pick "${rubric.name}" for their interviews.` : `Only you can pick "${rubric.name}" now.`,
+      });
+      await refresh();
+    } catch (shareError) {
+      console.error('Error sharing rubric:', shareError);
+      toast({ variant: 'destructive', title: 'Update Failed', description: 'The rubric\'s sharing could not be changed.' });
+    }
+  };
+
+  const handleDelete = async (rubric: Rubric) => {
+    if (!user) return;
+    try {
+      await deleteRubric(supabase, user.id, rubric.id);
+      toast({ title: 'Rubric Deleted', description: `"${rubric.name}" was removed. Past evaluations keep their scores.` });
+      await refresh();
+    } catch (deleteError) {
+      console.error('Error deleting rubric:', deleteError);
+      toast({ variant: 'destructive', title: 'Delete Failed', description: 'The rubric could not be deleted.' });
+    }
+  };
+
+  if (editor) {
+    return (
+      <RubricEditor
+        initial={editor.draft}
+        title={editor.rubricId ? 'Edit Rubric' : 'New Rubric'}
+        onSave={handleSave}
+        onCancel={() => setEditor(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button className="gap-1"><Plus size={16} /> New Rubric</Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => setEditor({ draft: { name: '', description: '', criteria: [] } })}>Start from scratch</DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs text-muted-foreground">Copy a built-in rubric</DropdownMenuLabel>
+            {interviewTypes.map(type => (
+              <DropdownMenuItem key={type} onClick={() => setEditor({ draft: copyBuiltInRubric(type) })}>{type}</DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          <Skeleton className="h-28 w-full" />
+          <Skeleton className="h-28 w-full" />
+        </div>
+      ) : error ? (
+        <p className="text-destructive text-sm">Could not load your rubrics. Please refresh the page.</p>
+      ) : rubrics.length === 0 ? (
+        <Card>
+          <CardContent className="py-10 text-center text-muted-foreground space-y-2">
+            <Scale className="mx-auto h-10 w-10" />
+            <p>You have no custom rubrics yet, and none have been shared with you. Answers are graded with the built-in rubric for each interview type.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        rubrics.map(rubric => {
+          const totalWeight = rubric.criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+          const isOwn = rubric.ownerId === user?.id;
+          return (
+            <Card key={rubric.id}>
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <CardTitle className="text-xl flex items-center gap-2">
+                      {rubric.name}
+                      {rubric.shared && <Badge variant="outline">{isOwn ? 'Shared' : 'Shared with you'}</Badge>}
+                    </CardTitle>
+                    <CardDescription>
+                      {rubric.description || 'No description.'} Edited {formatDistanceToNow(new Date(rubric.updatedAt), { addSuffix: true })}.
+                    </CardDescription>
+                  </div>
+                  {isOwn ? (
+                    <div className="flex items-center gap-1 shrink-0">
+                      <div className="flex items-center gap-2 mr-2">
+                        <Switch id={`share-${rubric.id}`} checked={rubric.shared} onCheckedChange={shared => handleShare(rubric, shared)} />
+                        <Label htmlFor={`share-${rubric.id}`} className="text-sm font-normal">Share</Label>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setEditor({ rubricId: rubric.id, draft: { name: rubric.name, description: rubric.description, criteria: rubric.criteria } })}
+                      >
+                        <Pencil className="h-4 w-4" />
+                        <span className="sr-only">Edit rubric</span>
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon">
+                            <Trash2 className="h-4 w-4" />
+                            <span className="sr-only">Delete rubric</span>
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete &ldquo;{rubric.name}&rdquo;?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              The rubric can no longer be picked for new interviews. Answers already graded with it keep their scores.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(rubric)}>Delete</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="shrink-0"
+                      onClick={() => setEditor({ draft: { name: `${rubric.name} (copy)`, description: rubric.description, criteria: rubric.criteria } })}
+                    >
+                      <Copy className="h-4 w-4" />
+                      <span className="sr-only">Copy rubric</span>
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="flex flex-wrap gap-2">
+                {rubric.criteria.map(criterion => (
+                  <Badge key={criterion.id} variant="secondary">
+                    {criterion.name} &middot; {totalWeight > 0 ? Math.round((criterion.weight / totalWeight) * 100) : 0}%
+                  </Badge>
+                ))}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
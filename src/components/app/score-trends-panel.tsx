@@ -0,0 +1,156 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Award, LineChart as LineChartIcon, TrendingDown } from 'lucide-react';
+import useInterviewAttempts from '@/hooks/use-interview-attempts';
+import usePresentationAttempts from '@/hooks/use-presentation-attempts';
+import { interviewTypes } from '@/lib/types';
+import {
+  buildInterviewTrend,
+  buildPresentationTrend,
+  findScoreExtremes,
+  overallPresentationScore,
+  presentationScoreKeys,
+  ROLLING_WINDOW,
+} from '@/lib/score-trends';
+
+// Only the most recent presentation attempts are plotted.
+const PRESENTATION_TREND_LIMIT = 100;
+
+const interviewChartConfig = {
+  Technical: { label: 'Technical', color: 'hsl(var(--chart-1))' },
+  Behavioral: { label: 'Behavioral', color: 'hsl(var(--chart-2))' },
+  Situational: { label: 'Situational', color: 'hsl(var(--chart-3))' },
+  'General HR': { label: 'General HR', color: 'hsl(var(--chart-4))' },
+} satisfies ChartConfig;
+
+const presentationChartConfig = {
+  structureScore: { label: 'Structure', color: 'hsl(var(--chart-1))' },
+  clarityScore: { label: 'Clarity', color: 'hsl(var(--chart-2))' },
+  engagementScore: { label: 'Engagement', color: 'hsl(var(--chart-3))' },
+  timeManagementScore: { label: 'Time', color: 'hsl(var(--chart-4))' },
+  fillerWordsScore: { label: 'Filler Words', color: 'hsl(var(--chart-5))' },
+} satisfies ChartConfig;
+
+const formatTick = (timestamp: number) => format(new Date(timestamp), 'MMM d');
+
+type ExtremeCalloutProps = {
+  best: { label: string; score: number; timestamp: number };
+  worst: { label: string; score: number; timestamp: number };
+};
+
+function ExtremeCallout({ best, worst }: ExtremeCalloutProps) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-4">
+      <div className="bg-green-50 p-3 rounded border border-green-200">
+        <h4 className="font-medium text-green-700 flex items-center gap-1"><Award size={16} />Best: {best.score}</h4>
+        <p className="text-sm text-green-600 truncate">{best.label}</p>
+        <p className="text-xs text-green-600">{format(new Date(best.timestamp), 'PP')}</p>
+      </div>
+      <div className="bg-red-50 p-3 rounded border border-red-200">
+        <h4 className="font-medium text-red-700 flex items-center gap-1"><TrendingDown size={16} />Lowest: {worst.score}</h4>
+        <p className="text-sm text-red-600 truncate">{worst.label}</p>
+        <p className="text-xs text-red-600">{format(new Date(worst.timestamp), 'PP')}</p>
+      </div>
+    </div>
+  );
+}
+
+export default function ScoreTrendsPanel() {
+  const { attempts: interviewAttempts, isLoading: isLoadingInterviews } = useInterviewAttempts();
+  const { attempts: presentationAttempts, isLoading: isLoadingPresentations } = usePresentationAttempts(PRESENTATION_TREND_LIMIT);
+  const [smooth, setSmooth] = useState(false);
+
+  const interviewTrend = useMemo(() => buildInterviewTrend(interviewAttempts, smooth), [interviewAttempts, smooth]);
+  const presentationTrend = useMemo(() => buildPresentationTrend(presentationAttempts, smooth), [presentationAttempts, smooth]);
+  const interviewExtremes = useMemo(() => findScoreExtremes(interviewAttempts, attempt => attempt.evaluation.score), [interviewAttempts]);
+  const presentationExtremes = useMemo(() => findScoreExtremes(presentationAttempts, overallPresentationScore), [presentationAttempts]);
+
+  if (isLoadingInterviews || isLoadingPresentations) {
+    return <Skeleton className="h-80 w-full max-w-4xl mt-12" />;
+  }
+
+  if (interviewAttempts.length === 0 && presentationAttempts.length === 0) {
+    return null;
+  }
+
+  const practicedTypes = interviewTypes.filter(type => interviewTrend.some(point => point[type] !== undefined));
+
+  return (
+    <div className="w-full max-w-4xl mt-12 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold tracking-tight flex items-center gap-2"><LineChartIcon className="text-primary" />Your Score Trends</h2>
+        <div className="flex items-center gap-2">
+          <Switch id="smooth-trends" checked={smooth} onCheckedChange={setSmooth} />
+          <Label htmlFor="smooth-trends" className="text-sm">Rolling average (last {ROLLING_WINDOW})</Label>
+        </div>
+      </div>
+
+      {interviewAttempts.length > 0 && (
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle>Interview Scores</CardTitle>
+            <CardDescription>Answer scores over time, by interview type.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={interviewChartConfig} className="h-[280px] w-full aspect-auto">
+              <LineChart data={interviewTrend} margin={{ left: -16, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="timestamp" tickFormatter={formatTick} tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis domain={[0, 100]} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => format(new Date(payload[0]?.payload.timestamp), 'PPp')} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {practicedTypes.map(type => (
+                  // "General HR" has a space, so it can't be used as a --color-* CSS variable.
+                  <Line key={type} dataKey={type} type="monotone" stroke={interviewChartConfig[type].color} strokeWidth={2} dot={{ r: 3 }} connectNulls />
+                ))}
+              </LineChart>
+            </ChartContainer>
+            {interviewExtremes && (
+              <ExtremeCallout
+                best={{ label: interviewExtremes.best.question, score: interviewExtremes.best.evaluation.score, timestamp: interviewExtremes.best.timestamp }}
+                worst={{ label: interviewExtremes.worst.question, score: interviewExtremes.worst.evaluation.score, timestamp: interviewExtremes.worst.timestamp }}
+              />
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {presentationAttempts.length > 0 && (
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle>Presentation Sub-Scores</CardTitle>
+            <CardDescription>Each presentation score over time.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={presentationChartConfig} className="h-[280px] w-full aspect-auto">
+              <LineChart data={presentationTrend} margin={{ left: -16, right: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="timestamp" tickFormatter={formatTick} tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis domain={[0, 100]} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => format(new Date(payload[0]?.payload.timestamp), 'PPp')} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {presentationScoreKeys.map(key => (
+                  <Line key={key} dataKey={key} type="monotone" stroke={`var(--color-${key})`} strokeWidth={2} dot={{ r: 3 }} />
+                ))}
+              </LineChart>
+            </ChartContainer>
+            {presentationExtremes && (
+              <ExtremeCallout
+                best={{ label: presentationExtremes.best.settings.topic, score: overallPresentationScore(presentationExtremes.best), timestamp: presentationExtremes.best.timestamp }}
+                worst={{ label: presentationExtremes.worst.settings.topic, score: overallPresentationScore(presentationExtremes.worst), timestamp: presentationExtremes.worst.timestamp }}
+              />
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
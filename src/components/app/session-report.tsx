@@ -0,0 +1,133 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { CheckCircle, AlertCircle, ClipboardCheck, ListOrdered, FileDown } from 'lucide-react';
+import { format } from 'date-fns';
+import CompetencyCoverage from '@/components/app/competency-coverage';
+import { buildCompetencyCoverage } from '@/lib/job-description';
+import { averageSessionScore } from '@/lib/session-report';
+import type { InterviewSession } from '@/lib/types';
+
+type SessionReportProps = {
+  session: InterviewSession;
+};
+
+// The end-of-session report: readiness, recurring patterns, the improvement plan and per-question scores.
+export default function SessionReport({ session }: SessionReportProps) {
+  const { report, settings, questions, jobAnalysis } = session;
+  const averageScore = averageSessionScore(questions);
+  const answeredCount = questions.filter(question => question.attemptId).length;
+
+  return (
+    <Card className="shadow-xl">
+      <CardHeader>
+        <div className="flex justify-between items-center gap-2">
+          <CardTitle className="text-2xl font-bold text-primary flex items-center gap-2">
+            <ClipboardCheck size={28} /> Session Report
+          </CardTitle>
+          {session.completedAt && (
+            <Button asChild variant="outline" size="sm" className="gap-1">
+              <a href={`/api/reports?type=session&id=${session.id}`} download><FileDown size={16} /> PDF</a>
+            </Button>
+          )}
+        </div>
+        <CardDescription>
+          {settings.interviewType} interview for {settings.jobRole} ({settings.difficultyLevel}), {format(new Date(session.timestamp), 'PPP')}.
+          {' '}{answeredCount} of {questions.length} question{questions.length === 1 ? '' : 's'} answered.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {report ? (
+          <>
+            <div className="space-y-2">
+              <div className="flex items-end justify-between">
+                <h3 className="text-lg font-semibold">Interview Readiness</h3>
+                <span className="text-3xl font-bold text-primary">{Math.round(report.readinessScore)}<span className="text-base text-muted-foreground">/100</span></span>
+              </div>
+              <Progress value={report.readinessScore} className="h-3" />
+              <p className="text-sm text-muted-foreground">{report.readinessSummary}</p>
+              {averageScore !== null && (
+                <p className="text-xs text-muted-foreground">Average answer score: {averageScore}/100</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="bg-green-50 p-3 rounded-md border border-green-200">
+                <h4 className="font-semibold flex items-center text-green-700 gap-1"><CheckCircle size={18} />Recurring Strengths</h4>
+                {report.recurringStrengths.length > 0 ? (
+                  <ul className="list-disc pl-5 text-sm text-green-700 space-y-1 mt-1">
+                    {report.recurringStrengths.map((item, index) => <li key={index}>{item}</li>)}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground mt-1">No pattern across answers yet.</p>
+                )}
+              </div>
+              <div className="bg-red-50 p-3 rounded-md border border-red-200">
+                <h4 className="font-semibold flex items-center text-red-700 gap-1"><AlertCircle size={18} />Recurring Weaknesses</h4>
+                {report.recurringWeaknesses.length > 0 ? (
+                  <ul className="list-disc pl-5 text-sm text-red-700 space-y-1 mt-1">
+                    {report.recurringWeaknesses.map((item, index) => <li key={index}>{item}</li>)}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground mt-1">No pattern across answers yet.</p>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold flex items-center gap-2"><ListOrdered size={20} />Improvement Plan</h3>
+              <ol className="mt-2 space-y-2">
+                {report.improvementPlan.map((step, index) => (
+                  <li key={index} className="flex gap-3">
+                    <Badge variant={index === 0 ? 'default' : 'secondary'} className="h-6 w-6 shrink-0 justify-center rounded-full p-0">{index + 1}</Badge>
+                    <div>
+                      <p className="font-medium">{step.focus}</p>
+                      <p className="text-sm text-muted-foreground">{step.action}</p>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">No report was generated for this session because no answers were evaluated.</p>
+        )}
+
+        {jobAnalysis && (
+          <CompetencyCoverage
+            jobTitle={jobAnalysis.jobTitle}
+            seniority={jobAnalysis.seniority}
+            coverage={buildCompetencyCoverage(jobAnalysis.competencies, questions)}
+          />
+        )}
+
+        <div>
+          <h3 className="text-lg font-semibold">Questions</h3>
+          <ul className="mt-2 divide-y">
+            {questions.map((question, index) => (
+              <li key={index} className="py-2 flex items-start justify-between gap-3">
+                <div className="space-y-1">
+                  <p className="text-sm">{question.question}</p>
+                  <div className="flex flex-wrap gap-1">
+                    {question.competency && <Badge variant="outline" className="text-xs">{question.competency}</Badge>}
+                    {question.communicationAnalysis && (
+                      <Badge variant="outline" className="text-xs">{question.communicationAnalysis.speakingPaceWPM} WPM</Badge>
+                    )}
+                  </div>
+                </div>
+                {question.score !== undefined ? (
+                  <Badge variant={question.score >= 70 ? 'default' : 'destructive'} className="shrink-0">{question.score}</Badge>
+                ) : (
+                  <Badge variant="secondary" className="shrink-0">Not answered</Badge>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { CheckCircle, AlertCircle, CircleDashed } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  splitTranscriptBySegments,
+  starComponentLabels,
+  starComponents,
+  type StarAnalysis,
+  type StarComponent,
+} from '@/lib/star-analysis';
+
+const HIGHLIGHT_CLASSES: Record<StarComponent, string> = {
+  situation: 'bg-sky-100 border-sky-300 text-sky-900',
+  task: 'bg-violet-100 border-violet-300 text-violet-900',
+  action: 'bg-amber-100 border-amber-300 text-amber-900',
+  result: 'bg-green-100 border-green-300 text-green-900',
+};
+
+type StarBreakdownProps = {
+  transcript: string;
+  analysis: StarAnalysis;
+};
+
+// The answer transcript with its Situation, Task, Action and Result spans color-coded,
+// followed by a rating for each part and the spans flagged as weak.
+export default function StarBreakdown({ transcript, analysis }: StarBreakdownProps) {
+  const pieces = splitTranscriptBySegments(transcript, analysis.segments);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {starComponents.map(component => (
+          <span key={component} className={`text-xs px-2 py-0.5 rounded border ${HIGHLIGHT_CLASSES[component]}`}>
+            {starComponentLabels[component]}
+          </span>
+        ))}
+      </div>
+      <p className="text-sm text-muted-foreground bg-muted p-3 rounded-md border whitespace-pre-wrap leading-relaxed">
+        {pieces.map((piece, index) => piece.component ? (
+          <mark key={index} title={starComponentLabels[piece.component]} className={`rounded px-0.5 border ${HIGHLIGHT_CLASSES[piece.component]}`}>
+            {piece.text}
+          </mark>
+        ) : (
+          <span key={index}>{piece.text}</span>
+        ))}
+      </p>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium">STAR Completeness</span>
+          <span className="text-muted-foreground">{analysis.completeness}/100</span>
+        </div>
+        <Progress value={analysis.completeness} className="h-2" />
+      </div>
+
+      <ul className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {starComponents.map(component => {
+          const rating = analysis.ratings.find(item => item.component === component);
+          const status = rating?.status ?? 'missing';
+          return (
+            <li key={component} className="p-3 rounded-md border space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium flex items-center gap-1">
+                  {status === 'strong' ? (
+                    <CheckCircle size={16} className="text-green-600 shrink-0" />
+                  ) : status === 'weak' ? (
+                    <AlertCircle size={16} className="text-amber-600 shrink-0" />
+                  ) : (
+                    <CircleDashed size={16} className="text-red-600 shrink-0" />
+                  )}
+                  {starComponentLabels[component]}
+                </span>
+                <Badge variant={status === 'strong' ? 'default' : status === 'weak' ? 'secondary' : 'destructive'} className="capitalize">{status}</Badge>
+              </div>
+              {rating && <p className="text-xs text-muted-foreground">{rating.feedback}</p>}
+            </li>
+          );
+        })}
+      </ul>
+
+      {analysis.issues.length > 0 && (
+        <ul className="space-y-2">
+          {analysis.issues.map((issue, index) => (
+            <li key={index} className="text-sm">
+              <mark className={`rounded px-0.5 border ${HIGHLIGHT_CLASSES[issue.component]}`}>&ldquo;{issue.quote}&rdquo;</mark>
+              <span className="text-muted-foreground"> &mdash; {issue.issue}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
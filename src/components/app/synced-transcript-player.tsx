@@ -0,0 +1,163 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { MouseEvent } from 'react';
+import { cn } from '@/lib/utils';
+import { findActiveIndex, findFillerWordIndexes, type TranscriptTimings } from '@/lib/transcript-timing';
+
+type SyncedTranscriptPlayerProps = {
+  src: string;
+  transcript: string;
+  timings: TranscriptTimings;
+  autoPlay?: boolean;
+};
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+// Plays a recording with its transcript, highlighting the word being spoken.
+// Clicking a word or a filler marker on the timeline seeks the video there.
+export default function SyncedTranscriptPlayer({ src, transcript, timings, autoPlay = false }: SyncedTranscriptPlayerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const transcriptRef = useRef<HTMLDivElement>(null);
+  const wordRefs = useRef<(HTMLSpanElement | null)[]>([]);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [videoDuration, setVideoDuration] = useState<number | null>(null);
+
+  const { words, segments } = timings;
+  const fillerIndexes = useMemo(() => findFillerWordIndexes(transcript, words), [transcript, words]);
+  const activeIndex = findActiveIndex(words, currentTime);
+
+  // Recordings from MediaRecorder often report an infinite duration, so the
+  // timeline falls back to the end of the last word.
+  const timelineLength = videoDuration ?? Math.max(words[words.length - 1]?.end ?? 0, segments[segments.length - 1]?.end ?? 0);
+
+  // Words grouped into the transcriber's segments, so the transcript reads in sentences.
+  const paragraphs = useMemo(() => {
+    if (segments.length === 0) return [{ start: words[0]?.start ?? 0, wordIndexes: words.map((_, index) => index) }];
+    const groups = segments.map(segment => ({ start: segment.start, wordIndexes: [] as number[] }));
+    words.forEach((word, index) => groups[Math.max(0, findActiveIndex(segments, word.start))].wordIndexes.push(index));
+    return groups.filter(group => group.wordIndexes.length > 0);
+  }, [words, segments]);
+
+  // Poll while playing; `timeupdate` alone fires too rarely for word-level highlighting.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    let frame = 0;
+    const tick = () => {
+      setCurrentTime(video.currentTime);
+      frame = requestAnimationFrame(tick);
+    };
+    const start = () => { frame = requestAnimationFrame(tick); };
+    const stop = () => {
+      cancelAnimationFrame(frame);
+      setCurrentTime(video.currentTime);
+    };
+    video.addEventListener('play', start);
+    video.addEventListener('pause', stop);
+    video.addEventListener('seeked', stop);
+    return () => {
+      cancelAnimationFrame(frame);
+      video.removeEventListener('play', start);
+      video.removeEventListener('pause', stop);
+      video.removeEventListener('seeked', stop);
+    };
+  }, []);
+
+  // Keep the active word in view without scrolling the page.
+  useEffect(() => {
+    const container = transcriptRef.current;
+    const word = wordRefs.current[activeIndex];
+    if (!container || !word) return;
+    const top = word.offsetTop; // The container is positioned, so this is relative to it
+    if (top < container.scrollTop || top + word.offsetHeight > container.scrollTop + container.clientHeight) {
+      container.scrollTo({ top: Math.max(0, top - container.clientHeight / 3), behavior: 'smooth' });
+    }
+  }, [activeIndex]);
+
+  const seek = (time: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = time;
+    setCurrentTime(time);
+    video.play().catch(() => { /* Autoplay can be blocked; the position is still set. */ });
+  };
+
+  const handleTimelineClick = (event: MouseEvent<HTMLDivElement>) => {
+    if (timelineLength <= 0) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    seek(((event.clientX - rect.left) / rect.width) * timelineLength);
+  };
+
+  const toPercent = (time: number) => (timelineLength > 0 ? Math.min(100, (time / timelineLength) * 100) : 0);
+
+  return (
+    <div className="space-y-3">
+      <video
+        ref={videoRef}
+        src={src}
+        controls
+        autoPlay={autoPlay}
+        className="w-full rounded-md shadow-md aspect-video bg-black"
+        onLoadedMetadata={event => {
+          const { duration } = event.currentTarget;
+          setVideoDuration(Number.isFinite(duration) ? duration : null);
+        }}
+      ></video>
+
+      <div>
+        <div className="relative h-3 w-full cursor-pointer rounded-full bg-muted" onClick={handleTimelineClick}>
+          <div className="absolute inset-y-0 left-0 rounded-full bg-primary/30" style={{ width: `${toPercent(currentTime)}%` }} />
+          {[...fillerIndexes].map(index => (
+            <button
+              key={index}
+              type="button"
+              title={`"${words[index].word}" at ${formatTime(words[index].start)}`}
+              className="absolute top-1/2 h-4 w-1.5 -translate-x-1/2 -translate-y-1/2 rounded-sm bg-amber-500 hover:bg-amber-600"
+              style={{ left: `${toPercent(words[index].start)}%` }}
+              onClick={event => {
+                event.stopPropagation();
+                seek(words[index].start);
+              }}
+            >
+              <span className="sr-only">Filler word {words[index].word} at {formatTime(words[index].start)}</span>
+            </button>
+          ))}
+        </div>
+        <div className="mt-1 flex justify-between text-xs text-muted-foreground">
+          <span>{formatTime(currentTime)}</span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-2.5 w-2.5 rounded-sm bg-amber-500" />
+            {fillerIndexes.size} filler word{fillerIndexes.size === 1 ? '' : 's'}
+          </span>
+          <span>{formatTime(timelineLength)}</span>
+        </div>
+      </div>
+
+      <div ref={transcriptRef} className="relative max-h-48 overflow-y-auto rounded-md border bg-muted p-3 text-sm leading-relaxed">
+        {paragraphs.map((paragraph, paragraphIndex) => (
+          <p key={paragraphIndex} className="mb-2 last:mb-0">
+            <button type="button" className="mr-2 font-mono text-xs text-muted-foreground hover:text-primary" onClick={() => seek(paragraph.start)}>
+              {formatTime(paragraph.start)}
+            </button>
+            {paragraph.wordIndexes.map(index => (
+              <span key={index}>
+                <span
+                  ref={element => { wordRefs.current[index] = element; }}
+                  onClick={() => seek(words[index].start)}
+                  className={cn(
+                    'cursor-pointer rounded px-0.5 transition-colors hover:bg-primary/10',
+                    fillerIndexes.has(index) && 'bg-amber-100 text-amber-900',
+                    index === activeIndex && 'bg-primary text-primary-foreground'
+                  )}
+                >
+                  {words[index].word}
+                </span>{' '}
+              </span>
+            ))}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+}
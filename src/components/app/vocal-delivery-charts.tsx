@@ -0,0 +1,84 @@
+'use client';
+
+import { useMemo } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceArea, XAxis, YAxis } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { MONOTONE_MIN_SECONDS, MONOTONE_SEMITONES, type ProsodyMetrics } from '@/lib/prosody-analysis';
+
+const pitchChartConfig = {
+  pitch: { label: 'Pitch (Hz)', color: 'hsl(var(--chart-1))' },
+} satisfies ChartConfig;
+
+const loudnessChartConfig = {
+  loudness: { label: 'Loudness (dB)', color: 'hsl(var(--chart-2))' },
+} satisfies ChartConfig;
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+type VocalDeliveryChartsProps = {
+  metrics: ProsodyMetrics;
+};
+
+// Pitch and loudness over the recording, with monotone stretches shaded on the pitch chart.
+export default function VocalDeliveryCharts({ metrics }: VocalDeliveryChartsProps) {
+  const pitchData = useMemo(() => metrics.pitch.map(point => ({ time: point.time, pitch: point.value })), [metrics.pitch]);
+  const loudnessData = useMemo(() => metrics.loudness.map(point => ({ time: point.time, loudness: point.value })), [metrics.loudness]);
+
+  if (metrics.medianPitchHz === null) {
+    return <p className="text-sm text-muted-foreground">No voiced speech was detected in the recording&apos;s audio.</p>;
+  }
+
+  const isFlat = metrics.pitchVariationSemitones !== null && metrics.pitchVariationSemitones < MONOTONE_SEMITONES;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="outline">Median pitch {metrics.medianPitchHz} Hz</Badge>
+        <Badge variant={isFlat ? 'destructive' : 'outline'} title={`Standard deviation ${metrics.pitchVariationSemitones} semitones; under ${MONOTONE_SEMITONES} sounds flat`}>
+          Pitch range {metrics.pitchRangeSemitones} semitones
+        </Badge>
+        <Badge variant="outline">Volume range {metrics.loudnessRangeDb} dB</Badge>
+        {metrics.monotoneSegments.length > 0 ? (
+          <Badge variant="destructive" title={`Stretches of ${MONOTONE_MIN_SECONDS}s or more with little pitch movement`}>
+            {Math.round(metrics.monotoneShare * 100)}% monotone
+          </Badge>
+        ) : (
+          <Badge variant="secondary">No monotone stretches</Badge>
+        )}
+      </div>
+
+      <div>
+        <p className="text-sm font-medium mb-1">Pitch</p>
+        <ChartContainer config={pitchChartConfig} className="h-[180px] w-full aspect-auto">
+          <LineChart data={pitchData} margin={{ left: -16, right: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} tickFormatter={formatTime} tickLine={false} axisLine={false} />
+            <YAxis domain={['auto', 'auto']} tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatTime(payload[0]?.payload.time ?? 0)} />} />
+            {metrics.monotoneSegments.map(segment => (
+              <ReferenceArea key={segment.start} x1={segment.start} x2={segment.end} fill="hsl(var(--destructive))" fillOpacity={0.1} />
+            ))}
+            <Line dataKey="pitch" stroke="var(--color-pitch)" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ChartContainer>
+        {metrics.monotoneSegments.length > 0 && (
+          <p className="text-xs text-muted-foreground">Shaded areas are monotone stretches.</p>
+        )}
+      </div>
+
+      <div>
+        <p className="text-sm font-medium mb-1">Loudness</p>
+        <ChartContainer config={loudnessChartConfig} className="h-[180px] w-full aspect-auto">
+          <LineChart data={loudnessData} margin={{ left: -16, right: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} tickFormatter={formatTime} tickLine={false} axisLine={false} />
+            <YAxis domain={['auto', 'auto']} tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatTime(payload[0]?.payload.time ?? 0)} />} />
+            <Line dataKey="loudness" stroke="var(--color-loudness)" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ChartContainer>
+      </div>
+    </div>
+  );
+}
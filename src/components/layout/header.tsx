@@ -1,11 +1,20 @@
 'use client';
 
-import { GraduationCap, LogOut } from 'lucide-react';
+import { AudioLines, BookMarked, GraduationCap, History, LogOut, Menu, Scale, Settings } from 'lucide-react';
 import Link from 'next/link';
 import { useSupabase } from '@/contexts/supabase-auth-context';
 import { Button } from '../ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '../ui/dropdown-menu';
 import { useRouter } from 'next/navigation';
 
+const navLinks = [
+  { href: '/history', label: 'History', icon: History },
+  { href: '/questions', label: 'Questions', icon: BookMarked },
+  { href: '/delivery-habits', label: 'Habits', icon: AudioLines },
+  { href: '/rubrics', label: 'Rubrics', icon: Scale },
+  { href: '/settings', label: 'Settings', icon: Settings },
+];
+
 export default function Header() {
   const { supabase, user } = useSupabase();
   const router = useRouter();
@@ -22,13 +31,49 @@ export default function Header() {
       <div className="container mx-auto px-4 py-4 flex items-center justify-between">
         <Link href={user ? '/dashboard' : '/'} className="flex items-center gap-2">
           <GraduationCap size={32} />
-          <h1 className="text-2xl font-bold tracking-tight">Career Confidence</h1>
+          <h1 className="text-xl sm:text-2xl font-bold tracking-tight">Career Confidence</h1>
         </Link>
         {user && (
-          <Button onClick={handleSignOut} variant="ghost" size="sm" className="hover:bg-primary/90">
-            <LogOut className="mr-2 h-4 w-4" />
-            Sign Out
-          </Button>
+          <>
+            <div className="hidden sm:flex items-center gap-2">
+              {navLinks.map(({ href, label, icon: Icon }) => (
+                <Button key={href} asChild variant="ghost" size="sm" className="hover:bg-primary/90">
+                  <Link href={href}>
+                    <Icon className="mr-2 h-4 w-4" />
+                    {label}
+                  </Link>
+                </Button>
+              ))}
+              <Button onClick={handleSignOut} variant="ghost" size="sm" className="hover:bg-primary/90">
+                <LogOut className="mr-2 h-4 w-4" />
+                Sign Out
+              </Button>
+            </div>
+            {/* Phones get the same links in a menu; the row of buttons doesn't fit. */}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="sm:hidden hover:bg-primary/90">
+                  <Menu className="h-5 w-5" />
+                  <span className="sr-only">Open menu</span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {navLinks.map(({ href, label, icon: Icon }) => (
+                  <DropdownMenuItem key={href} asChild>
+                    <Link href={href}>
+                      <Icon className="mr-2 h-4 w-4" />
+                      {label}
+                    </Link>
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={handleSignOut}>
+                  <LogOut className="mr-2 h-4 w-4" />
+                  Sign Out
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </>
         )}
       </div>
     </header>
@@ -3,9 +3,18 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { createClient } from '@/lib/supabase/client';
 import type { SupabaseClient, User } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/database.types';
+import { useToast } from '@/hooks/use-toast';
+import LocalProgressMigrationDialog from '@/components/app/local-progress-migration-dialog';
+import {
+  hasMigratedLocalProgress,
+  migrateLocalProgress,
+  readLocalProgress,
+  type LocalProgress,
+} from '@/lib/local-progress-migration';
 
 type SupabaseContextType = {
-  supabase: SupabaseClient;
+  supabase: SupabaseClient<Database>;
   user: User | null;
   isLoading: boolean;
 };
@@ -16,6 +25,8 @@ export function SupabaseAuthProvider({ children }: { children: ReactNode }) {
   const [supabase] = useState(() => createClient());
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [pendingMigration, setPendingMigration] = useState<LocalProgress | null>(null);
+  const { toast } = useToast();
 
   useEffect(() => {
     const getInitialUser = async () => {
@@ -38,6 +49,33 @@ export function SupabaseAuthProvider({ children }: { children: ReactNode }) {
     };
   }, [supabase]);
 
+  // Offer a one-time import of progress that was only kept in this browser.
+  useEffect(() => {
+    if (!user || hasMigratedLocalProgress(user.id)) {
+      setPendingMigration(null);
+      return;
+    }
+    const localProgress = readLocalProgress();
+    if (localProgress.interviewAttempts.length > 0 || localProgress.presentationAttempts.length > 0) {
+      setPendingMigration(localProgress);
+    }
+  }, [user]);
+
+  const handleImportLocalProgress = async () => {
+    if (!user || !pendingMigration) return;
+    try {
+      const result = await migrateLocalProgress(supabase, user.id, pendingMigration);
+      setPendingMigration(null);
+      toast({
+        title: 'Progress Imported!',
+        description: `Imported ${result.interviewAttemptsImported} interview and ${result.presentationAttemptsImported} presentation attempts.`,
+      });
+    } catch (error) {
+      console.error('Error importing local progress:', error);
+      toast({ variant: 'destructive', title: 'Import Failed', description: 'Your local progress could not be imported. Please try again later.' });
+    }
+  };
+
   const value = {
     supabase,
     user,
@@ -47,6 +85,14 @@ export function SupabaseAuthProvider({ children }: { children: ReactNode }) {
   return (
     <SupabaseContext.Provider value={value}>
       {children}
+      {pendingMigration && (
+        <LocalProgressMigrationDialog
+          open
+          progress={pendingMigration}
+          onImport={handleImportLocalProgress}
+          onDismiss={() => setPendingMigration(null)}
+        />
+      )}
     </SupabaseContext.Provider>
   );
 }
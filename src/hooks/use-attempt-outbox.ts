@@ -0,0 +1,90 @@
+// src/hooks/use-attempt-outbox.ts
+'use client';
+
+import { useEffect, useCallback, useMemo } from 'react';
+import { useSupabase } from '@/contexts/supabase-auth-context';
+import useLocalStorage from '@/hooks/use-local-storage';
+import { OUTBOX_STORAGE_KEY, evaluateQueuedSubmission, isFailedSubmission, saveQueuedSubmission } from '@/lib/attempt-outbox';
+import type { PendingInterviewSubmission } from '@/lib/types';
+
+// Shared across hook instances so that only one replay runs at a time.
+let activeSync: Promise<number> | null = null;
+
+type UseAttemptOutboxOptions = {
+  // Replay queued answers on mount and whenever the browser comes back online.
+  autoSync?: boolean;
+};
+
+// Offline outbox for interview answers, persisted in localStorage. The browser
+// may be shared, so each answer belongs to the user who recorded it and only
+// that user's answers are listed and synced.
+function useAttemptOutbox({ autoSync = false }: UseAttemptOutboxOptions = {}) {
+  const { supabase, user } = useSupabase();
+  const [queue, setPending] = useLocalStorage<PendingInterviewSubmission[]>(OUTBOX_STORAGE_KEY, []);
+  const pending = useMemo(() => (user ? queue.filter(item => item.userId === user.id) : []), [queue, user]);
+
+  const enqueue = useCallback((submission: Omit<PendingInterviewSubmission, 'userId' | 'syncAttempts'>) => {
+    if (!user) return;
+    // Re-queuing the same attempt id replaces the older entry.
+    setPending(prev => [...prev.filter(item => item.id !== submission.id), { ...submission, userId: user.id, syncAttempts: 0 }]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user]);
+
+  // Returns the number of submissions that were synced.
+  const sync = useCallback(async (): Promise<number> => {
+    if (!user || typeof navigator === 'undefined' || !navigator.onLine) return 0;
+    if (activeSync) return activeSync;
+
+    const run = async () => {
+      let synced = 0;
+      const queued = JSON.parse(window.localStorage.getItem(OUTBOX_STORAGE_KEY) ?? '[]') as PendingInterviewSubmission[];
+      // Failed answers wait for the user to retry or dismiss them.
+      for (const submission of queued.filter(item => item.userId === user.id && !isFailedSubmission(item))) {
+        try {
+          const evaluated = await evaluateQueuedSubmission(submission);
+          // Keep the results so a failed save doesn't pay for the model calls again.
+          setPending(prev => prev.map(item => item.id === submission.id ? evaluated : item));
+          await saveQueuedSubmission(supabase, user.id, evaluated);
+          setPending(prev => prev.filter(item => item.id !== submission.id));
+          synced++;
+        } catch (error) {
+          console.error('Error replaying queued answer:', error);
+          // Losing the connection isn't the answer's fault and doesn't count as an attempt.
+          if (!navigator.onLine) break;
+          const message = error instanceof Error ? error.message : 'Unknown error.';
+          setPending(prev => prev.map(item => item.id === submission.id ? { ...item, syncAttempts: item.syncAttempts + 1, lastError: message } : item));
+        }
+      }
+      return synced;
+    };
+
+    activeSync = run().finally(() => { activeSync = null; });
+    return activeSync;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [supabase, user]);
+
+  // Drops a queued answer for good.
+  const dismiss = useCallback((id: string) => {
+    setPending(prev => prev.filter(item => item.id !== id));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Gives a failed answer a fresh set of sync attempts and syncs right away.
+  const retry = useCallback(async (id: string) => {
+    setPending(prev => prev.map(item => item.id === id ? { ...item, syncAttempts: 0 } : item));
+    return sync();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sync]);
+
+  useEffect(() => {
+    if (!autoSync) return;
+    sync();
+    const handleOnline = () => { sync(); };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [autoSync, sync]);
+
+  return { pending, enqueue, sync, retry, dismiss };
+}
+
+export default useAttemptOutbox;
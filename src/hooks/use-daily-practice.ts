@@ -0,0 +1,94 @@
+// src/hooks/use-daily-practice.ts
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useSupabase } from '@/contexts/supabase-auth-context';
+import useInterviewAttempts from '@/hooks/use-interview-attempts';
+import useLocalStorage from '@/hooks/use-local-storage';
+import { generateInterviewQuestions } from '@/ai/flows/generate-interview-questions';
+import {
+  DAILY_FRESH_COUNT,
+  DAILY_REVIEW_COUNT,
+  DAILY_SET_STORAGE_KEY,
+  buildReviewSchedule,
+  computePracticeStreak,
+  dailySetProgress,
+  dayKey,
+  dueReviews,
+  pickPracticeSettings,
+  type DailyQuestion,
+  type DailySet,
+} from '@/lib/daily-practice';
+
+// Shared across hook instances so that the dashboard and setup form don't both generate a set.
+let activeBuild: Promise<void> | null = null;
+
+// Today's practice set, the review schedule and the practice streak, all
+// derived from the user's interview attempts. The set is built once per day.
+function useDailyPractice() {
+  const { user } = useSupabase();
+  const { attempts, isLoading: isLoadingAttempts, error } = useInterviewAttempts();
+  const [storedSet, setStoredSet] = useLocalStorage<DailySet | null>(DAILY_SET_STORAGE_KEY, null);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [buildError, setBuildError] = useState<Error | null>(null);
+
+  const today = dayKey(Date.now());
+  const dailySet = storedSet && user && storedSet.userId === user.id && storedSet.date === today ? storedSet : null;
+
+  const schedule = useMemo(() => buildReviewSchedule(attempts), [attempts]);
+  const due = useMemo(() => dueReviews(schedule), [schedule]);
+  const streak = useMemo(() => computePracticeStreak(attempts.map(attempt => attempt.timestamp)), [attempts]);
+  const progress = useMemo(() => (dailySet ? dailySetProgress(dailySet, attempts) : []), [dailySet, attempts]);
+
+  // Due reviews come first; fresh questions use the settings the user practices with most.
+  const buildDailySet = useCallback(async () => {
+    if (!user) return;
+    const settings = pickPracticeSettings(attempts);
+    if (!settings) return; // Nothing to base a set on until the first interview
+
+    if (activeBuild) return activeBuild;
+    const run = async () => {
+      setIsBuilding(true);
+      const questions: DailyQuestion[] = dueReviews(buildReviewSchedule(attempts))
+        .slice(0, DAILY_REVIEW_COUNT)
+        .map(item => ({ question: item.question, kind: 'review' }));
+      try {
+        const result = await generateInterviewQuestions({ ...settings, numQuestions: DAILY_FRESH_COUNT });
+        result.questions.slice(0, DAILY_FRESH_COUNT).forEach(question => questions.push({ question, kind: 'fresh' }));
+      } catch (err) {
+        console.error('Error generating daily questions:', err);
+        if (questions.length === 0) {
+          setBuildError(err instanceof Error ? err : new Error('Failed to build the daily practice set.'));
+          return;
+        }
+      }
+      setBuildError(null);
+      setStoredSet({ userId: user.id, date: dayKey(Date.now()), settings, questions });
+    };
+
+    activeBuild = run().finally(() => {
+      activeBuild = null;
+      setIsBuilding(false);
+    });
+    return activeBuild;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user, attempts]);
+
+  useEffect(() => {
+    if (isLoadingAttempts || error || buildError || dailySet) return;
+    buildDailySet();
+  }, [isLoadingAttempts, error, buildError, dailySet, buildDailySet]);
+
+  return {
+    dailySet,
+    progress,
+    schedule,
+    due,
+    streak,
+    isLoading: isLoadingAttempts || isBuilding,
+    error: error ?? buildError,
+    rebuild: buildDailySet,
+  };
+}
+
+export default useDailyPractice;
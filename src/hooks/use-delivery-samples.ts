@@ -0,0 +1,50 @@
+// src/hooks/use-delivery-samples.ts
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSupabase } from '@/contexts/supabase-auth-context';
+import { listInterviewAttemptsSince } from '@/lib/supabase/interview-attempts';
+import { listPresentationAttemptsSince } from '@/lib/supabase/presentation-attempts';
+import { toDeliverySamples, type DeliverySample } from '@/lib/delivery-habits';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Loads the delivery samples of the last `windowDays` days. Interviews and
+// presentations use the same window, so neither kind is undercounted.
+function useDeliverySamples(windowDays: number) {
+  const { supabase, user } = useSupabase();
+  const [samples, setSamples] = useState<DeliverySample[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setSamples([]);
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const since = Date.now() - windowDays * DAY_MS;
+      const [interviews, presentations] = await Promise.all([
+        listInterviewAttemptsSince(supabase, user.id, since),
+        listPresentationAttemptsSince(supabase, user.id, since),
+      ]);
+      setSamples(toDeliverySamples(interviews, presentations));
+      setError(null);
+    } catch (err) {
+      console.error('Error loading delivery samples:', err);
+      setError(err instanceof Error ? err : new Error('Failed to load delivery habits.'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [supabase, user, windowDays]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { samples, isLoading, error, refresh };
+}
+
+export default useDeliverySamples;
@@ -0,0 +1,41 @@
+// src/hooks/use-interview-attempts.ts
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSupabase } from '@/contexts/supabase-auth-context';
+import { listInterviewAttempts } from '@/lib/supabase/interview-attempts';
+import type { StoredAttempt } from '@/lib/types';
+
+// Loads the signed-in user's interview attempts from Supabase.
+function useInterviewAttempts() {
+  const { supabase, user } = useSupabase();
+  const [attempts, setAttempts] = useState<StoredAttempt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setAttempts([]);
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      setAttempts(await listInterviewAttempts(supabase, user.id));
+      setError(null);
+    } catch (err) {
+      console.error('Error loading interview attempts:', err);
+      setError(err instanceof Error ? err : new Error('Failed to load interview attempts.'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [supabase, user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { attempts, isLoading, error, refresh };
+}
+
+export default useInterviewAttempts;
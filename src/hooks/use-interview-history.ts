@@ -0,0 +1,57 @@
+// src/hooks/use-interview-history.ts
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useSupabase } from '@/contexts/supabase-auth-context';
+import { searchInterviewAttempts } from '@/lib/supabase/interview-attempts';
+import type { InterviewHistoryFilters } from '@/lib/history-filters';
+import type { StoredAttempt } from '@/lib/types';
+
+// Loads one filtered page of the signed-in user's interview attempts.
+function useInterviewHistory(filters: InterviewHistoryFilters, page: number, pageSize = 20) {
+  const { supabase, user } = useSupabase();
+  const [attempts, setAttempts] = useState<StoredAttempt[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Filters are rebuilt from the URL on every render, so compare them by value.
+  const filtersKey = JSON.stringify(filters);
+  // Only the latest request may update state; an older response can arrive after a newer one.
+  const latestRequestRef = useRef(0);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      latestRequestRef.current++;
+      setAttempts([]);
+      setTotal(0);
+      setIsLoading(false);
+      return;
+    }
+    const requestId = ++latestRequestRef.current;
+    setIsLoading(true);
+    try {
+      const result = await searchInterviewAttempts(supabase, user.id, JSON.parse(filtersKey), { page, pageSize });
+      if (requestId !== latestRequestRef.current) return;
+      setAttempts(result.attempts);
+      setTotal(result.total);
+      setError(null);
+    } catch (err) {
+      if (requestId !== latestRequestRef.current) return;
+      console.error('Error loading interview history:', err);
+      setError(err instanceof Error ? err : new Error('Failed to load interview history.'));
+    } finally {
+      if (requestId === latestRequestRef.current) setIsLoading(false);
+    }
+  }, [supabase, user, filtersKey, page, pageSize]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  return { attempts, total, pageCount, isLoading, error, refresh };
+}
+
+export default useInterviewHistory;
@@ -0,0 +1,47 @@
+// src/hooks/use-interview-sessions.ts
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSupabase } from '@/contexts/supabase-auth-context';
+import { listInterviewSessions } from '@/lib/supabase/interview-sessions';
+import type { InterviewSession } from '@/lib/types';
+
+// Loads one page of the signed-in user's finished interview sessions.
+function useInterviewSessions(page: number, pageSize = 10) {
+  const { supabase, user } = useSupabase();
+  const [sessions, setSessions] = useState<InterviewSession[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setSessions([]);
+      setTotal(0);
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const result = await listInterviewSessions(supabase, user.id, { page, pageSize });
+      setSessions(result.sessions);
+      setTotal(result.total);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading interview sessions:', err);
+      setError(err instanceof Error ? err : new Error('Failed to load interview sessions.'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [supabase, user, page, pageSize]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  return { sessions, total, pageCount, isLoading, error, refresh };
+}
+
+export default useInterviewSessions;
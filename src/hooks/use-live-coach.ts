@@ -0,0 +1,98 @@
+// src/hooks/use-live-coach.ts
+'use client';
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import useLocalStorage from '@/hooks/use-local-storage';
+import {
+  DEFAULT_LIVE_COACH_SETTINGS,
+  LIVE_COACH_STORAGE_KEY,
+  countFillers,
+  liveCoachNudges,
+  normalizeLiveCoachSettings,
+  rollingWordsPerMinute,
+  trackWordTimes,
+  type LiveCoachSettings,
+  type LiveCoachStats,
+} from '@/lib/live-coach';
+import { wordTokens } from '@/lib/text-metrics';
+
+// The parts of a Web Speech API result event the coach reads.
+type RecognitionResultEvent = {
+  resultIndex: number;
+  results: ArrayLike<ArrayLike<{ transcript: string }> & { isFinal: boolean }>;
+};
+
+const EMPTY_STATS: LiveCoachStats = { wpm: null, fillers: [], fillerTotal: 0 };
+
+// Live pace and filler stats while the speech recognizer is listening. Feed it
+// every `onresult` event between `start` and `stop`; the thresholds are saved
+// in local storage.
+function useLiveCoach() {
+  const [storedSettings, setStoredSettings] = useLocalStorage<LiveCoachSettings>(LIVE_COACH_STORAGE_KEY, DEFAULT_LIVE_COACH_SETTINGS);
+  const settings = useMemo(() => normalizeLiveCoachSettings(storedSettings), [storedSettings]);
+  const [stats, setStats] = useState<LiveCoachStats>(EMPTY_STATS);
+  const [isActive, setIsActive] = useState(false);
+
+  const finalSegmentsRef = useRef<string[]>([]);
+  const interimSegmentsRef = useRef<string[]>([]);
+  const wordTimesRef = useRef<number[]>([]);
+  const startedAtRef = useRef(0);
+  // Recognition handlers are set up once, so they read the latest settings through a ref.
+  const windowSecondsRef = useRef(settings.windowSeconds);
+  windowSecondsRef.current = settings.windowSeconds;
+
+  const refresh = useCallback(() => {
+    const now = Date.now();
+    const segments = [...finalSegmentsRef.current, ...interimSegmentsRef.current];
+    wordTimesRef.current = trackWordTimes(wordTimesRef.current, wordTokens(segments.join(' ')).length, now);
+    const fillers = countFillers(segments);
+    setStats({
+      wpm: rollingWordsPerMinute(wordTimesRef.current, startedAtRef.current, now, windowSecondsRef.current),
+      fillers,
+      fillerTotal: fillers.reduce((total, filler) => total + filler.count, 0),
+    });
+  }, []);
+
+  const start = useCallback(() => {
+    finalSegmentsRef.current = [];
+    interimSegmentsRef.current = [];
+    wordTimesRef.current = [];
+    startedAtRef.current = Date.now();
+    setStats(EMPTY_STATS);
+    setIsActive(true);
+  }, []);
+
+  const stop = useCallback(() => setIsActive(false), []);
+
+  const trackResults = useCallback((event: RecognitionResultEvent) => {
+    const interim: string[] = [];
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const text = event.results[i][0].transcript.trim();
+      if (!text) continue;
+      if (event.results[i].isFinal) finalSegmentsRef.current.push(text);
+      else interim.push(text);
+    }
+    interimSegmentsRef.current = interim;
+    refresh();
+  }, [refresh]);
+
+  // The rolling pace drops during silence, so it is recomputed even without new results.
+  useEffect(() => {
+    if (!isActive) return;
+    const interval = setInterval(refresh, 1000);
+    return () => clearInterval(interval);
+  }, [isActive, refresh]);
+
+  const nudges = useMemo(() => (settings.enabled ? liveCoachNudges(stats, settings) : []), [stats, settings]);
+
+  const updateSettings = useCallback((changes: Partial<LiveCoachSettings>) => {
+    setStoredSettings(previous => normalizeLiveCoachSettings({ ...previous, ...changes }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return { settings, updateSettings, stats, nudges, isActive, start, stop, trackResults };
+}
+
+export type LiveCoach = ReturnType<typeof useLiveCoach>;
+
+export default useLiveCoach;
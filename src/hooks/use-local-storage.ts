@@ -32,13 +32,18 @@ function useLocalStorage<T>(key: string, initialValue: T): [T, (value: T | ((val
     }
 
     try {
-      // Allow value to be a function so we have same API as useState
+      // Allow value to be a function so we have same API as useState.
+      // Read the persisted value so updates made by other hook instances
+      // (or earlier in the same tick) are not overwritten.
       const valueToStore =
-        value instanceof Function ? value(storedValue) : value;
+        value instanceof Function ? value(readValue()) : value;
       // Save state
       setStoredValue(valueToStore);
       // Save to local storage
-      window.localStorage.setItem(key, JSON.stringify(valueToStore));
+      const serialized = JSON.stringify(valueToStore);
+      window.localStorage.setItem(key, serialized);
+      // The native storage event only reaches other tabs; notify hooks in this tab too
+      window.dispatchEvent(new StorageEvent('storage', { key, newValue: serialized }));
     } catch (error) {
       console.warn(`Error setting localStorage key “${key}”:`, error);
     }
@@ -0,0 +1,48 @@
+// src/hooks/use-presentation-attempts.ts
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSupabase } from '@/contexts/supabase-auth-context';
+import { listPresentationAttempts } from '@/lib/supabase/presentation-attempts';
+import type { StoredPresentationAttempt } from '@/lib/types';
+
+// Loads the signed-in user's presentation attempts from Supabase, one page at a time.
+function usePresentationAttempts(pageSize = 10) {
+  const { supabase, user } = useSupabase();
+  const [page, setPage] = useState(0);
+  const [attempts, setAttempts] = useState<StoredPresentationAttempt[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setAttempts([]);
+      setTotal(0);
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const result = await listPresentationAttempts(supabase, user.id, { page, pageSize });
+      setAttempts(result.attempts);
+      setTotal(result.total);
+      setError(null);
+    } catch (err) {
+      console.error('Error loading presentation attempts:', err);
+      setError(err instanceof Error ? err : new Error('Failed to load presentation attempts.'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [supabase, user, page, pageSize]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  return { attempts, total, page, pageCount, setPage, isLoading, error, refresh };
+}
+
+export default usePresentationAttempts;
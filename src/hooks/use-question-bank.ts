@@ -0,0 +1,42 @@
+// src/hooks/use-question-bank.ts
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSupabase } from '@/contexts/supabase-auth-context';
+import { listBankQuestions } from '@/lib/supabase/question-bank';
+import type { BankQuestion } from '@/lib/types';
+
+// Loads the signed-in user's question bank. `setQuestions` lets callers apply
+// changes they have already saved without reloading the list.
+function useQuestionBank() {
+  const { supabase, user } = useSupabase();
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setQuestions([]);
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      setQuestions(await listBankQuestions(supabase, user.id));
+      setError(null);
+    } catch (err) {
+      console.error('Error loading question bank:', err);
+      setError(err instanceof Error ? err : new Error('Failed to load the question bank.'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [supabase, user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { questions, setQuestions, isLoading, error, refresh };
+}
+
+export default useQuestionBank;
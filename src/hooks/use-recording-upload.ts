@@ -0,0 +1,77 @@
+// src/hooks/use-recording-upload.ts
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useSupabase } from '@/contexts/supabase-auth-context';
+import { useToast } from '@/hooks/use-toast';
+import { buildRecordingPath, uploadRecording, type RecordingKind } from '@/lib/supabase/recordings';
+import type { RecordingUploadState } from '@/lib/types';
+
+const IDLE_STATE: RecordingUploadState = { status: 'idle', progress: 0 };
+
+// The database rejects uploads past the quota with this message.
+const isQuotaError = (error: unknown) => error instanceof Error && /quota exceeded/i.test(error.message);
+
+// Uploads a finished recording to storage and reports progress for the UI.
+function useRecordingUpload(kind: RecordingKind) {
+  const { supabase, user } = useSupabase();
+  const { toast } = useToast();
+  const [uploadState, setUploadState] = useState<RecordingUploadState>(IDLE_STATE);
+
+  const showStorageFull = useCallback(() => {
+    setUploadState({ status: 'blocked', progress: 0 });
+    toast({ variant: 'destructive', title: 'Storage Full', description: 'This video would exceed your storage quota. Free up space in Settings or download it now.' });
+  }, [toast]);
+
+  // `onUploaded` receives the storage path, typically to save it on the attempt.
+  const startUpload = useCallback(async (attemptId: string, recording: Blob, onUploaded: (path: string) => Promise<unknown>) => {
+    if (!user) return;
+    setUploadState({ status: 'uploading', progress: 0 });
+    try {
+      // An early quota check saves a doomed upload. If the check itself fails we
+      // still try: the database enforces the quota on the upload anyway.
+      const quotaResponse = await fetch('/api/recordings/quota', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sizeBytes: recording.size }),
+      });
+      if (quotaResponse.status === 413) {
+        showStorageFull();
+        return;
+      }
+      if (quotaResponse.ok) {
+        const quota = await quotaResponse.json();
+        if (quota.nearLimit) {
+          toast({ title: 'Storage Almost Full', description: 'You are close to your recording storage quota. Consider a retention policy in Settings.' });
+        }
+      }
+
+      const path = buildRecordingPath(user.id, kind, attemptId, recording.type);
+      await uploadRecording(supabase, path, recording, progress => setUploadState({ status: 'uploading', progress }));
+      await onUploaded(path);
+      setUploadState({ status: 'saved', progress: 100 });
+
+      // Apply the user's retention policy right away. This is only a convenience:
+      // the scheduled job applies it on the server whether or not this runs.
+      fetch('/api/recordings/retention', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun: false }),
+      }).catch(error => console.error('Error applying retention policy:', error));
+    } catch (error) {
+      console.error('Error uploading recording:', error);
+      if (isQuotaError(error)) {
+        showStorageFull();
+        return;
+      }
+      setUploadState(prev => ({ ...prev, status: 'failed' }));
+      toast({ variant: 'destructive', title: 'Video Not Saved', description: 'Your recording could not be saved. Download it now if you wish to keep a copy.' });
+    }
+  }, [supabase, user, kind, toast, showStorageFull]);
+
+  const resetUpload = useCallback(() => setUploadState(IDLE_STATE), []);
+
+  return { uploadState, startUpload, resetUpload };
+}
+
+export default useRecordingUpload;
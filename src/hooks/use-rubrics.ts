@@ -0,0 +1,41 @@
+// src/hooks/use-rubrics.ts
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSupabase } from '@/contexts/supabase-auth-context';
+import { listRubrics } from '@/lib/supabase/rubrics';
+import type { Rubric } from '@/lib/rubrics';
+
+// Loads the signed-in user's custom rubrics and the ones other users shared.
+function useRubrics() {
+  const { supabase, user } = useSupabase();
+  const [rubrics, setRubrics] = useState<Rubric[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setRubrics([]);
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      setRubrics(await listRubrics(supabase, user.id));
+      setError(null);
+    } catch (err) {
+      console.error('Error loading rubrics:', err);
+      setError(err instanceof Error ? err : new Error('Failed to load rubrics.'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [supabase, user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { rubrics, isLoading, error, refresh };
+}
+
+export default useRubrics;
@@ -0,0 +1,102 @@
+/**
+ * @fileOverview Replays interview answers that were queued while offline.
+ *
+ * - evaluateQueuedSubmission - Runs the analysis flows a queued answer is still missing.
+ * - saveQueuedSubmission - Saves an evaluated queued answer as an interview attempt.
+ * - isFailedSubmission - Whether a queued answer has used up its automatic sync attempts.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/database.types';
+import type { PendingInterviewSubmission, StoredAttempt } from '@/lib/types';
+import { evaluateAnswer } from '@/ai/flows/evaluate-answer';
+import type { EvaluateAnswerOutput } from '@/ai/flows/evaluate-answer';
+import { analyzeCommunication } from '@/ai/flows/analyze-communication-flow';
+import type { AnalyzeCommunicationOutput } from '@/ai/flows/analyze-communication-flow';
+import { analyzeStarAnswer } from '@/ai/flows/analyze-star-answer';
+import type { StarAnalysis } from '@/lib/star-analysis';
+import { importInterviewAttempts } from '@/lib/supabase/interview-attempts';
+
+export const OUTBOX_STORAGE_KEY = 'careerConfidenceOutbox';
+// After this many failed syncs an answer stops being retried automatically; the user can retry or dismiss it.
+export const MAX_SYNC_ATTEMPTS = 5;
+
+export type EvaluatedSubmission = PendingInterviewSubmission & { evaluation: EvaluateAnswerOutput };
+
+export function isFailedSubmission(submission: PendingInterviewSubmission): boolean {
+  return submission.syncAttempts >= MAX_SYNC_ATTEMPTS;
+}
+
+// The model calls run once per queued answer: once it has an evaluation, the
+// result is kept in the outbox and later retries only repeat the database write.
+export async function evaluateQueuedSubmission(submission: PendingInterviewSubmission): Promise<EvaluatedSubmission> {
+  if (submission.evaluation) return { ...submission, evaluation: submission.evaluation };
+
+  const evaluation = await evaluateAnswer({
+    question: submission.question,
+    answer: submission.userAnswer,
+    jobRole: submission.settings.jobRole,
+    difficulty: submission.settings.difficultyLevel,
+    interviewType: submission.settings.interviewType,
+    rubric: submission.rubric,
+    competency: submission.competency,
+  });
+
+  let communicationAnalysis: AnalyzeCommunicationOutput | undefined = submission.communicationAnalysis;
+  if (!communicationAnalysis && (submission.userAnswer.trim() || submission.recordingDurationSeconds > 0)) {
+    try {
+      communicationAnalysis = await analyzeCommunication({
+        answerText: submission.userAnswer,
+        recordingDurationSeconds: submission.recordingDurationSeconds,
+        jobRole: submission.settings.jobRole,
+        difficulty: submission.settings.difficultyLevel,
+        pauseMetrics: submission.pauseMetrics,
+      });
+    } catch (error) {
+      // Communication analysis is optional; the attempt is still worth saving without it.
+      console.error('Error analyzing communication for queued answer:', error);
+    }
+  }
+
+  let starAnalysis: StarAnalysis | undefined = submission.starAnalysis;
+  if (!starAnalysis && submission.settings.interviewType === 'Behavioral' && submission.userAnswer.trim()) {
+    try {
+      starAnalysis = await analyzeStarAnswer({
+        question: submission.question,
+        answer: submission.userAnswer,
+        jobRole: submission.settings.jobRole,
+      });
+    } catch (error) {
+      console.error('Error analyzing STAR structure for queued answer:', error);
+    }
+  }
+
+  return { ...submission, evaluation, communicationAnalysis, starAnalysis };
+}
+
+export async function saveQueuedSubmission(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  submission: EvaluatedSubmission
+): Promise<StoredAttempt> {
+  const attempt: StoredAttempt = {
+    id: submission.id,
+    timestamp: submission.timestamp,
+    question: submission.question,
+    userAnswer: submission.userAnswer,
+    evaluation: submission.evaluation,
+    settings: submission.settings,
+    communicationAnalysis: submission.communicationAnalysis,
+    starAnalysis: submission.starAnalysis,
+    transcriptTimings: submission.transcriptTimings,
+    pauseMetrics: submission.pauseMetrics,
+    recordingDurationSeconds: submission.recordingDurationSeconds,
+    practiceMode: submission.practiceMode,
+    sessionId: submission.sessionId,
+  };
+
+  // Conflicts resolve by attempt id: if this attempt already reached the
+  // database (e.g. from another tab), the stored row wins.
+  await importInterviewAttempts(supabase, userId, [attempt]);
+  return attempt;
+}
@@ -0,0 +1,177 @@
+/**
+ * @fileOverview Spaced-repetition scheduling of weak interview questions and the daily practice set.
+ *
+ * - scoreToQuality - Maps a 0-100 answer score to an SM-2 recall quality (0-5).
+ * - applyReview - Advances a question's SM-2 state by one review.
+ * - buildReviewSchedule - Replays past attempts into a review schedule of low-scoring questions.
+ * - dueReviews - The scheduled questions that are due, most overdue first.
+ * - computePracticeStreak - Current and longest run of consecutive days with practice.
+ * - pickPracticeSettings - The settings the user practices with most often lately.
+ * - dailySetProgress - Which questions of a daily set were answered on its day.
+ * - toDailyInterviewSettings - Interview settings that ask a daily set.
+ */
+
+import { addDays, differenceInCalendarDays, format, startOfDay } from 'date-fns';
+import type { InterviewSettings, StoredAttempt } from '@/lib/types';
+
+export const DAILY_SET_STORAGE_KEY = 'careerConfidenceDailySet';
+
+// A question is scheduled for review once any answer to it scores below this.
+export const REVIEW_SCORE_THRESHOLD = 70;
+// Size of the daily set: due reviews first, then freshly generated questions.
+export const DAILY_REVIEW_COUNT = 3;
+export const DAILY_FRESH_COUNT = 2;
+// Recent attempts considered when picking the settings for fresh questions.
+const SETTINGS_LOOKBACK = 20;
+
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+
+export type PracticeSettings = StoredAttempt['settings'];
+
+export type ReviewState = {
+  repetitions: number;
+  easeFactor: number;
+  intervalDays: number;
+};
+
+export type ReviewItem = ReviewState & {
+  question: string;
+  settings: PracticeSettings; // From the latest answer
+  lastScore: number;
+  lastReviewedAt: number;
+  dueAt: number; // Start of the local day the review is due
+  reviewCount: number;
+};
+
+export type DailyQuestion = {
+  question: string;
+  kind: 'review' | 'fresh';
+};
+
+// Cached in localStorage so the set stays the same for the whole day.
+export type DailySet = {
+  userId: string;
+  date: string; // yyyy-MM-dd, local time
+  settings: PracticeSettings;
+  questions: DailyQuestion[];
+};
+
+export type PracticeStreak = {
+  current: number;
+  longest: number;
+  practicedToday: boolean;
+};
+
+export const dayKey = (timestamp: number) => format(timestamp, 'yyyy-MM-dd');
+
+const questionKey = (question: string) => question.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export function scoreToQuality(score: number): number {
+  return Math.min(5, Math.max(0, Math.round(score / 20)));
+}
+
+// The SM-2 algorithm: a lapse (quality below 3) restarts the intervals,
+// otherwise they grow by the ease factor, which tracks how hard the question is.
+export function applyReview(state: ReviewState, quality: number): ReviewState {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+  if (quality < 3) {
+    return { repetitions: 0, intervalDays: 1, easeFactor };
+  }
+  const repetitions = state.repetitions + 1;
+  const intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(state.intervalDays * state.easeFactor);
+  return { repetitions, intervalDays, easeFactor };
+}
+
+// Answers to the same question on the same day count as one review, graded by the last of them.
+export function buildReviewSchedule(attempts: StoredAttempt[]): ReviewItem[] {
+  const byQuestion = new Map<string, StoredAttempt[]>();
+  for (const attempt of [...attempts].sort((a, b) => a.timestamp - b.timestamp)) {
+    const key = questionKey(attempt.question);
+    byQuestion.set(key, [...(byQuestion.get(key) ?? []), attempt]);
+  }
+
+  const schedule: ReviewItem[] = [];
+  for (const questionAttempts of byQuestion.values()) {
+    if (!questionAttempts.some(attempt => attempt.evaluation.score < REVIEW_SCORE_THRESHOLD)) continue;
+
+    const lastPerDay = new Map<string, StoredAttempt>();
+    questionAttempts.forEach(attempt => lastPerDay.set(dayKey(attempt.timestamp), attempt));
+    const reviews = [...lastPerDay.values()];
+
+    let state: ReviewState = { repetitions: 0, easeFactor: INITIAL_EASE_FACTOR, intervalDays: 0 };
+    reviews.forEach(attempt => {
+      state = applyReview(state, scoreToQuality(attempt.evaluation.score));
+    });
+    const latest = reviews[reviews.length - 1];
+    schedule.push({
+      ...state,
+      question: latest.question,
+      settings: latest.settings,
+      lastScore: latest.evaluation.score,
+      lastReviewedAt: latest.timestamp,
+      dueAt: addDays(startOfDay(latest.timestamp), state.intervalDays).getTime(),
+      reviewCount: reviews.length,
+    });
+  }
+  return schedule.sort((a, b) => a.dueAt - b.dueAt);
+}
+
+export function dueReviews(schedule: ReviewItem[], now: number = Date.now()): ReviewItem[] {
+  return schedule.filter(item => item.dueAt <= now);
+}
+
+// The current streak still counts if the user practiced yesterday but not yet today.
+export function computePracticeStreak(timestamps: number[], now: number = Date.now()): PracticeStreak {
+  const days = [...new Set(timestamps.map(timestamp => startOfDay(timestamp).getTime()))].sort((a, b) => a - b);
+  if (days.length === 0) return { current: 0, longest: 0, practicedToday: false };
+
+  let longest = 1;
+  let run = 1;
+  for (let index = 1; index < days.length; index++) {
+    run = differenceInCalendarDays(days[index], days[index - 1]) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  const daysSinceLast = differenceInCalendarDays(now, days[days.length - 1]);
+  return {
+    current: daysSinceLast <= 1 ? run : 0,
+    longest,
+    practicedToday: daysSinceLast === 0,
+  };
+}
+
+export function pickPracticeSettings(attempts: StoredAttempt[]): PracticeSettings | null {
+  const recent = [...attempts].sort((a, b) => b.timestamp - a.timestamp).slice(0, SETTINGS_LOOKBACK);
+  const counts = new Map<string, { settings: PracticeSettings; count: number }>();
+  for (const { settings } of recent) {
+    const key = [settings.jobRole.trim().toLowerCase(), settings.interviewType, settings.difficultyLevel].join('|');
+    const entry = counts.get(key) ?? { settings, count: 0 };
+    counts.set(key, { ...entry, count: entry.count + 1 });
+  }
+  // Ties go to the most recently used settings, which were seen first.
+  let best: { settings: PracticeSettings; count: number } | null = null;
+  for (const entry of counts.values()) {
+    if (!best || entry.count > best.count) best = entry;
+  }
+  return best?.settings ?? null;
+}
+
+export function dailySetProgress(dailySet: DailySet, attempts: StoredAttempt[]): boolean[] {
+  const answered = new Set(
+    attempts.filter(attempt => dayKey(attempt.timestamp) === dailySet.date).map(attempt => questionKey(attempt.question))
+  );
+  return dailySet.questions.map(item => answered.has(questionKey(item.question)));
+}
+
+// The daily set is asked as one interview with these settings.
+export function toDailyInterviewSettings(dailySet: DailySet): InterviewSettings {
+  return {
+    ...dailySet.settings,
+    numQuestions: 1, // Not used; the daily questions are asked
+    dailyQuestions: dailySet.questions.map(item => item.question),
+  };
+}
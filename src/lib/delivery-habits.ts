@@ -0,0 +1,130 @@
+/**
+ * @fileOverview Aggregates filler-word use and speaking pace across interview and presentation attempts.
+ *
+ * - toDeliverySamples - Normalizes both kinds of attempts into one list of samples.
+ * - computeDeliveryHabits - Filler rate, top fillers, WPM distribution and week-over-week deltas.
+ */
+
+import type { StoredAttempt, StoredPresentationAttempt } from '@/lib/types';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const TOP_FILLER_COUNT = 5;
+
+// Upper bounds (exclusive) of the WPM histogram buckets; the last bucket is open-ended.
+export const WPM_BUCKET_BOUNDS = [100, 120, 140, 160, 180] as const;
+
+export interface DeliverySample {
+  id: string;
+  kind: 'interview' | 'presentation';
+  timestamp: number;
+  durationSeconds: number;
+  wpm: number;
+  fillerWords: string[];
+}
+
+export interface WpmBucket {
+  label: string;
+  interview: number;
+  presentation: number;
+}
+
+export interface DeliveryPeriod {
+  attempts: number;
+  fillersPerMinute: number | null; // null when there is no recorded time
+  averageWpm: number | null;
+}
+
+export interface DeliveryHabits {
+  overall: DeliveryPeriod;
+  topFillers: { word: string; count: number }[];
+  wpmDistribution: WpmBucket[];
+  thisWeek: DeliveryPeriod;
+  lastWeek: DeliveryPeriod;
+  fillersPerMinuteDelta: number | null; // This week minus last week
+  averageWpmDelta: number | null;
+}
+
+// Interview attempts only have pace data when the communication analysis ran.
+export function toDeliverySamples(interviews: StoredAttempt[], presentations: StoredPresentationAttempt[]): DeliverySample[] {
+  const interviewSamples = interviews.flatMap((attempt): DeliverySample[] =>
+    attempt.communicationAnalysis ? [{
+      id: attempt.id,
+      kind: 'interview',
+      timestamp: attempt.timestamp,
+      durationSeconds: attempt.recordingDurationSeconds ?? 0,
+      wpm: attempt.communicationAnalysis.speakingPaceWPM,
+      fillerWords: attempt.communicationAnalysis.fillerWordsFound,
+    }] : []
+  );
+  const presentationSamples = presentations.map((attempt): DeliverySample => ({
+    id: attempt.id,
+    kind: 'presentation',
+    timestamp: attempt.timestamp,
+    durationSeconds: attempt.actualDurationSeconds,
+    wpm: attempt.analysis.speakingPaceWPM,
+    fillerWords: attempt.analysis.fillerWordsFound,
+  }));
+  return [...interviewSamples, ...presentationSamples];
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+function summarizePeriod(samples: DeliverySample[]): DeliveryPeriod {
+  // Fillers from attempts without a known duration would inflate the rate, so both sides use the same attempts.
+  const timed = samples.filter(sample => sample.durationSeconds > 0);
+  const minutes = timed.reduce((total, sample) => total + sample.durationSeconds, 0) / 60;
+  const fillers = timed.reduce((total, sample) => total + sample.fillerWords.length, 0);
+  const paced = samples.filter(sample => sample.wpm > 0);
+  return {
+    attempts: samples.length,
+    fillersPerMinute: minutes > 0 ? round1(fillers / minutes) : null,
+    averageWpm: paced.length > 0 ? Math.round(paced.reduce((total, sample) => total + sample.wpm, 0) / paced.length) : null,
+  };
+}
+
+const delta = (current: number | null, previous: number | null) =>
+  current !== null && previous !== null ? round1(current - previous) : null;
+
+function bucketLabel(index: number): string {
+  if (index === 0) return `<${WPM_BUCKET_BOUNDS[0]}`;
+  if (index === WPM_BUCKET_BOUNDS.length) return `${WPM_BUCKET_BOUNDS[WPM_BUCKET_BOUNDS.length - 1]}+`;
+  return `${WPM_BUCKET_BOUNDS[index - 1]}-${WPM_BUCKET_BOUNDS[index] - 1}`;
+}
+
+export function computeDeliveryHabits(samples: DeliverySample[], now: number = Date.now()): DeliveryHabits {
+  const fillerCounts = new Map<string, number>();
+  for (const sample of samples) {
+    for (const word of sample.fillerWords) {
+      const normalized = word.trim().toLowerCase();
+      if (normalized) fillerCounts.set(normalized, (fillerCounts.get(normalized) ?? 0) + 1);
+    }
+  }
+  const topFillers = [...fillerCounts.entries()]
+    .map(([word, count]) => ({ word, count }))
+    .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word))
+    .slice(0, TOP_FILLER_COUNT);
+
+  const wpmDistribution: WpmBucket[] = Array.from({ length: WPM_BUCKET_BOUNDS.length + 1 }, (_, index) => ({
+    label: bucketLabel(index),
+    interview: 0,
+    presentation: 0,
+  }));
+  for (const sample of samples) {
+    if (sample.wpm <= 0) continue;
+    const index = WPM_BUCKET_BOUNDS.findIndex(bound => sample.wpm < bound);
+    wpmDistribution[index === -1 ? WPM_BUCKET_BOUNDS.length : index][sample.kind]++;
+  }
+
+  const thisWeek = summarizePeriod(samples.filter(sample => sample.timestamp > now - WEEK_MS));
+  const lastWeek = summarizePeriod(samples.filter(sample => sample.timestamp <= now - WEEK_MS && sample.timestamp > now - 2 * WEEK_MS));
+
+  return {
+    overall: summarizePeriod(samples),
+    topFillers,
+    wpmDistribution,
+    thisWeek,
+    lastWeek,
+    fillersPerMinuteDelta: delta(thisWeek.fillersPerMinute, lastWeek.fillersPerMinute),
+    averageWpmDelta: delta(thisWeek.averageWpm, lastWeek.averageWpm),
+  };
+}
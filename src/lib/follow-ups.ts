@@ -0,0 +1,24 @@
+/**
+ * @fileOverview Helpers for the follow-up question tree stored on an interview attempt.
+ *
+ * - threadPath - The chain of exchanges from the main question down to one exchange.
+ * - childExchanges - The exchanges that directly follow up on a given exchange.
+ */
+
+import type { FollowUpExchange } from '@/lib/types';
+
+// Oldest first. Returns an empty array for the main question (`exchangeId` null).
+export function threadPath(exchanges: FollowUpExchange[], exchangeId: string | null): FollowUpExchange[] {
+  const byId = new Map(exchanges.map(exchange => [exchange.id, exchange]));
+  const path: FollowUpExchange[] = [];
+  let current = exchangeId ? byId.get(exchangeId) : undefined;
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+export function childExchanges(exchanges: FollowUpExchange[], parentId: string | null): FollowUpExchange[] {
+  return exchanges.filter(exchange => exchange.parentId === parentId);
+}
@@ -0,0 +1,75 @@
+/**
+ * @fileOverview Filter state for the attempt history page, kept in the URL so filtered views can be shared.
+ *
+ * - parseHistoryFilters - Reads filters and the page number from URL search params.
+ * - historyFiltersToSearchParams - Serializes filters and the page number back into search params.
+ */
+
+import { difficultyLevels, interviewTypes } from '@/lib/types';
+import type { DifficultyLevel, InterviewType } from '@/lib/types';
+
+// Score bands use the same 70-point pass mark as the score badges.
+export const scoreBands = {
+  'needs-work': { label: 'Needs work (0-49)', min: 0, max: 49 },
+  fair: { label: 'Fair (50-69)', min: 50, max: 69 },
+  strong: { label: 'Strong (70-100)', min: 70, max: 100 },
+} as const;
+export type ScoreBand = keyof typeof scoreBands;
+
+export interface InterviewHistoryFilters {
+  search?: string; // Full-text search over the question and answer
+  interviewType?: InterviewType;
+  difficultyLevel?: DifficultyLevel;
+  jobRole?: string; // Case-insensitive substring match
+  practiceMode?: 'video' | 'audio';
+  from?: string; // yyyy-MM-dd, inclusive
+  to?: string; // yyyy-MM-dd, inclusive
+  scoreBand?: ScoreBand;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const oneOf = <T extends string>(options: readonly T[], value: string | null): T | undefined =>
+  value !== null && (options as readonly string[]).includes(value) ? (value as T) : undefined;
+
+const nonEmpty = (value: string | null): string | undefined => value?.trim() || undefined;
+
+const dateOrUndefined = (value: string | null): string | undefined =>
+  value && DATE_PATTERN.test(value) ? value : undefined;
+
+export function parseHistoryFilters(params: URLSearchParams): { filters: InterviewHistoryFilters; page: number } {
+  const page = parseInt(params.get('page') ?? '', 10);
+  return {
+    filters: {
+      search: nonEmpty(params.get('q')),
+      interviewType: oneOf(interviewTypes, params.get('type')),
+      difficultyLevel: oneOf(difficultyLevels, params.get('difficulty')),
+      jobRole: nonEmpty(params.get('role')),
+      practiceMode: oneOf(['video', 'audio'] as const, params.get('mode')),
+      from: dateOrUndefined(params.get('from')),
+      to: dateOrUndefined(params.get('to')),
+      scoreBand: oneOf(Object.keys(scoreBands) as ScoreBand[], params.get('score')),
+    },
+    // The URL page number is one-based; the returned page is zero-based.
+    page: Number.isFinite(page) && page > 1 ? page - 1 : 0,
+  };
+}
+
+export function historyFiltersToSearchParams(filters: InterviewHistoryFilters, page = 0): URLSearchParams {
+  const params = new URLSearchParams();
+  const entries: [string, string | undefined][] = [
+    ['q', filters.search],
+    ['type', filters.interviewType],
+    ['difficulty', filters.difficultyLevel],
+    ['role', filters.jobRole],
+    ['mode', filters.practiceMode],
+    ['from', filters.from],
+    ['to', filters.to],
+    ['score', filters.scoreBand],
+  ];
+  for (const [key, value] of entries) {
+    if (value) params.set(key, value);
+  }
+  if (page > 0) params.set('page', String(page + 1));
+  return params;
+}
@@ -0,0 +1,58 @@
+/**
+ * @fileOverview Competencies extracted from a pasted job posting, and coverage of them over a session.
+ *
+ * - CompetencySchema / Competency - One skill or behaviour the posting asks for.
+ * - JobDescriptionAnalysisSchema / JobDescriptionAnalysis - Role, seniority and competencies pulled from the posting.
+ * - buildCompetencyCoverage - Summarizes how well each competency was covered by the answered questions.
+ */
+
+import { z } from 'zod';
+import { difficultyLevels, type SessionQuestion } from '@/lib/types';
+
+export const MIN_JOB_DESCRIPTION_LENGTH = 100;
+export const MAX_JOB_DESCRIPTION_LENGTH = 15000;
+
+// Answers scoring at least this much count as demonstrating the competency.
+export const COMPETENCY_COVERED_SCORE = 70;
+
+export const CompetencySchema = z.object({
+  name: z.string().describe('A short name, e.g. "Stakeholder management" or "Distributed systems design".'),
+  description: z.string().describe('What the posting expects for this competency, in one sentence.'),
+});
+export type Competency = z.infer<typeof CompetencySchema>;
+
+export const JobDescriptionAnalysisSchema = z.object({
+  jobTitle: z.string().describe('The job title as written in the posting.'),
+  seniority: z.string().describe('The seniority the posting asks for, e.g. "Junior", "Mid-level", "Senior", "Staff".'),
+  difficultyLevel: z.enum(difficultyLevels).describe('The interview difficulty that matches the seniority.'),
+  competencies: z.array(CompetencySchema).describe('The required competencies, most important first.'),
+});
+export type JobDescriptionAnalysis = z.infer<typeof JobDescriptionAnalysisSchema>;
+
+export type CompetencyCoverage = {
+  competency: Competency;
+  questionCount: number;
+  answeredCount: number;
+  averageScore: number | null;
+  covered: boolean;
+};
+
+export function buildCompetencyCoverage(
+  competencies: Competency[],
+  questions: Pick<SessionQuestion, 'competency' | 'score'>[]
+): CompetencyCoverage[] {
+  return competencies.map(competency => {
+    const tested = questions.filter(question => question.competency === competency.name);
+    const scores = tested
+      .map(question => question.score)
+      .filter((score): score is number => score !== undefined);
+    const averageScore = scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null;
+    return {
+      competency,
+      questionCount: tested.length,
+      answeredCount: scores.length,
+      averageScore,
+      covered: averageScore !== null && averageScore >= COMPETENCY_COVERED_SCORE,
+    };
+  });
+}
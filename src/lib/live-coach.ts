@@ -0,0 +1,116 @@
+/**
+ * @fileOverview Live pacing and filler-word coaching from interim speech recognition results.
+ *
+ * - trackWordTimes - Timestamps newly recognized words, dropping ones the recognizer took back.
+ * - rollingWordsPerMinute - Speaking pace over the last few seconds.
+ * - countFillers - Filler words in the live transcript, most frequent first.
+ * - liveCoachNudges - Gentle prompts for the speaker when the pace or fillers go past the thresholds.
+ * - normalizeLiveCoachSettings - Clamps settings to their limits and keeps the slowest pace below the fastest.
+ * - LiveCoachSettings - The configurable thresholds.
+ */
+
+import { computeTextMetrics } from '@/lib/text-metrics';
+
+export const LIVE_COACH_STORAGE_KEY = 'careerConfidenceLiveCoach';
+
+export type LiveCoachSettings = {
+  enabled: boolean;
+  minWpm: number;
+  maxWpm: number;
+  windowSeconds: number; // How far back the rolling pace looks
+  fillerNudgeCount: number; // Nudge once a single filler has been said this many times
+};
+
+export const DEFAULT_LIVE_COACH_SETTINGS: LiveCoachSettings = {
+  enabled: true,
+  minWpm: 110,
+  maxWpm: 170,
+  windowSeconds: 20,
+  fillerNudgeCount: 5,
+};
+
+export type LiveCoachNumberSetting = Exclude<keyof LiveCoachSettings, 'enabled'>;
+
+export const LIVE_COACH_LIMITS: Record<LiveCoachNumberSetting, { min: number; max: number }> = {
+  minWpm: { min: 40, max: 300 },
+  maxWpm: { min: 60, max: 400 },
+  windowSeconds: { min: 5, max: 120 },
+  fillerNudgeCount: { min: 1, max: 50 },
+};
+
+// The target pace range has to be at least this wide.
+export const MIN_WPM_GAP = 10;
+
+// The pace is too jumpy to show until this much speech time has passed.
+const MIN_PACE_SECONDS = 5;
+
+export type FillerCount = {
+  phrase: string;
+  count: number;
+};
+
+export type LiveCoachStats = {
+  wpm: number | null; // Null until there is enough speech to measure
+  fillers: FillerCount[];
+  fillerTotal: number;
+};
+
+export type LiveCoachNudge = {
+  kind: 'pace' | 'filler';
+  message: string;
+};
+
+// `times` holds one timestamp per recognized word. Interim results are often
+// revised, so a shorter word count drops the words that disappeared.
+export function trackWordTimes(times: number[], wordCount: number, now: number): number[] {
+  if (wordCount <= times.length) return times.slice(0, wordCount);
+  return [...times, ...Array<number>(wordCount - times.length).fill(now)];
+}
+
+export function rollingWordsPerMinute(times: number[], startedAt: number, now: number, windowSeconds: number): number | null {
+  const elapsedSeconds = (now - startedAt) / 1000;
+  if (elapsedSeconds < MIN_PACE_SECONDS) return null;
+  const windowStart = now - windowSeconds * 1000;
+  const recentWords = times.filter(time => time >= windowStart).length;
+  return Math.round((recentWords / Math.min(windowSeconds, elapsedSeconds)) * 60);
+}
+
+// Each recognizer result ends at a pause, so results are joined as separate
+// clauses; otherwise a clause-initial "like" or "so" would not count.
+export function countFillers(segments: string[]): FillerCount[] {
+  const counts = new Map<string, number>();
+  computeTextMetrics(segments.join('. '), 0).fillerWords.forEach(({ phrase }) => {
+    counts.set(phrase, (counts.get(phrase) ?? 0) + 1);
+  });
+  return [...counts.entries()].map(([phrase, count]) => ({ phrase, count })).sort((a, b) => b.count - a.count);
+}
+
+// Settings come from local storage, so anything missing or out of range falls back
+// to the defaults. A pace range that is inverted or too narrow is reset as a whole.
+export function normalizeLiveCoachSettings(settings: Partial<LiveCoachSettings>): LiveCoachSettings {
+  const normalized = { ...DEFAULT_LIVE_COACH_SETTINGS, enabled: settings.enabled ?? DEFAULT_LIVE_COACH_SETTINGS.enabled };
+  (Object.keys(LIVE_COACH_LIMITS) as LiveCoachNumberSetting[]).forEach(key => {
+    const value = settings[key];
+    const { min, max } = LIVE_COACH_LIMITS[key];
+    if (typeof value === 'number' && Number.isFinite(value)) normalized[key] = Math.min(max, Math.max(min, Math.round(value)));
+  });
+  if (normalized.maxWpm - normalized.minWpm < MIN_WPM_GAP) {
+    normalized.minWpm = DEFAULT_LIVE_COACH_SETTINGS.minWpm;
+    normalized.maxWpm = DEFAULT_LIVE_COACH_SETTINGS.maxWpm;
+  }
+  return normalized;
+}
+
+export function liveCoachNudges(stats: LiveCoachStats, settings: LiveCoachSettings): LiveCoachNudge[] {
+  const nudges: LiveCoachNudge[] = [];
+  if (stats.wpm !== null && stats.wpm > settings.maxWpm) {
+    nudges.push({ kind: 'pace', message: `Slow down a little - you're at ${stats.wpm} WPM.` });
+  } else if (stats.wpm !== null && stats.wpm > 0 && stats.wpm < settings.minWpm) {
+    nudges.push({ kind: 'pace', message: `You can pick up the pace a bit - you're at ${stats.wpm} WPM.` });
+  }
+  const topFiller = stats.fillers[0];
+  if (topFiller && topFiller.count >= settings.fillerNudgeCount) {
+    nudges.push({ kind: 'filler', message: `You've said "${topFiller.phrase}" ${topFiller.count} times. Try a short pause instead.` });
+  }
+  return nudges;
+}
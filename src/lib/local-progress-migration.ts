@@ -0,0 +1,73 @@
+/**
+ * @fileOverview One-time import of progress that older versions kept in localStorage.
+ *
+ * - readLocalProgress - Reads the interview and presentation attempts stored on this device.
+ * - hasMigratedLocalProgress / markLocalProgressMigrated - Track whether the import already ran for a user.
+ * - migrateLocalProgress - Bulk-inserts the local attempts into the user's Supabase tables.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/database.types';
+import type { StoredAttempt, StoredPresentationAttempt } from '@/lib/types';
+import { importInterviewAttempts } from '@/lib/supabase/interview-attempts';
+import { importPresentationAttempts } from '@/lib/supabase/presentation-attempts';
+
+export const LOCAL_INTERVIEW_PROGRESS_KEY = 'careerConfidenceProgress';
+export const LOCAL_PRESENTATION_PROGRESS_KEY = 'careerConfidencePresentationProgress';
+const MIGRATION_FLAG_PREFIX = 'careerConfidenceProgressMigrated:';
+
+export type LocalProgress = {
+  interviewAttempts: StoredAttempt[];
+  presentationAttempts: StoredPresentationAttempt[];
+};
+
+export type LocalProgressMigrationResult = {
+  interviewAttemptsImported: number;
+  presentationAttemptsImported: number;
+};
+
+function readArray<T>(key: string): T[] {
+  try {
+    const item = window.localStorage.getItem(key);
+    const parsed = item ? JSON.parse(item) : [];
+    return Array.isArray(parsed) ? (parsed as T[]) : [];
+  } catch (error) {
+    console.warn(`Error reading localStorage key “${key}”:`, error);
+    return [];
+  }
+}
+
+export function readLocalProgress(): LocalProgress {
+  if (typeof window === 'undefined') {
+    return { interviewAttempts: [], presentationAttempts: [] };
+  }
+  return {
+    interviewAttempts: readArray<StoredAttempt>(LOCAL_INTERVIEW_PROGRESS_KEY),
+    presentationAttempts: readArray<StoredPresentationAttempt>(LOCAL_PRESENTATION_PROGRESS_KEY),
+  };
+}
+
+export function hasMigratedLocalProgress(userId: string): boolean {
+  if (typeof window === 'undefined') return true;
+  return window.localStorage.getItem(MIGRATION_FLAG_PREFIX + userId) !== null;
+}
+
+export function markLocalProgressMigrated(userId: string) {
+  window.localStorage.setItem(MIGRATION_FLAG_PREFIX + userId, new Date().toISOString());
+}
+
+export async function migrateLocalProgress(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  progress: LocalProgress
+): Promise<LocalProgressMigrationResult> {
+  // Blob URLs from a previous page load are dead, so they are not carried over.
+  const interviewAttempts = progress.interviewAttempts.map(({ recordedVideoUrl, ...attempt }) => attempt);
+  const presentationAttempts = progress.presentationAttempts.map(({ recordedVideoUrl, ...attempt }) => attempt);
+
+  const interviewAttemptsImported = await importInterviewAttempts(supabase, userId, interviewAttempts);
+  const presentationAttemptsImported = await importPresentationAttempts(supabase, userId, presentationAttempts);
+  markLocalProgressMigrated(userId);
+
+  return { interviewAttemptsImported, presentationAttemptsImported };
+}
@@ -0,0 +1,118 @@
+/**
+ * @fileOverview Pause and silence detection on a recording's audio, run in the browser.
+ *
+ * Like the text metrics, these numbers are handed to the analysis prompts as
+ * fixed facts.
+ *
+ * - detectPauses - Finds speech and pauses in raw audio samples by frame energy.
+ * - analyzeRecordingPauses - Decodes a recorded blob with the Web Audio API and detects its pauses.
+ * - describePauseMetrics - Summarizes the metrics as text for a prompt.
+ * - PauseMetricsSchema / PauseMetrics - The shape of the computed metrics.
+ */
+
+import { z } from 'zod';
+import { decodeRecordingAudio } from '@/lib/recording-audio';
+
+// Silence between words shorter than this is normal articulation, not a pause.
+export const MIN_PAUSE_SECONDS = 0.75;
+// Pauses at least this long are called out as long hesitations.
+export const LONG_PAUSE_SECONDS = 3;
+
+const FRAME_SECONDS = 0.02;
+// Bursts of "speech" shorter than this are treated as clicks or breaths.
+const MIN_SPEECH_SECONDS = 0.1;
+// A frame is speech when it is this much louder than the noise floor...
+const SPEECH_MARGIN_DB = 12;
+// ...and at least this loud, so near-silent recordings are not all "speech".
+const MIN_SPEECH_DB = -55;
+
+export const PauseMetricsSchema = z.object({
+  pauseCount: z.number().describe('Silences of at least the minimum pause length between the first and last word.'),
+  longPauseCount: z.number().describe('Pauses of at least the long-pause length.'),
+  longestPauseSeconds: z.number(),
+  averagePauseSeconds: z.number(),
+  speechSeconds: z.number(),
+  silenceSeconds: z.number().describe('Silence between the first and last word.'),
+  speechToSilenceRatio: z.number().nullable().describe('Speech time divided by silence time; null when there was no silence.'),
+  timeToFirstWordSeconds: z.number().nullable().describe('Null when no speech was detected.'),
+});
+export type PauseMetrics = z.infer<typeof PauseMetricsSchema>;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export function detectPauses(samples: Float32Array, sampleRate: number): PauseMetrics {
+  const frameLength = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  const frameCount = Math.floor(samples.length / frameLength);
+  const frameDb = new Float32Array(frameCount);
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    for (let i = frame * frameLength; i < (frame + 1) * frameLength; i++) sum += samples[i] * samples[i];
+    frameDb[frame] = 10 * Math.log10(sum / frameLength + 1e-10);
+  }
+
+  // The quietest tenth of the recording is taken as the room's noise floor.
+  const sorted = [...frameDb].sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)] ?? -100;
+  const threshold = Math.max(noiseFloor + SPEECH_MARGIN_DB, MIN_SPEECH_DB);
+
+  // Runs of speech frames, with short blips dropped.
+  const minSpeechFrames = Math.ceil(MIN_SPEECH_SECONDS / FRAME_SECONDS);
+  const speechRuns: { start: number; end: number }[] = [];
+  let runStart = -1;
+  for (let frame = 0; frame <= frameCount; frame++) {
+    const isSpeech = frame < frameCount && frameDb[frame] >= threshold;
+    if (isSpeech && runStart < 0) runStart = frame;
+    if (!isSpeech && runStart >= 0) {
+      if (frame - runStart >= minSpeechFrames) speechRuns.push({ start: runStart, end: frame });
+      runStart = -1;
+    }
+  }
+
+  if (speechRuns.length === 0) {
+    return {
+      pauseCount: 0,
+      longPauseCount: 0,
+      longestPauseSeconds: 0,
+      averagePauseSeconds: 0,
+      speechSeconds: 0,
+      silenceSeconds: 0,
+      speechToSilenceRatio: null,
+      timeToFirstWordSeconds: null,
+    };
+  }
+
+  const gaps = speechRuns.slice(1).map((run, index) => (run.start - speechRuns[index].end) * FRAME_SECONDS);
+  const pauses = gaps.filter(gap => gap >= MIN_PAUSE_SECONDS);
+  const speechSeconds = speechRuns.reduce((total, run) => total + (run.end - run.start) * FRAME_SECONDS, 0);
+  const silenceSeconds = gaps.reduce((total, gap) => total + gap, 0);
+
+  return {
+    pauseCount: pauses.length,
+    longPauseCount: pauses.filter(pause => pause >= LONG_PAUSE_SECONDS).length,
+    longestPauseSeconds: round(Math.max(0, ...pauses)),
+    averagePauseSeconds: pauses.length > 0 ? round(pauses.reduce((total, pause) => total + pause, 0) / pauses.length) : 0,
+    speechSeconds: round(speechSeconds),
+    silenceSeconds: round(silenceSeconds),
+    speechToSilenceRatio: silenceSeconds > 0 ? round(speechSeconds / silenceSeconds) : null,
+    timeToFirstWordSeconds: round(speechRuns[0].start * FRAME_SECONDS),
+  };
+}
+
+// Browser only. Returns null when the audio can't be decoded; the analysis then
+// goes ahead without pause metrics.
+export async function analyzeRecordingPauses(recording: Blob): Promise<PauseMetrics | null> {
+  const audio = await decodeRecordingAudio(recording);
+  return audio ? detectPauses(audio.samples, audio.sampleRate) : null;
+}
+
+export function describePauseMetrics(metrics: PauseMetrics): string {
+  if (metrics.timeToFirstWordSeconds === null) return 'no speech was detected in the audio';
+  return [
+    `${metrics.timeToFirstWordSeconds}s before the first word`,
+    `${metrics.pauseCount} pause${metrics.pauseCount === 1 ? '' : 's'} of ${MIN_PAUSE_SECONDS}s or more`,
+    `${metrics.longPauseCount} of them ${LONG_PAUSE_SECONDS}s or longer`,
+    `longest pause ${metrics.longestPauseSeconds}s`,
+    `${metrics.speechSeconds}s of speech to ${metrics.silenceSeconds}s of silence` +
+      (metrics.speechToSilenceRatio !== null ? ` (ratio ${metrics.speechToSilenceRatio})` : ''),
+  ].join('; ');
+}
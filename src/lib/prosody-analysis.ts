@@ -0,0 +1,213 @@
+/**
+ * @fileOverview Vocal delivery metrics on a recording's audio, run in the browser:
+ * loudness over time, pitch (F0) range and variation, and monotone stretches.
+ *
+ * Like the pause metrics, these numbers are handed to the analysis prompts as
+ * fixed facts.
+ *
+ * - analyzeProsody - Computes the loudness and pitch series and their summary stats from raw audio samples.
+ * - describeProsodyMetrics - Summarizes the metrics as text for a prompt.
+ * - ProsodyMetricsSchema / ProsodyMetrics - The shape of the computed metrics.
+ */
+
+import { z } from 'zod';
+
+// Speech with less pitch spread than this (standard deviation, in semitones) sounds flat.
+export const MONOTONE_SEMITONES = 2;
+// A flat stretch is only called monotone once it lasts this long.
+export const MONOTONE_MIN_SECONDS = 8;
+
+const FRAME_SECONDS = 0.04;
+// Series points are averaged over this many seconds so long recordings stay chartable.
+const SERIES_STEP_SECONDS = 1;
+// Pitch is estimated on audio decimated to roughly this rate; speech F0 is far below its Nyquist.
+const PITCH_SAMPLE_RATE = 8000;
+const MIN_PITCH_HZ = 75;
+const MAX_PITCH_HZ = 400;
+// YIN's aperiodicity threshold: frames above it are treated as unvoiced.
+const YIN_THRESHOLD = 0.15;
+// Same speech gate as the pause detector: above the noise floor by a margin, and above an absolute floor.
+const SPEECH_MARGIN_DB = 12;
+const MIN_SPEECH_DB = -55;
+
+const SeriesPointSchema = z.object({
+  time: z.number().describe('Seconds from the start of the recording.'),
+  value: z.number().nullable().describe('Null where there was no speech.'),
+});
+
+export const ProsodyMetricsSchema = z.object({
+  loudness: z.array(SeriesPointSchema).describe('Average loudness in dBFS over time.'),
+  pitch: z.array(SeriesPointSchema).describe('Median pitch in Hz over time.'),
+  averageLoudnessDb: z.number().nullable(),
+  loudnessRangeDb: z.number().nullable().describe('Spread between the quiet and loud ends of speech (10th to 90th percentile).'),
+  medianPitchHz: z.number().nullable(),
+  pitchRangeSemitones: z.number().nullable().describe('Spread between the low and high ends of the voice (10th to 90th percentile).'),
+  pitchVariationSemitones: z.number().nullable().describe('Standard deviation of pitch around the median.'),
+  monotoneSegments: z.array(z.object({ start: z.number(), end: z.number() })),
+  monotoneShare: z.number().describe('Fraction of voiced speech inside monotone segments, 0 to 1.'),
+});
+export type ProsodyMetrics = z.infer<typeof ProsodyMetricsSchema>;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const percentile = (sorted: number[], fraction: number) => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const toSemitones = (hz: number, referenceHz: number) => 12 * Math.log2(hz / referenceHz);
+
+const standardDeviation = (values: number[]) => {
+  const mean = values.reduce((total, value) => total + value, 0) / values.length;
+  return Math.sqrt(values.reduce((total, value) => total + (value - mean) ** 2, 0) / values.length);
+};
+
+// Box-filter decimation; crude, but enough to keep the pitch search cheap.
+function decimate(samples: Float32Array, factor: number): Float32Array {
+  if (factor <= 1) return samples;
+  const output = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < output.length; i++) {
+    let sum = 0;
+    for (let j = i * factor; j < (i + 1) * factor; j++) sum += samples[j];
+    output[i] = sum / factor;
+  }
+  return output;
+}
+
+// YIN pitch estimate for one frame, or null when it isn't clearly periodic.
+function estimatePitch(frame: Float32Array, sampleRate: number): number | null {
+  const minLag = Math.floor(sampleRate / MAX_PITCH_HZ);
+  const maxLag = Math.min(Math.ceil(sampleRate / MIN_PITCH_HZ), Math.floor(frame.length / 2));
+  const window = frame.length - maxLag;
+  const difference = new Float32Array(maxLag + 1);
+  for (let lag = 1; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = 0; i < window; i++) {
+      const delta = frame[i] - frame[i + lag];
+      sum += delta * delta;
+    }
+    difference[lag] = sum;
+  }
+
+  // Cumulative mean normalized difference; take the first dip under the threshold.
+  let runningSum = 0;
+  for (let lag = 1; lag <= maxLag; lag++) {
+    runningSum += difference[lag];
+    const normalized = runningSum > 0 ? (difference[lag] * lag) / runningSum : 1;
+    difference[lag] = normalized;
+  }
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (difference[lag] < YIN_THRESHOLD) {
+      while (lag + 1 <= maxLag && difference[lag + 1] < difference[lag]) lag++;
+      return sampleRate / lag;
+    }
+  }
+  return null;
+}
+
+export function analyzeProsody(samples: Float32Array, sampleRate: number): ProsodyMetrics {
+  const frameLength = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  const frameCount = Math.floor(samples.length / frameLength);
+
+  const frameDb = new Float32Array(frameCount);
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    for (let i = frame * frameLength; i < (frame + 1) * frameLength; i++) sum += samples[i] * samples[i];
+    frameDb[frame] = 10 * Math.log10(sum / frameLength + 1e-10);
+  }
+  const sortedDb = [...frameDb].sort((a, b) => a - b);
+  const noiseFloor = percentile(sortedDb, 0.1) ?? -100;
+  const threshold = Math.max(noiseFloor + SPEECH_MARGIN_DB, MIN_SPEECH_DB);
+  const isSpeech = (frame: number) => frameDb[frame] >= threshold;
+
+  // Pitch only on speech frames, on decimated audio.
+  const factor = Math.max(1, Math.floor(sampleRate / PITCH_SAMPLE_RATE));
+  const pitchSamples = decimate(samples, factor);
+  const pitchRate = sampleRate / factor;
+  const pitchFrameLength = Math.round(pitchRate * FRAME_SECONDS);
+  const framePitch: (number | null)[] = [];
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = frame * pitchFrameLength;
+    framePitch.push(
+      isSpeech(frame) && start + pitchFrameLength <= pitchSamples.length
+        ? estimatePitch(pitchSamples.subarray(start, start + pitchFrameLength), pitchRate)
+        : null
+    );
+  }
+  const voicedFrames = framePitch.flatMap((hz, frame) => (hz !== null ? [{ frame, hz }] : []));
+  const medianPitchHz = voicedFrames.length > 0 ? median(voicedFrames.map(({ hz }) => hz)) : null;
+
+  // Downsampled series for charting.
+  const framesPerStep = Math.round(SERIES_STEP_SECONDS / FRAME_SECONDS);
+  const loudness: ProsodyMetrics['loudness'] = [];
+  const pitch: ProsodyMetrics['pitch'] = [];
+  for (let start = 0; start < frameCount; start += framesPerStep) {
+    const end = Math.min(frameCount, start + framesPerStep);
+    const speechDb: number[] = [];
+    const stepPitch: number[] = [];
+    for (let frame = start; frame < end; frame++) {
+      if (isSpeech(frame)) speechDb.push(frameDb[frame]);
+      if (framePitch[frame] !== null) stepPitch.push(framePitch[frame] as number);
+    }
+    const time = round(start * FRAME_SECONDS);
+    loudness.push({ time, value: speechDb.length > 0 ? round(speechDb.reduce((total, db) => total + db, 0) / speechDb.length) : null });
+    pitch.push({ time, value: stepPitch.length > 0 ? Math.round(median(stepPitch)) : null });
+  }
+
+  // Monotone: a sliding window of voiced frames whose pitch barely moves.
+  const monotoneSegments: ProsodyMetrics['monotoneSegments'] = [];
+  let monotoneFrames = 0;
+  if (medianPitchHz !== null) {
+    const windowFrames = Math.round(MONOTONE_MIN_SECONDS / FRAME_SECONDS);
+    const minVoiced = Math.round(windowFrames / 4); // Skip windows that are mostly silence
+    const flat = new Uint8Array(frameCount);
+    for (let start = 0; start + windowFrames <= frameCount; start += framesPerStep) {
+      const semitones = voicedFrames
+        .filter(({ frame }) => frame >= start && frame < start + windowFrames)
+        .map(({ hz }) => toSemitones(hz, medianPitchHz));
+      if (semitones.length >= minVoiced && standardDeviation(semitones) < MONOTONE_SEMITONES) {
+        flat.fill(1, start, start + windowFrames);
+      }
+    }
+    let runStart = -1;
+    for (let frame = 0; frame <= frameCount; frame++) {
+      const isFlat = frame < frameCount && flat[frame] === 1;
+      if (isFlat && runStart < 0) runStart = frame;
+      if (!isFlat && runStart >= 0) {
+        monotoneSegments.push({ start: round(runStart * FRAME_SECONDS), end: round(frame * FRAME_SECONDS) });
+        runStart = -1;
+      }
+    }
+    monotoneFrames = voicedFrames.filter(({ frame }) => flat[frame] === 1).length;
+  }
+
+  const speechDb = [...frameDb].filter(db => db >= threshold).sort((a, b) => a - b);
+  const semitones = medianPitchHz !== null ? voicedFrames.map(({ hz }) => toSemitones(hz, medianPitchHz)).sort((a, b) => a - b) : [];
+
+  return {
+    loudness,
+    pitch,
+    averageLoudnessDb: speechDb.length > 0 ? round(speechDb.reduce((total, db) => total + db, 0) / speechDb.length) : null,
+    loudnessRangeDb: speechDb.length > 0 ? round(percentile(speechDb, 0.9) - percentile(speechDb, 0.1)) : null,
+    medianPitchHz: medianPitchHz !== null ? Math.round(medianPitchHz) : null,
+    pitchRangeSemitones: semitones.length > 0 ? round(percentile(semitones, 0.9) - percentile(semitones, 0.1)) : null,
+    pitchVariationSemitones: semitones.length > 0 ? round(standardDeviation(semitones)) : null,
+    monotoneSegments,
+    monotoneShare: voicedFrames.length > 0 ? Math.round((monotoneFrames / voicedFrames.length) * 100) / 100 : 0,
+  };
+}
+
+export function describeProsodyMetrics(metrics: ProsodyMetrics): string {
+  if (metrics.medianPitchHz === null) return 'no voiced speech was detected in the audio';
+  const monotoneSeconds = metrics.monotoneSegments.reduce((total, segment) => total + segment.end - segment.start, 0);
+  return [
+    `median pitch ${metrics.medianPitchHz}Hz`,
+    `pitch range ${metrics.pitchRangeSemitones} semitones (variation ${metrics.pitchVariationSemitones} semitones; under ${MONOTONE_SEMITONES} sounds flat)`,
+    `loudness range ${metrics.loudnessRangeDb}dB`,
+    metrics.monotoneSegments.length > 0
+      ? `${metrics.monotoneSegments.length} monotone stretch${metrics.monotoneSegments.length === 1 ? '' : 'es'} totalling ${round(monotoneSeconds)}s (${Math.round(metrics.monotoneShare * 100)}% of voiced speech)`
+      : `no monotone stretches of ${MONOTONE_MIN_SECONDS}s or more`,
+  ].join('; ');
+}
@@ -0,0 +1,197 @@
+/**
+ * @fileOverview Parsing and filtering for the personal question bank.
+ *
+ * - parseQuestionImport - Reads questions from an uploaded CSV or JSON file.
+ * - filterBankQuestions - Applies the question bank filters to a list of questions.
+ * - QuestionBankFilters - The search, tag and starred filters of the question bank.
+ */
+
+import { z } from 'zod';
+import { difficultyLevels, interviewTypes, type BankQuestion, type BankQuestionDraft } from '@/lib/types';
+
+export const MAX_IMPORT_QUESTIONS = 500;
+export const MAX_BANK_QUESTION_LENGTH = 1000;
+export const MIN_BANK_QUESTION_LENGTH = 10;
+
+// The most questions that can be picked for one interview from the bank.
+export const MAX_BANK_INTERVIEW_QUESTIONS = 20;
+
+export type QuestionImportResult = {
+  questions: BankQuestionDraft[];
+  errors: string[]; // One message per skipped row
+};
+
+const ImportRowSchema = z.object({
+  question: z.string().trim().min(MIN_BANK_QUESTION_LENGTH).max(MAX_BANK_QUESTION_LENGTH),
+  jobRole: z.string().trim().max(50).optional(),
+  interviewType: z.string().trim().optional(),
+  difficultyLevel: z.string().trim().optional(),
+});
+
+// Column names accepted in CSV headers and JSON keys, lowercased with separators removed.
+const FIELD_ALIASES: Record<string, keyof z.infer<typeof ImportRowSchema>> = {
+  question: 'question',
+  text: 'question',
+  jobrole: 'jobRole',
+  role: 'jobRole',
+  interviewtype: 'interviewType',
+  type: 'interviewType',
+  difficultylevel: 'difficultyLevel',
+  difficulty: 'difficultyLevel',
+};
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[\s_-]/g, '');
+
+// Tags are matched case-insensitively against the known values.
+const matchOption = <T extends string>(options: readonly T[], value: string | undefined): T | undefined | null => {
+  if (!value) return undefined;
+  return options.find(option => option.toLowerCase() === value.toLowerCase()) ?? null;
+};
+
+function toDraft(raw: Record<string, unknown>, label: string, errors: string[]): BankQuestionDraft | null {
+  const row: Record<string, string> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const field = FIELD_ALIASES[normalizeKey(key)];
+    if (field && value !== null && value !== undefined && String(value).trim() !== '') row[field] = String(value);
+  }
+  const parsed = ImportRowSchema.safeParse(row);
+  if (!parsed.success) {
+    errors.push(`${label}: the question must be between ${MIN_BANK_QUESTION_LENGTH} and ${MAX_BANK_QUESTION_LENGTH} characters.`);
+    return null;
+  }
+  const interviewType = matchOption(interviewTypes, parsed.data.interviewType);
+  if (interviewType === null) {
+    errors.push(`${label}: unknown interview type "${parsed.data.interviewType}".`);
+    return null;
+  }
+  const difficultyLevel = matchOption(difficultyLevels, parsed.data.difficultyLevel);
+  if (difficultyLevel === null) {
+    errors.push(`${label}: unknown difficulty "${parsed.data.difficultyLevel}".`);
+    return null;
+  }
+  return {
+    question: parsed.data.question,
+    jobRole: parsed.data.jobRole || undefined,
+    interviewType,
+    difficultyLevel,
+    source: 'imported',
+  };
+}
+
+// Splits CSV text into rows of fields, following RFC 4180 quoting.
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+function parseCsv(text: string, errors: string[]): BankQuestionDraft[] {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  const hasHeader = header.some(column => FIELD_ALIASES[normalizeKey(column)] === 'question');
+  // Without a recognised header, every row is a single question in the first column.
+  const columns = hasHeader ? header : ['question'];
+  const dataRows = hasHeader ? rows : [header, ...rows];
+  const firstLine = hasHeader ? 2 : 1;
+  return dataRows.flatMap((fields, index) => {
+    const raw = Object.fromEntries(columns.map((column, i) => [column, fields[i]]));
+    const draft = toDraft(raw, `Row ${index + firstLine}`, errors);
+    return draft ? [draft] : [];
+  });
+}
+
+function parseJson(text: string, errors: string[]): BankQuestionDraft[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    errors.push('The file is not valid JSON.');
+    return [];
+  }
+  // Accepts either an array or an object with a `questions` array.
+  const items = Array.isArray(data) ? data : (data as { questions?: unknown })?.questions;
+  if (!Array.isArray(items)) {
+    errors.push('Expected a JSON array of questions.');
+    return [];
+  }
+  return items.flatMap((item, index) => {
+    const raw = typeof item === 'string' ? { question: item } : item;
+    if (!raw || typeof raw !== 'object') {
+      errors.push(`Item ${index + 1}: expected a string or an object with a "question" field.`);
+      return [];
+    }
+    const draft = toDraft(raw as Record<string, unknown>, `Item ${index + 1}`, errors);
+    return draft ? [draft] : [];
+  });
+}
+
+export function parseQuestionImport(text: string, fileName: string): QuestionImportResult {
+  const errors: string[] = [];
+  const isJson = fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text);
+  const parsed = isJson ? parseJson(text, errors) : parseCsv(text, errors);
+
+  // Duplicates inside the file are dropped; duplicates of saved questions are skipped on insert.
+  const seen = new Set<string>();
+  const questions = parsed.filter(draft => {
+    const key = draft.question.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  if (questions.length > MAX_IMPORT_QUESTIONS) {
+    errors.push(`Only the first ${MAX_IMPORT_QUESTIONS} questions were imported.`);
+  }
+  return { questions: questions.slice(0, MAX_IMPORT_QUESTIONS), errors };
+}
+
+export type QuestionBankFilters = {
+  search?: string;
+  jobRole?: string;
+  interviewType?: BankQuestion['interviewType'];
+  difficultyLevel?: BankQuestion['difficultyLevel'];
+  starredOnly?: boolean;
+};
+
+export function filterBankQuestions(questions: BankQuestion[], filters: QuestionBankFilters): BankQuestion[] {
+  const search = filters.search?.trim().toLowerCase();
+  const jobRole = filters.jobRole?.trim().toLowerCase();
+  return questions.filter(question =>
+    (!search || question.question.toLowerCase().includes(search)) &&
+    (!jobRole || (question.jobRole?.toLowerCase().includes(jobRole) ?? false)) &&
+    (!filters.interviewType || question.interviewType === filters.interviewType) &&
+    (!filters.difficultyLevel || question.difficultyLevel === filters.difficultyLevel) &&
+    (!filters.starredOnly || question.starred)
+  );
+}
@@ -0,0 +1,31 @@
+/**
+ * @fileOverview Decodes a recorded blob into raw audio samples with the Web Audio API.
+ *
+ * - decodeRecordingAudio - Mono samples and their sample rate, or null when the audio can't be decoded.
+ */
+
+export type RecordingAudio = {
+  samples: Float32Array;
+  sampleRate: number;
+};
+
+// Browser only. Video recordings are fine; only their audio track is decoded.
+export async function decodeRecordingAudio(recording: Blob): Promise<RecordingAudio | null> {
+  if (typeof window === 'undefined' || !window.AudioContext) return null;
+  const context = new AudioContext();
+  try {
+    const audio = await context.decodeAudioData(await recording.arrayBuffer());
+    // Mix down to mono.
+    const samples = new Float32Array(audio.length);
+    for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+      const data = audio.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) samples[i] += data[i] / audio.numberOfChannels;
+    }
+    return { samples, sampleRate: audio.sampleRate };
+  } catch (error) {
+    console.warn('Could not decode the recording audio:', error);
+    return null;
+  } finally {
+    context.close().catch(() => {});
+  }
+}
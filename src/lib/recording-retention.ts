@@ -0,0 +1,68 @@
+/**
+ * @fileOverview Storage quota and retention rules for saved recordings.
+ *
+ * - checkRecordingQuota - Decides whether a new upload fits in the user's quota.
+ * - selectRecordingsToDelete - Applies a retention policy to a user's recordings.
+ */
+
+// Fallback when the database's recording_quota_bytes() can't be read. The
+// database enforces its own value on upload, so keep the two in step.
+export const DEFAULT_RECORDING_QUOTA_BYTES = 500 * 1024 * 1024;
+// Warn once usage after the upload would pass this share of the quota.
+export const QUOTA_WARNING_RATIO = 0.8;
+
+export interface RetentionPolicy {
+  keepLastN: number | null; // Keep only the N most recent recordings
+  maxAgeDays: number | null; // Delete recordings older than this many days
+}
+
+export interface StoredRecording {
+  path: string;
+  sizeBytes: number;
+  createdAt: number;
+}
+
+export interface QuotaCheck {
+  allowed: boolean;
+  nearLimit: boolean;
+  usedBytes: number;
+  quotaBytes: number;
+}
+
+export interface RetentionReport {
+  dryRun: boolean;
+  recordings: StoredRecording[]; // Recordings that are (or would be) deleted
+  freedBytes: number;
+  remainingBytes: number;
+}
+
+export function checkRecordingQuota(usedBytes: number, incomingBytes: number, quotaBytes: number): QuotaCheck {
+  const projected = usedBytes + incomingBytes;
+  return {
+    allowed: projected <= quotaBytes,
+    nearLimit: projected > quotaBytes * QUOTA_WARNING_RATIO,
+    usedBytes,
+    quotaBytes,
+  };
+}
+
+export function selectRecordingsToDelete(
+  recordings: StoredRecording[],
+  policy: RetentionPolicy,
+  now: number = Date.now()
+): StoredRecording[] {
+  const newestFirst = [...recordings].sort((a, b) => b.createdAt - a.createdAt);
+  const cutoff = policy.maxAgeDays !== null ? now - policy.maxAgeDays * 24 * 60 * 60 * 1000 : null;
+
+  return newestFirst.filter((recording, index) => {
+    if (policy.keepLastN !== null && index >= policy.keepLastN) return true;
+    if (cutoff !== null && recording.createdAt < cutoff) return true;
+    return false;
+  });
+}
+
+export function buildRetentionReport(recordings: StoredRecording[], toDelete: StoredRecording[], dryRun: boolean): RetentionReport {
+  const freedBytes = toDelete.reduce((total, recording) => total + recording.sizeBytes, 0);
+  const usedBytes = recordings.reduce((total, recording) => total + recording.sizeBytes, 0);
+  return { dryRun, recordings: toDelete, freedBytes, remainingBytes: usedBytes - freedBytes };
+}
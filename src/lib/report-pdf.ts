@@ -0,0 +1,355 @@
+/**
+ * @fileOverview Server-side PDF rendering of interview and presentation reports, for sharing with mentors.
+ *
+ * - renderAttemptReportPdf - One interview answer with its feedback and communication metrics.
+ * - renderSessionReportPdf - A whole interview session: the readiness report followed by every answer.
+ * - renderPresentationReportPdf - One presentation with its five sub-scores and feedback.
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage, type RGB } from 'pdf-lib';
+import { format } from 'date-fns';
+import type { InterviewSession, StoredAttempt, StoredPresentationAttempt } from '@/lib/types';
+import { buildCompetencyCoverage } from '@/lib/job-description';
+import { starComponentLabels } from '@/lib/star-analysis';
+import type { PauseMetrics } from '@/lib/pause-analysis';
+import type { ProsodyMetrics } from '@/lib/prosody-analysis';
+import type { PresentationScoreKey } from '@/lib/score-trends';
+
+// A4 in points.
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const COLORS = {
+  text: rgb(0.12, 0.12, 0.15),
+  muted: rgb(0.42, 0.42, 0.48),
+  primary: rgb(0.25, 0.32, 0.71),
+  good: rgb(0.13, 0.55, 0.3),
+  bad: rgb(0.78, 0.2, 0.2),
+  track: rgb(0.9, 0.9, 0.93),
+};
+
+const PRESENTATION_SCORE_LABELS: Record<PresentationScoreKey, string> = {
+  structureScore: 'Structure & Flow',
+  clarityScore: 'Clarity',
+  engagementScore: 'Engagement',
+  timeManagementScore: 'Time Management',
+  fillerWordsScore: 'Use of Filler Words',
+};
+
+// The standard PDF fonts only cover WinAnsi, so swap common typographic characters
+// for ASCII and drop anything else that cannot be encoded.
+function toWinAnsi(text: string): string {
+  return text
+    .replace(/[‘’‚′]/g, "'")
+    .replace(/[“”„″]/g, '"')
+    .replace(/[–—−]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/•/g, '-')
+    .replace(/\t/g, '  ')
+    .replace(/[^\n\x20-\x7E\xA0-\xFF]/g, '');
+}
+
+const scoreColor = (score: number): RGB => (score >= 70 ? COLORS.good : score >= 50 ? COLORS.primary : COLORS.bad);
+
+type ReportWriter = ReturnType<typeof createReportWriter>;
+
+// Lays content out top to bottom, starting a new page whenever the next block does not fit.
+function createReportWriter(doc: PDFDocument, regular: PDFFont, bold: PDFFont) {
+  let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  const wrap = (text: string, font: PDFFont, size: number, width: number): string[] => {
+    const lines: string[] = [];
+    for (const paragraph of toWinAnsi(text).split('\n')) {
+      let line = '';
+      for (const word of paragraph.split(/ +/)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (font.widthOfTextAtSize(candidate, size) <= width) {
+          line = candidate;
+          continue;
+        }
+        if (line) lines.push(line);
+        // Break words that are wider than the whole line, such as long URLs.
+        let rest = word;
+        while (font.widthOfTextAtSize(rest, size) > width) {
+          let cut = rest.length - 1;
+          while (cut > 1 && font.widthOfTextAtSize(rest.slice(0, cut), size) > width) cut--;
+          lines.push(rest.slice(0, cut));
+          rest = rest.slice(cut);
+        }
+        line = rest;
+      }
+      lines.push(line);
+    }
+    return lines;
+  };
+
+  const text = (value: string, { size = 10, font = regular, color = COLORS.text, indent = 0 }: { size?: number; font?: PDFFont; color?: RGB; indent?: number } = {}) => {
+    const lineHeight = size * 1.35;
+    for (const line of wrap(value, font, size, CONTENT_WIDTH - indent)) {
+      ensureSpace(lineHeight);
+      y -= lineHeight;
+      page.drawText(line, { x: MARGIN + indent, y, size, font, color });
+    }
+  };
+
+  return {
+    title(value: string, subtitle?: string) {
+      text(value, { size: 20, font: bold, color: COLORS.primary });
+      if (subtitle) text(subtitle, { size: 10, color: COLORS.muted });
+      y -= 8;
+      page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 1, color: COLORS.track });
+      y -= 6;
+    },
+    heading(value: string) {
+      // Keep a heading together with at least a couple of lines of its content.
+      ensureSpace(50);
+      y -= 10;
+      text(value, { size: 13, font: bold, color: COLORS.primary });
+      y -= 2;
+    },
+    label(value: string) {
+      ensureSpace(30);
+      y -= 4;
+      text(value, { size: 10, font: bold });
+    },
+    paragraph(value: string, options?: { color?: RGB; indent?: number }) {
+      text(value.trim() || '(none)', options);
+    },
+    bullets(items: string[]) {
+      if (items.length === 0) {
+        text('(none)', { color: COLORS.muted });
+        return;
+      }
+      items.forEach(item => text(`- ${item}`, { indent: 8 }));
+    },
+    keyValues(pairs: [string, string][]) {
+      pairs.forEach(([key, value]) => text(`${key}: ${value}`));
+    },
+    scoreBar(label: string, score: number) {
+      const barHeight = 8;
+      ensureSpace(30);
+      y -= 14;
+      page.drawText(toWinAnsi(label), { x: MARGIN, y, size: 10, font: regular, color: COLORS.text });
+      const scoreText = `${Math.round(score)}/100`;
+      page.drawText(scoreText, { x: PAGE_WIDTH - MARGIN - bold.widthOfTextAtSize(scoreText, 10), y, size: 10, font: bold, color: scoreColor(score) });
+      y -= barHeight + 4;
+      page.drawRectangle({ x: MARGIN, y, width: CONTENT_WIDTH, height: barHeight, color: COLORS.track });
+      const filled = (CONTENT_WIDTH * Math.max(0, Math.min(100, score))) / 100;
+      if (filled > 0) page.drawRectangle({ x: MARGIN, y, width: filled, height: barHeight, color: scoreColor(score) });
+    },
+    spacer(height = 8) {
+      y -= height;
+    },
+    pageBreak() {
+      page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    },
+  };
+}
+
+async function createReport() {
+  const doc = await PDFDocument.create();
+  const [regular, bold] = await Promise.all([
+    doc.embedFont(StandardFonts.Helvetica),
+    doc.embedFont(StandardFonts.HelveticaBold),
+  ]);
+  return { doc, writer: createReportWriter(doc, regular, bold) };
+}
+
+const formatDate = (timestamp: number) => format(new Date(timestamp), 'PPP p');
+
+function writeAttempt(writer: ReportWriter, attempt: StoredAttempt) {
+  const { evaluation, communicationAnalysis } = attempt;
+  writer.scoreBar(attempt.followUps?.length ? 'Score (including follow-ups)' : 'Score', evaluation.score);
+
+  writer.heading('Question');
+  writer.paragraph(attempt.question);
+  writer.heading('Transcript');
+  writer.paragraph(attempt.userAnswer || '(No text was transcribed for this attempt.)');
+  if (attempt.followUps && attempt.followUps.length > 0) {
+    writer.heading('Follow-up Questions');
+    attempt.followUps.forEach(exchange => {
+      writer.label(exchange.question);
+      writer.paragraph(exchange.answer || '(No text was transcribed for this answer.)', { indent: 8 });
+    });
+  }
+
+  if (attempt.starAnalysis) {
+    writer.heading('STAR Structure');
+    writer.scoreBar('STAR Completeness', attempt.starAnalysis.completeness);
+    attempt.starAnalysis.ratings.forEach(rating => {
+      writer.label(`${starComponentLabels[rating.component]}: ${rating.status}`);
+      writer.paragraph(rating.feedback, { color: COLORS.muted, indent: 8 });
+    });
+    if (attempt.starAnalysis.issues.length > 0) {
+      writer.label('Flagged spans');
+      writer.bullets(attempt.starAnalysis.issues.map(issue => `"${issue.quote}" - ${issue.issue}`));
+    }
+  }
+
+  if (evaluation.rubric && evaluation.rubric.length > 0) {
+    writer.heading(evaluation.rubricName ? `Rubric Breakdown: ${evaluation.rubricName}` : 'Rubric Breakdown');
+    evaluation.rubric.forEach(item => {
+      writer.scoreBar(item.name, item.score);
+      writer.paragraph(item.justification, { color: COLORS.muted, indent: 8 });
+    });
+  }
+
+  writer.heading('Strengths');
+  writer.paragraph(evaluation.strengths, { color: COLORS.good });
+  writer.heading('Areas for Improvement');
+  writer.paragraph(evaluation.weaknesses, { color: COLORS.bad });
+  if (evaluation.competencyFeedback) {
+    writer.heading('Competency');
+    writer.paragraph(evaluation.competencyFeedback);
+  }
+  writer.heading('Model Answer');
+  writer.paragraph(evaluation.modelAnswer);
+
+  if (communicationAnalysis) {
+    writer.heading('Communication Metrics');
+    const metrics = communicationAnalysis.textMetrics;
+    writer.keyValues([
+      ['Speaking pace', `${communicationAnalysis.speakingPaceWPM} WPM`],
+      ['Filler words', communicationAnalysis.fillerWordsFound.length > 0
+        ? `${communicationAnalysis.fillerWordsFound.length} (${Array.from(new Set(communicationAnalysis.fillerWordsFound)).join(', ')})`
+        : 'None'],
+      ...(metrics ? [
+        ['Word count', String(metrics.wordCount)],
+        ['Average sentence length', `${metrics.averageSentenceLength.toFixed(1)} words`],
+        ['Hedging phrases', String(metrics.hedgePhrases.length)],
+        ['Lexical diversity', metrics.lexicalDiversity.toFixed(2)],
+      ] as [string, string][] : []),
+      ...(attempt.recordingDurationSeconds ? [['Answer length', `${Math.round(attempt.recordingDurationSeconds)}s`]] as [string, string][] : []),
+      ...pauseRows(communicationAnalysis.pauseMetrics),
+    ]);
+    writer.label('Clarity');
+    writer.paragraph(communicationAnalysis.clarityFeedback);
+    writer.label('Confidence Cues');
+    writer.paragraph(communicationAnalysis.confidenceCues);
+    writer.label('Pace');
+    writer.paragraph(communicationAnalysis.paceFeedback);
+  }
+}
+
+export async function renderAttemptReportPdf(attempt: StoredAttempt): Promise<Uint8Array> {
+  const { doc, writer } = await createReport();
+  const { jobRole, interviewType, difficultyLevel } = attempt.settings;
+  writer.title('Interview Answer Report', `${jobRole} - ${interviewType} - ${difficultyLevel} - ${formatDate(attempt.timestamp)}`);
+  writeAttempt(writer, attempt);
+  return doc.save();
+}
+
+export async function renderSessionReportPdf(session: InterviewSession, attempts: StoredAttempt[]): Promise<Uint8Array> {
+  const { doc, writer } = await createReport();
+  const { jobRole, interviewType, difficultyLevel } = session.settings;
+  writer.title('Interview Session Report', `${jobRole} - ${interviewType} - ${difficultyLevel} - ${formatDate(session.timestamp)}`);
+
+  const { report } = session;
+  if (report) {
+    writer.scoreBar('Interview Readiness', report.readinessScore);
+    writer.spacer(4);
+    writer.paragraph(report.readinessSummary);
+    writer.heading('Recurring Strengths');
+    writer.bullets(report.recurringStrengths);
+    writer.heading('Recurring Weaknesses');
+    writer.bullets(report.recurringWeaknesses);
+    writer.heading('Improvement Plan');
+    report.improvementPlan.forEach((step, index) => {
+      writer.label(`${index + 1}. ${step.focus}`);
+      writer.paragraph(step.action, { indent: 12 });
+    });
+  }
+
+  if (session.jobAnalysis) {
+    writer.heading(`Competency Coverage (${session.jobAnalysis.seniority} ${session.jobAnalysis.jobTitle})`);
+    buildCompetencyCoverage(session.jobAnalysis.competencies, session.questions).forEach(item => {
+      if (item.averageScore !== null) {
+        writer.scoreBar(item.competency.name, item.averageScore);
+      } else {
+        writer.label(item.competency.name);
+        writer.paragraph(item.questionCount > 0 ? 'Not answered' : 'Not asked', { color: COLORS.muted });
+      }
+    });
+  }
+
+  const attemptsById = new Map(attempts.map(attempt => [attempt.id, attempt]));
+  session.questions.forEach((question, index) => {
+    const attempt = question.attemptId ? attemptsById.get(question.attemptId) : undefined;
+    writer.pageBreak();
+    writer.title(`Question ${index + 1} of ${session.questions.length}`, question.competency ? `Competency: ${question.competency}` : undefined);
+    if (attempt) {
+      writeAttempt(writer, attempt);
+    } else {
+      writer.paragraph(question.question);
+      writer.paragraph('This question was not answered.', { color: COLORS.muted });
+    }
+  });
+
+  return doc.save();
+}
+
+// Rows for the pauses measured from a recording, if any.
+function pauseRows(metrics?: PauseMetrics): [string, string][] {
+  if (!metrics || metrics.timeToFirstWordSeconds === null) return [];
+  return [
+    ['Time to first word', `${metrics.timeToFirstWordSeconds}s`],
+    ['Pauses', metrics.pauseCount > 0 ? `${metrics.pauseCount} (longest ${metrics.longestPauseSeconds}s)` : 'None'],
+    ['Speech to silence', metrics.speechToSilenceRatio !== null ? `${metrics.speechToSilenceRatio} : 1` : 'No silence'],
+  ];
+}
+
+// Rows for the vocal delivery measured from a recording, if any.
+function prosodyRows(metrics?: ProsodyMetrics): [string, string][] {
+  if (!metrics || metrics.medianPitchHz === null) return [];
+  return [
+    ['Pitch range', `${metrics.pitchRangeSemitones} semitones (median ${metrics.medianPitchHz} Hz)`],
+    ['Volume range', `${metrics.loudnessRangeDb} dB`],
+    ['Monotone', metrics.monotoneSegments.length > 0 ? `${Math.round(metrics.monotoneShare * 100)}% of speech` : 'None'],
+  ];
+}
+
+export async function renderPresentationReportPdf(attempt: StoredPresentationAttempt): Promise<Uint8Array> {
+  const { doc, writer } = await createReport();
+  const { analysis, settings } = attempt;
+  writer.title('Presentation Report', `${settings.topic} - ${formatDate(attempt.timestamp)}`);
+  writer.keyValues([
+    ['Audience', settings.targetAudience],
+    ['Target time', settings.timeFrame],
+    ['Actual time', `${Math.floor(attempt.actualDurationSeconds / 60)}m ${Math.round(attempt.actualDurationSeconds % 60)}s`],
+    ['Speaking pace', `${analysis.speakingPaceWPM} WPM`],
+    ['Filler words', String(analysis.fillerWordsFound.length)],
+    ...pauseRows(analysis.pauseMetrics),
+    ...prosodyRows(analysis.prosodyMetrics),
+  ]);
+
+  writer.heading('Scores');
+  (Object.keys(PRESENTATION_SCORE_LABELS) as PresentationScoreKey[]).forEach(key => {
+    writer.scoreBar(PRESENTATION_SCORE_LABELS[key], analysis[key]);
+  });
+
+  writer.heading('Structure & Flow');
+  writer.paragraph(analysis.structureFeedback);
+  writer.heading('Clarity');
+  writer.paragraph(analysis.clarityFeedback);
+  writer.heading('Engagement');
+  writer.paragraph(analysis.engagementFeedback);
+  writer.heading('Pace');
+  writer.paragraph(analysis.paceFeedback);
+  writer.heading('Time Management');
+  writer.paragraph(analysis.timeManagementFeedback);
+  writer.heading('Transcript');
+  writer.paragraph(attempt.transcript || '(No text was transcribed for this presentation.)');
+
+  return doc.save();
+}
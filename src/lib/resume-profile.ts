@@ -0,0 +1,38 @@
+/**
+ * @fileOverview The structured profile extracted from an uploaded resume.
+ *
+ * - ResumeProfileSchema / ResumeProfile - Experience, skills and projects pulled from the resume.
+ * - detectResumeFormat - Works out whether an upload is a PDF, DOCX or plain text file.
+ */
+
+import { z } from 'zod';
+
+export const MAX_RESUME_BYTES = 5 * 1024 * 1024;
+export const RESUME_ACCEPT = '.pdf,.docx,.txt,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/plain';
+
+export type ResumeFormat = 'pdf' | 'docx' | 'text';
+
+export const ResumeProfileSchema = z.object({
+  summary: z.string().describe('A one or two sentence summary of the candidate\'s background.'),
+  experience: z.array(z.object({
+    company: z.string(),
+    title: z.string(),
+    period: z.string().optional().describe('e.g. "2021 - 2024"'),
+    highlights: z.array(z.string()).describe('Concrete achievements, ideally with results.'),
+  })).describe('Work experience, most recent first.'),
+  skills: z.array(z.string()).describe('Technical and professional skills.'),
+  projects: z.array(z.object({
+    name: z.string(),
+    description: z.string(),
+  })).describe('Notable projects, including side projects.'),
+});
+export type ResumeProfile = z.infer<typeof ResumeProfileSchema>;
+
+// Browsers are inconsistent about MIME types for uploads, so fall back to the extension.
+export function detectResumeFormat(fileName: string, mimeType: string): ResumeFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (mimeType === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || extension === 'docx') return 'docx';
+  if (mimeType === 'text/plain' || extension === 'txt') return 'text';
+  return null;
+}
@@ -0,0 +1,25 @@
+/**
+ * @fileOverview Server-side text extraction for uploaded resumes.
+ *
+ * - extractResumeText - Returns the plain text of a PDF, DOCX or text file.
+ */
+
+import { extractText, getDocumentProxy } from 'unpdf';
+import mammoth from 'mammoth';
+import type { ResumeFormat } from '@/lib/resume-profile';
+
+// Long resumes are truncated; the profile only needs the highlights.
+const MAX_RESUME_CHARACTERS = 20000;
+
+export async function extractResumeText(data: ArrayBuffer, format: ResumeFormat): Promise<string> {
+  let text: string;
+  if (format === 'pdf') {
+    const pdf = await getDocumentProxy(new Uint8Array(data));
+    ({ text } = await extractText(pdf, { mergePages: true }));
+  } else if (format === 'docx') {
+    ({ value: text } = await mammoth.extractRawText({ buffer: Buffer.from(data) }));
+  } else {
+    text = new TextDecoder().decode(data);
+  }
+  return text.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim().slice(0, MAX_RESUME_CHARACTERS);
+}
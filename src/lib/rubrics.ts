@@ -0,0 +1,176 @@
+/**
+ * @fileOverview Weighted rubrics for grading interview answers.
+ *
+ * - interviewRubrics - The built-in criteria and weights for each interview type.
+ * - RubricCriterionSchema / RubricCriterion - One weighted criterion, with optional anchors per score level.
+ * - Rubric / RubricDraft - A named custom rubric saved by the user, and its editable fields.
+ * - validateRubricDraft - Checks a custom rubric before it is saved.
+ * - assignCriterionIds - Derives stable criterion ids from the criterion names.
+ * - CriterionResultSchema / CriterionResult - One criterion's score and justification.
+ * - computeRubricScore - Combines per-criterion scores into the overall score using the weights.
+ */
+
+import { z } from 'zod';
+import type { InterviewType } from '@/lib/types';
+
+// Anchors describe what an answer at a given score level looks like for a criterion.
+export const rubricScoreLevels = [
+  { score: 100, label: 'Excellent' },
+  { score: 75, label: 'Good' },
+  { score: 50, label: 'Fair' },
+  { score: 25, label: 'Poor' },
+] as const;
+
+export const MAX_RUBRIC_CRITERIA = 10;
+
+export const RubricAnchorSchema = z.object({
+  score: z.number().min(0).max(100),
+  description: z.string(),
+});
+export type RubricAnchor = z.infer<typeof RubricAnchorSchema>;
+
+export const RubricCriterionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  weight: z.number().positive(), // Relative; weights do not have to sum to 1
+  anchors: z.array(RubricAnchorSchema).optional(),
+});
+export type RubricCriterion = z.infer<typeof RubricCriterionSchema>;
+
+export type Rubric = {
+  id: string;
+  name: string;
+  description: string;
+  criteria: RubricCriterion[];
+  updatedAt: number;
+  ownerId: string;
+  shared: boolean; // Visible to every user; only the owner can change it
+};
+
+export type RubricDraft = Pick<Rubric, 'name' | 'description' | 'criteria'>;
+
+const relevance: RubricCriterion = {
+  id: 'relevance',
+  name: 'Relevance',
+  description: 'Answers the question that was asked and stays on topic for the role.',
+  weight: 0.2,
+};
+
+const structure: RubricCriterion = {
+  id: 'structure',
+  name: 'Structure',
+  description: 'Is organized and easy to follow, with a clear beginning, middle and end.',
+  weight: 0.15,
+};
+
+export const interviewRubrics: Record<InterviewType, RubricCriterion[]> = {
+  Technical: [
+    { id: 'correctness', name: 'Correctness', description: 'Technical statements are accurate and the proposed approach would work.', weight: 0.35 },
+    { id: 'depth', name: 'Depth', description: 'Goes beyond surface definitions: trade-offs, edge cases, complexity and alternatives.', weight: 0.25 },
+    relevance,
+    structure,
+    { id: 'evidence', name: 'Evidence', description: 'Backs claims with concrete examples from real projects.', weight: 0.05 },
+  ],
+  Behavioral: [
+    { id: 'evidence', name: 'Evidence', description: 'Describes a specific, real situation with the candidate\'s own actions and measurable results.', weight: 0.35 },
+    { ...structure, description: 'Follows a clear narrative such as Situation, Task, Action, Result.', weight: 0.25 },
+    relevance,
+    { id: 'self-reflection', name: 'Self-reflection', description: 'Shows what the candidate learned or would do differently.', weight: 0.2 },
+  ],
+  Situational: [
+    { id: 'judgement', name: 'Judgement', description: 'Proposes a sensible course of action and prioritizes correctly.', weight: 0.35 },
+    { id: 'depth', name: 'Depth', description: 'Considers stakeholders, risks and trade-offs rather than a single obvious step.', weight: 0.25 },
+    relevance,
+    structure,
+    { id: 'evidence', name: 'Evidence', description: 'Draws on similar past experience to support the approach.', weight: 0.05 },
+  ],
+  'General HR': [
+    relevance,
+    { id: 'motivation', name: 'Motivation & Fit', description: 'Shows genuine interest in the role and how the candidate\'s goals and values align with it.', weight: 0.3 },
+    { id: 'evidence', name: 'Evidence', description: 'Supports claims about themselves with concrete examples.', weight: 0.25 },
+    { ...structure, weight: 0.25 },
+  ],
+};
+
+// Returns a message describing the first problem, or null when the rubric can be saved.
+export function validateRubricDraft(draft: RubricDraft): string | null {
+  if (!draft.name.trim()) return 'Give the rubric a name.';
+  if (draft.criteria.length === 0) return 'Add at least one criterion.';
+  if (draft.criteria.length > MAX_RUBRIC_CRITERIA) return `A rubric can have at most ${MAX_RUBRIC_CRITERIA} criteria.`;
+  for (const criterion of draft.criteria) {
+    if (!criterion.name.trim()) return 'Every criterion needs a name.';
+    if (!criterion.description.trim()) return `Describe what "${criterion.name}" measures.`;
+    if (!(criterion.weight > 0)) return `The weight of "${criterion.name}" must be greater than zero.`;
+  }
+  const names = draft.criteria.map(criterion => criterion.name.trim().toLowerCase());
+  if (new Set(names).size !== names.length) return 'Criterion names must be unique.';
+  return null;
+}
+
+const toSlug = (text: string) => text.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+// The model echoes ids back, so they are short slugs of the names rather than random ids.
+export function assignCriterionIds(criteria: RubricCriterion[]): RubricCriterion[] {
+  const used = new Set<string>();
+  return criteria.map((criterion, index) => {
+    const slug = toSlug(criterion.name) || `criterion-${index + 1}`;
+    let id = slug;
+    for (let suffix = 2; used.has(id); suffix++) id = `${slug}-${suffix}`;
+    used.add(id);
+    return { ...criterion, id };
+  });
+}
+
+export const CriterionResultSchema = z.object({
+  criterionId: z.string().describe('The id of the criterion, exactly as given.'),
+  score: z.number().min(0).max(100).describe('The score for this criterion out of 100.'),
+  justification: z.string().describe('One or two sentences explaining the score, citing the answer.'),
+});
+export type CriterionResult = z.infer<typeof CriterionResultSchema>;
+
+// A graded criterion as stored on the evaluation, with its name and weight at grading time.
+export const RubricScoreSchema = CriterionResultSchema.extend({
+  name: z.string(),
+  weight: z.number(),
+});
+export type RubricScore = z.infer<typeof RubricScoreSchema>;
+
+// Finds the model's result for each criterion: by exact id, then by an id or name
+// the model reworded, then by position when it returned one result per criterion.
+function matchCriterionResults(criteria: RubricCriterion[], results: CriterionResult[]): (CriterionResult | undefined)[] {
+  const unclaimed = new Set(results);
+  const claim = (result: CriterionResult | undefined) => {
+    if (result) unclaimed.delete(result);
+    return result;
+  };
+  const matches = criteria.map(criterion => claim(results.find(item => item.criterionId === criterion.id)));
+  criteria.forEach((criterion, index) => {
+    if (matches[index]) return;
+    const keys = [toSlug(criterion.id), toSlug(criterion.name)];
+    matches[index] = claim([...unclaimed].find(item => keys.includes(toSlug(item.criterionId))));
+  });
+  if (results.length === criteria.length) {
+    criteria.forEach((_, index) => {
+      if (!matches[index] && unclaimed.has(results[index])) matches[index] = claim(results[index]);
+    });
+  }
+  return matches;
+}
+
+// Joins the model's results onto the criteria. Criteria the model skipped are left
+// out and the remaining weights are renormalized; throws if nothing matched, so a
+// failed grade is never stored as a score of 0.
+export function computeRubricScore(criteria: RubricCriterion[], results: CriterionResult[]): { score: number; rubric: RubricScore[] } {
+  const matches = matchCriterionResults(criteria, results);
+  const rubric = criteria.flatMap((criterion, index) => {
+    const result = matches[index];
+    return result ? [{ ...result, criterionId: criterion.id, name: criterion.name, weight: criterion.weight }] : [];
+  });
+  if (rubric.length === 0) {
+    throw new Error('The evaluation did not score any of the rubric criteria.');
+  }
+  const totalWeight = rubric.reduce((sum, item) => sum + item.weight, 0);
+  const score = rubric.reduce((sum, item) => sum + item.score * item.weight, 0) / totalWeight;
+  return { score: Math.round(score), rubric };
+}
@@ -0,0 +1,86 @@
+/**
+ * @fileOverview Turns saved attempts into chart-ready score trends.
+ *
+ * - rollingAverage - Trailing moving average of a series.
+ * - buildInterviewTrend - One row per interview attempt, with the score under its interview type.
+ * - buildPresentationTrend - One row per presentation attempt, with each sub-score.
+ * - overallPresentationScore - Averages a presentation attempt's sub-scores.
+ * - findScoreExtremes - Finds the best and worst attempt by a score.
+ */
+
+import { interviewTypes } from '@/lib/types';
+import type { InterviewType, StoredAttempt, StoredPresentationAttempt } from '@/lib/types';
+
+// Number of attempts averaged together when smoothing a trend.
+export const ROLLING_WINDOW = 5;
+
+export const presentationScoreKeys = [
+  'structureScore',
+  'clarityScore',
+  'engagementScore',
+  'timeManagementScore',
+  'fillerWordsScore',
+] as const;
+export type PresentationScoreKey = typeof presentationScoreKeys[number];
+
+export type InterviewTrendPoint = {
+  id: string;
+  timestamp: number;
+} & Partial<Record<InterviewType, number>>;
+
+export type PresentationTrendPoint = {
+  id: string;
+  timestamp: number;
+} & Record<PresentationScoreKey, number>;
+
+export function rollingAverage(values: number[], window: number = ROLLING_WINDOW): number[] {
+  return values.map((_, index) => {
+    const slice = values.slice(Math.max(0, index - window + 1), index + 1);
+    return Math.round(slice.reduce((total, value) => total + value, 0) / slice.length);
+  });
+}
+
+// Rows are oldest first. Each row only has a value for its own interview type;
+// with `smooth` set, that value is the rolling average within the type.
+export function buildInterviewTrend(attempts: StoredAttempt[], smooth = false): InterviewTrendPoint[] {
+  const sorted = [...attempts].sort((a, b) => a.timestamp - b.timestamp);
+  const points: InterviewTrendPoint[] = sorted.map(attempt => ({ id: attempt.id, timestamp: attempt.timestamp }));
+
+  for (const type of interviewTypes) {
+    const indexes = sorted.flatMap((attempt, index) => attempt.settings.interviewType === type ? [index] : []);
+    const scores = indexes.map(index => sorted[index].evaluation.score);
+    const values = smooth ? rollingAverage(scores) : scores;
+    indexes.forEach((pointIndex, i) => { points[pointIndex][type] = values[i]; });
+  }
+  return points;
+}
+
+export function buildPresentationTrend(attempts: StoredPresentationAttempt[], smooth = false): PresentationTrendPoint[] {
+  const sorted = [...attempts].sort((a, b) => a.timestamp - b.timestamp);
+  const series = Object.fromEntries(presentationScoreKeys.map(key => {
+    const scores = sorted.map(attempt => attempt.analysis[key]);
+    return [key, smooth ? rollingAverage(scores) : scores];
+  })) as Record<PresentationScoreKey, number[]>;
+
+  return sorted.map((attempt, index) => ({
+    id: attempt.id,
+    timestamp: attempt.timestamp,
+    ...Object.fromEntries(presentationScoreKeys.map(key => [key, series[key][index]])) as Record<PresentationScoreKey, number>,
+  }));
+}
+
+// The average of the five presentation sub-scores.
+export function overallPresentationScore(attempt: StoredPresentationAttempt): number {
+  return Math.round(presentationScoreKeys.reduce((total, key) => total + attempt.analysis[key], 0) / presentationScoreKeys.length);
+}
+
+export function findScoreExtremes<T>(items: T[], score: (item: T) => number): { best: T; worst: T } | null {
+  if (items.length === 0) return null;
+  let best = items[0];
+  let worst = items[0];
+  for (const item of items) {
+    if (score(item) > score(best)) best = item;
+    if (score(item) < score(worst)) worst = item;
+  }
+  return { best, worst };
+}
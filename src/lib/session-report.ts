@@ -0,0 +1,69 @@
+/**
+ * @fileOverview Helpers for building an interview session and the input to its summary report.
+ *
+ * - buildSessionQuestions - Pairs each question of a run with the attempt that answered it.
+ * - averageSessionScore - The mean score of a session's answered questions.
+ * - toSessionSummaryInput - Builds the summarizeInterviewSession input from a session's attempts.
+ */
+
+import type { InterviewSession, SessionQuestion, StoredAttempt } from '@/lib/types';
+import type { SummarizeInterviewSessionInput } from '@/ai/flows/summarize-interview-session';
+
+// `attemptsByQuestion[i]` is the latest saved attempt for question i.
+export function buildSessionQuestions(
+  questions: string[],
+  questionCompetencies: string[],
+  attemptsByQuestion: Record<number, StoredAttempt>
+): SessionQuestion[] {
+  return questions.map((question, index) => {
+    const attempt = attemptsByQuestion[index];
+    return {
+      question,
+      competency: questionCompetencies[index],
+      attemptId: attempt?.id,
+      score: attempt?.evaluation.score,
+      communicationAnalysis: attempt?.communicationAnalysis,
+    };
+  });
+}
+
+export function averageSessionScore(questions: SessionQuestion[]): number | null {
+  const scores = questions
+    .map(question => question.score)
+    .filter((score): score is number => score !== undefined);
+  if (scores.length === 0) return null;
+  return Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length);
+}
+
+export function toSessionSummaryInput(
+  settings: InterviewSession['settings'],
+  questions: SessionQuestion[],
+  attempts: StoredAttempt[]
+): SummarizeInterviewSessionInput {
+  const attemptsById = new Map(attempts.map(attempt => [attempt.id, attempt]));
+  const answers = questions.flatMap((question, index) => {
+    const attempt = question.attemptId ? attemptsById.get(question.attemptId) : undefined;
+    if (!attempt) return [];
+    const communication = attempt.communicationAnalysis;
+    return [{
+      // Numbered as the user saw them, so skipped questions leave gaps.
+      number: index + 1,
+      question: attempt.question,
+      answer: attempt.userAnswer,
+      score: attempt.evaluation.score,
+      strengths: attempt.evaluation.strengths,
+      weaknesses: attempt.evaluation.weaknesses,
+      competency: question.competency,
+      clarityFeedback: communication?.clarityFeedback,
+      speakingPaceWPM: communication?.speakingPaceWPM,
+      fillerWordCount: communication?.fillerWordsFound.length,
+    }];
+  });
+  return {
+    jobRole: settings.jobRole,
+    interviewType: settings.interviewType,
+    difficulty: settings.difficultyLevel,
+    averageScore: averageSessionScore(questions) ?? 0,
+    answers,
+  };
+}
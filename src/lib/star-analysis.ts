@@ -0,0 +1,92 @@
+/**
+ * @fileOverview STAR-method (Situation, Task, Action, Result) analysis of behavioral answers.
+ *
+ * - starComponents - The four STAR parts, in narrative order.
+ * - StarAnalysisSchema / StarAnalysis - The answer split into STAR segments, with a rating per part and flagged spans.
+ * - starCompleteness - Scores how complete the STAR structure is, from the per-part ratings.
+ * - splitTranscriptBySegments - Splits a transcript into plain and STAR-highlighted pieces for display.
+ */
+
+import { z } from 'zod';
+
+export const starComponents = ['situation', 'task', 'action', 'result'] as const;
+export type StarComponent = typeof starComponents[number];
+
+export const starComponentLabels: Record<StarComponent, string> = {
+  situation: 'Situation',
+  task: 'Task',
+  action: 'Action',
+  result: 'Result',
+};
+
+export const starStatuses = ['strong', 'weak', 'missing'] as const;
+export type StarStatus = typeof starStatuses[number];
+
+const STATUS_CREDIT: Record<StarStatus, number> = { strong: 1, weak: 0.5, missing: 0 };
+
+export const StarSegmentSchema = z.object({
+  component: z.enum(starComponents),
+  quote: z.string().describe('A span copied word for word from the answer.'),
+});
+export type StarSegment = z.infer<typeof StarSegmentSchema>;
+
+export const StarComponentRatingSchema = z.object({
+  component: z.enum(starComponents),
+  status: z.enum(starStatuses).describe('"strong" if clear and specific, "weak" if present but vague, "missing" if absent.'),
+  feedback: z.string().describe('One sentence on what this part did well or what it lacks.'),
+});
+export type StarComponentRating = z.infer<typeof StarComponentRatingSchema>;
+
+export const StarIssueSchema = z.object({
+  component: z.enum(starComponents),
+  quote: z.string().describe('The span of the answer the issue is about, copied word for word.'),
+  issue: z.string().describe('What is wrong with the span, e.g. "Your Result is not quantified."'),
+});
+export type StarIssue = z.infer<typeof StarIssueSchema>;
+
+export const StarAnalysisSchema = z.object({
+  segments: z.array(StarSegmentSchema),
+  ratings: z.array(StarComponentRatingSchema),
+  issues: z.array(StarIssueSchema),
+  completeness: z.number().describe('How complete the STAR structure is, out of 100.'),
+});
+export type StarAnalysis = z.infer<typeof StarAnalysisSchema>;
+
+// Parts the model did not rate count as missing.
+export function starCompleteness(ratings: StarComponentRating[]): number {
+  const credit = starComponents.reduce((sum, component) => {
+    const rating = ratings.find(item => item.component === component);
+    return sum + (rating ? STATUS_CREDIT[rating.status] : 0);
+  }, 0);
+  return Math.round((credit / starComponents.length) * 100);
+}
+
+export type TranscriptPiece = {
+  text: string;
+  component?: StarComponent;
+};
+
+// Quotes are matched case-insensitively in order of appearance. Quotes that are not
+// found, or that overlap an earlier match, are left unhighlighted.
+export function splitTranscriptBySegments(transcript: string, segments: StarSegment[]): TranscriptPiece[] {
+  const haystack = transcript.toLowerCase();
+  const matches = segments
+    .map(segment => {
+      const quote = segment.quote.trim();
+      const start = quote ? haystack.indexOf(quote.toLowerCase()) : -1;
+      return { component: segment.component, start, end: start + quote.length };
+    })
+    .filter(match => match.start >= 0)
+    .sort((a, b) => a.start - b.start);
+
+  const pieces: TranscriptPiece[] = [];
+  let cursor = 0;
+  for (const match of matches) {
+    if (match.start < cursor) continue;
+    if (match.start > cursor) pieces.push({ text: transcript.slice(cursor, match.start) });
+    pieces.push({ text: transcript.slice(match.start, match.end), component: match.component });
+    cursor = match.end;
+  }
+  if (cursor < transcript.length) pieces.push({ text: transcript.slice(cursor) });
+  return pieces;
+}
@@ -0,0 +1,14 @@
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/database.types';
+
+// A service-role client that bypasses row level security. Server only: it is for
+// jobs that act on every user's data, never for requests made on a user's behalf.
+// Returns null when SUPABASE_SERVICE_ROLE_KEY isn't configured.
+export function createAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) return null;
+
+  return createClient<Database>(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
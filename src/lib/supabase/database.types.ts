@@ -14,16 +14,60 @@ export type Database = {
   }
   public: {
     Tables: {
+      bank_questions: {
+        Row: {
+          created_at: string
+          difficulty_level: string | null
+          id: string
+          interview_type: string | null
+          job_role: string | null
+          question: string
+          source: string
+          starred: boolean
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          difficulty_level?: string | null
+          id?: string
+          interview_type?: string | null
+          job_role?: string | null
+          question: string
+          source?: string
+          starred?: boolean
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          difficulty_level?: string | null
+          id?: string
+          interview_type?: string | null
+          job_role?: string | null
+          question?: string
+          source?: string
+          starred?: boolean
+          user_id?: string
+        }
+        Relationships: []
+      }
       interview_attempts: {
         Row: {
           communication_analysis: Json | null
           created_at: string
           evaluation: Json | null
+          follow_ups: Json | null
           id: string
+          pause_metrics: Json | null
           practice_mode: string | null
           question: string
           recording_duration_seconds: number | null
+          recording_path: string | null
+          score: number | null
+          search_vector: unknown | null
+          session_id: string | null
+          star_analysis: Json | null
           settings: Json | null
+          transcript_timings: Json | null
           user_answer: string | null
           user_id: string
         }
@@ -31,11 +75,19 @@ export type Database = {
           communication_analysis?: Json | null
           created_at?: string
           evaluation?: Json | null
+          follow_ups?: Json | null
           id?: string
+          pause_metrics?: Json | null
           practice_mode?: string | null
           question: string
           recording_duration_seconds?: number | null
+          recording_path?: string | null
+          score?: never
+          search_vector?: never
+          session_id?: string | null
+          star_analysis?: Json | null
           settings?: Json | null
+          transcript_timings?: Json | null
           user_answer?: string | null
           user_id: string
         }
@@ -43,14 +95,63 @@ export type Database = {
           communication_analysis?: Json | null
           created_at?: string
           evaluation?: Json | null
+          follow_ups?: Json | null
           id?: string
+          pause_metrics?: Json | null
           practice_mode?: string | null
           question?: string
           recording_duration_seconds?: number | null
+          recording_path?: string | null
+          score?: never
+          search_vector?: never
+          session_id?: string | null
+          star_analysis?: Json | null
           settings?: Json | null
+          transcript_timings?: Json | null
           user_answer?: string | null
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "interview_attempts_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "interview_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      interview_sessions: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          id: string
+          job_analysis: Json | null
+          questions: Json
+          report: Json | null
+          settings: Json
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          job_analysis?: Json | null
+          questions?: Json
+          report?: Json | null
+          settings: Json
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          job_analysis?: Json | null
+          questions?: Json
+          report?: Json | null
+          settings?: Json
+          user_id?: string
+        }
         Relationships: []
       }
       presentation_attempts: {
@@ -60,8 +161,10 @@ export type Database = {
           created_at: string
           id: string
           practice_mode: string | null
+          recording_path: string | null
           settings: Json | null
           transcript: string | null
+          transcript_timings: Json | null
           user_id: string
         }
         Insert: {
@@ -70,8 +173,10 @@ export type Database = {
           created_at?: string
           id?: string
           practice_mode?: string | null
+          recording_path?: string | null
           settings?: Json | null
           transcript?: string | null
+          transcript_timings?: Json | null
           user_id: string
         }
         Update: {
@@ -80,8 +185,10 @@ export type Database = {
           created_at?: string
           id?: string
           practice_mode?: string | null
+          recording_path?: string | null
           settings?: Json | null
           transcript?: string | null
+          transcript_timings?: Json | null
           user_id?: string
         }
         Relationships: []
@@ -107,12 +214,90 @@ export type Database = {
         }
         Relationships: []
       }
+      recording_settings: {
+        Row: {
+          keep_last_n: number | null
+          max_age_days: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          keep_last_n?: number | null
+          max_age_days?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          keep_last_n?: number | null
+          max_age_days?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      resume_profiles: {
+        Row: {
+          file_name: string | null
+          profile: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          file_name?: string | null
+          profile: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          file_name?: string | null
+          profile?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      rubrics: {
+        Row: {
+          created_at: string
+          criteria: Json
+          description: string | null
+          id: string
+          name: string
+          shared: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          criteria: Json
+          description?: string | null
+          id?: string
+          name: string
+          shared?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          criteria?: Json
+          description?: string | null
+          id?: string
+          name?: string
+          shared?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      recording_quota_bytes: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
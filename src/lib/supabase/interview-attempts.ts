@@ -0,0 +1,228 @@
+/**
+ * @fileOverview Data access for the `interview_attempts` table.
+ *
+ * - listInterviewAttempts - Loads the signed-in user's attempts, newest first.
+ * - listInterviewAttemptsSince - Loads the user's attempts from a point in time on, newest first.
+ * - searchInterviewAttempts - Loads one filtered page of the user's attempts, newest first.
+ * - getInterviewAttempt - Loads a single attempt.
+ * - listSessionAttempts - Loads the attempts of one interview session, in the order they were answered.
+ * - insertInterviewAttempt - Saves a new attempt for the user.
+ * - importInterviewAttempts - Bulk-inserts attempts, skipping ids that already exist.
+ * - updateInterviewAttempt - Updates fields of an existing attempt.
+ * - deleteInterviewAttempt - Removes an attempt.
+ * - rowToStoredAttempt / storedAttemptToRow - Map between table rows and `StoredAttempt`.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json, Tables, TablesInsert, TablesUpdate } from '@/lib/supabase/database.types';
+import type { FollowUpExchange, StoredAttempt } from '@/lib/types';
+import type { StarAnalysis } from '@/lib/star-analysis';
+import type { TranscriptTimings } from '@/lib/transcript-timing';
+import type { PauseMetrics } from '@/lib/pause-analysis';
+import { scoreBands, type InterviewHistoryFilters } from '@/lib/history-filters';
+import type { EvaluateAnswerOutput } from '@/ai/flows/evaluate-answer';
+import type { AnalyzeCommunicationOutput } from '@/ai/flows/analyze-communication-flow';
+
+type Client = SupabaseClient<Database>;
+type InterviewAttemptRow = Tables<'interview_attempts'>;
+
+const TABLE = 'interview_attempts';
+
+export type InterviewAttemptsPage = {
+  attempts: StoredAttempt[];
+  total: number;
+};
+
+export function rowToStoredAttempt(row: InterviewAttemptRow): StoredAttempt {
+  return {
+    id: row.id,
+    timestamp: new Date(row.created_at).getTime(),
+    question: row.question,
+    userAnswer: row.user_answer ?? '',
+    evaluation: row.evaluation as unknown as EvaluateAnswerOutput,
+    settings: row.settings as unknown as StoredAttempt['settings'],
+    communicationAnalysis: (row.communication_analysis as unknown as AnalyzeCommunicationOutput | null) ?? undefined,
+    recordingDurationSeconds: row.recording_duration_seconds ?? undefined,
+    recordingPath: row.recording_path ?? undefined,
+    practiceMode: row.practice_mode === 'video' ? 'video' : 'audio',
+    followUps: (row.follow_ups as unknown as FollowUpExchange[] | null) ?? undefined,
+    sessionId: row.session_id ?? undefined,
+    starAnalysis: (row.star_analysis as unknown as StarAnalysis | null) ?? undefined,
+    transcriptTimings: (row.transcript_timings as unknown as TranscriptTimings | null) ?? undefined,
+    pauseMetrics: (row.pause_metrics as unknown as PauseMetrics | null) ?? undefined,
+  };
+}
+
+export function storedAttemptToRow(attempt: StoredAttempt, userId: string): TablesInsert<'interview_attempts'> {
+  return {
+    id: attempt.id,
+    user_id: userId,
+    created_at: new Date(attempt.timestamp).toISOString(),
+    question: attempt.question,
+    user_answer: attempt.userAnswer,
+    evaluation: attempt.evaluation as unknown as Json,
+    settings: attempt.settings as unknown as Json,
+    communication_analysis: (attempt.communicationAnalysis as unknown as Json) ?? null,
+    // The column is an integer; recorded durations can be fractional.
+    recording_duration_seconds: attempt.recordingDurationSeconds !== undefined ? Math.round(attempt.recordingDurationSeconds) : null,
+    practice_mode: attempt.practiceMode,
+    recording_path: attempt.recordingPath ?? null,
+    follow_ups: (attempt.followUps as unknown as Json) ?? null,
+    session_id: attempt.sessionId ?? null,
+    star_analysis: (attempt.starAnalysis as unknown as Json) ?? null,
+    transcript_timings: (attempt.transcriptTimings as unknown as Json) ?? null,
+    pause_metrics: (attempt.pauseMetrics as unknown as Json) ?? null,
+  };
+}
+
+export async function listInterviewAttempts(supabase: Client, userId: string): Promise<StoredAttempt[]> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data.map(rowToStoredAttempt);
+}
+
+export async function listInterviewAttemptsSince(supabase: Client, userId: string, since: number): Promise<StoredAttempt[]> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select('*')
+    .eq('user_id', userId)
+    .gte('created_at', new Date(since).toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data.map(rowToStoredAttempt);
+}
+
+export async function searchInterviewAttempts(
+  supabase: Client,
+  userId: string,
+  filters: InterviewHistoryFilters,
+  { page = 0, pageSize = 20 }: { page?: number; pageSize?: number } = {}
+): Promise<InterviewAttemptsPage> {
+  let query = supabase
+    .from(TABLE)
+    .select('*', { count: 'exact' })
+    .eq('user_id', userId);
+
+  if (filters.search) query = query.textSearch('search_vector', filters.search, { type: 'websearch', config: 'english' });
+  if (filters.interviewType) query = query.eq('settings->>interviewType', filters.interviewType);
+  if (filters.difficultyLevel) query = query.eq('settings->>difficultyLevel', filters.difficultyLevel);
+  if (filters.jobRole) query = query.ilike('settings->>jobRole', `%${filters.jobRole}%`);
+  if (filters.practiceMode) query = query.eq('practice_mode', filters.practiceMode);
+  // Dates are whole days in the user's local time zone.
+  if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) {
+    const dayAfter = new Date(`${filters.to}T00:00:00`);
+    dayAfter.setDate(dayAfter.getDate() + 1);
+    query = query.lt('created_at', dayAfter.toISOString());
+  }
+  if (filters.scoreBand) {
+    const band = scoreBands[filters.scoreBand];
+    // Scores can be fractional, so the band's upper edge is exclusive of the next band.
+    query = query.gte('score', band.min).lt('score', band.max + 1);
+  }
+
+  const from = page * pageSize;
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(from, from + pageSize - 1);
+
+  if (error) throw error;
+  return { attempts: data.map(rowToStoredAttempt), total: count ?? 0 };
+}
+
+export async function getInterviewAttempt(supabase: Client, userId: string, attemptId: string): Promise<StoredAttempt | null> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select('*')
+    .eq('id', attemptId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? rowToStoredAttempt(data) : null;
+}
+
+export async function listSessionAttempts(supabase: Client, userId: string, sessionId: string): Promise<StoredAttempt[]> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select('*')
+    .eq('user_id', userId)
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data.map(rowToStoredAttempt);
+}
+
+export async function insertInterviewAttempt(supabase: Client, userId: string, attempt: StoredAttempt): Promise<StoredAttempt> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .insert(storedAttemptToRow(attempt, userId))
+    .select()
+    .single();
+
+  if (error) throw error;
+  return rowToStoredAttempt(data);
+}
+
+// Returns the number of attempts that were actually inserted.
+export async function importInterviewAttempts(supabase: Client, userId: string, attempts: StoredAttempt[]): Promise<number> {
+  if (attempts.length === 0) return 0;
+  const { data, error } = await supabase
+    .from(TABLE)
+    .upsert(attempts.map(attempt => storedAttemptToRow(attempt, userId)), { onConflict: 'id', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) throw error;
+  return data.length;
+}
+
+export async function updateInterviewAttempt(
+  supabase: Client,
+  userId: string,
+  attemptId: string,
+  changes: Partial<Omit<StoredAttempt, 'id'>>
+): Promise<StoredAttempt> {
+  const update: TablesUpdate<'interview_attempts'> = {};
+  if (changes.timestamp !== undefined) update.created_at = new Date(changes.timestamp).toISOString();
+  if (changes.question !== undefined) update.question = changes.question;
+  if (changes.userAnswer !== undefined) update.user_answer = changes.userAnswer;
+  if (changes.evaluation !== undefined) update.evaluation = changes.evaluation as unknown as Json;
+  if (changes.settings !== undefined) update.settings = changes.settings as unknown as Json;
+  if (changes.communicationAnalysis !== undefined) update.communication_analysis = changes.communicationAnalysis as unknown as Json;
+  if (changes.recordingDurationSeconds !== undefined) update.recording_duration_seconds = Math.round(changes.recordingDurationSeconds);
+  if (changes.practiceMode !== undefined) update.practice_mode = changes.practiceMode;
+  if (changes.recordingPath !== undefined) update.recording_path = changes.recordingPath;
+  if (changes.followUps !== undefined) update.follow_ups = changes.followUps as unknown as Json;
+  if (changes.sessionId !== undefined) update.session_id = changes.sessionId;
+  if (changes.starAnalysis !== undefined) update.star_analysis = changes.starAnalysis as unknown as Json;
+  if (changes.transcriptTimings !== undefined) update.transcript_timings = changes.transcriptTimings as unknown as Json;
+  if (changes.pauseMetrics !== undefined) update.pause_metrics = changes.pauseMetrics as unknown as Json;
+
+  const { data, error } = await supabase
+    .from(TABLE)
+    .update(update)
+    .eq('id', attemptId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return rowToStoredAttempt(data);
+}
+
+export async function deleteInterviewAttempt(supabase: Client, userId: string, attemptId: string): Promise<void> {
+  const { error } = await supabase
+    .from(TABLE)
+    .delete()
+    .eq('id', attemptId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
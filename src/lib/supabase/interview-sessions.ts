@@ -0,0 +1,107 @@
+/**
+ * @fileOverview Data access for the `interview_sessions` table.
+ *
+ * - listInterviewSessions - Loads one page of the user's finished sessions, newest first.
+ * - getInterviewSession - Loads a single session.
+ * - createInterviewSession - Saves a new session when an interview starts.
+ * - completeInterviewSession - Stores the final questions and the report when an interview finishes.
+ * - rowToInterviewSession - Maps a table row to an `InterviewSession`.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json, Tables } from '@/lib/supabase/database.types';
+import type { InterviewSession, SessionQuestion } from '@/lib/types';
+import type { JobDescriptionAnalysis } from '@/lib/job-description';
+import type { SummarizeInterviewSessionOutput } from '@/ai/flows/summarize-interview-session';
+
+type Client = SupabaseClient<Database>;
+type InterviewSessionRow = Tables<'interview_sessions'>;
+
+const TABLE = 'interview_sessions';
+
+export type InterviewSessionsPage = {
+  sessions: InterviewSession[];
+  total: number;
+};
+
+export function rowToInterviewSession(row: InterviewSessionRow): InterviewSession {
+  return {
+    id: row.id,
+    timestamp: new Date(row.created_at).getTime(),
+    completedAt: row.completed_at ? new Date(row.completed_at).getTime() : undefined,
+    settings: row.settings as unknown as InterviewSession['settings'],
+    questions: row.questions as unknown as SessionQuestion[],
+    jobAnalysis: (row.job_analysis as unknown as JobDescriptionAnalysis | null) ?? undefined,
+    report: (row.report as unknown as SummarizeInterviewSessionOutput | null) ?? undefined,
+  };
+}
+
+export async function listInterviewSessions(
+  supabase: Client,
+  userId: string,
+  { page = 0, pageSize = 10 }: { page?: number; pageSize?: number } = {}
+): Promise<InterviewSessionsPage> {
+  const from = page * pageSize;
+  const { data, error, count } = await supabase
+    .from(TABLE)
+    .select('*', { count: 'exact' })
+    .eq('user_id', userId)
+    .not('completed_at', 'is', null)
+    .order('created_at', { ascending: false })
+    .range(from, from + pageSize - 1);
+
+  if (error) throw error;
+  return { sessions: data.map(rowToInterviewSession), total: count ?? 0 };
+}
+
+export async function getInterviewSession(supabase: Client, userId: string, sessionId: string): Promise<InterviewSession | null> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select('*')
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? rowToInterviewSession(data) : null;
+}
+
+export async function createInterviewSession(supabase: Client, userId: string, session: InterviewSession): Promise<InterviewSession> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .insert({
+      id: session.id,
+      user_id: userId,
+      created_at: new Date(session.timestamp).toISOString(),
+      settings: session.settings as unknown as Json,
+      questions: session.questions as unknown as Json,
+      job_analysis: (session.jobAnalysis as unknown as Json) ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return rowToInterviewSession(data);
+}
+
+export async function completeInterviewSession(
+  supabase: Client,
+  userId: string,
+  sessionId: string,
+  { questions, report }: { questions: SessionQuestion[]; report?: SummarizeInterviewSessionOutput }
+): Promise<InterviewSession> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .update({
+      completed_at: new Date().toISOString(),
+      questions: questions as unknown as Json,
+      report: (report as unknown as Json) ?? null,
+    })
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return rowToInterviewSession(data);
+}
@@ -0,0 +1,182 @@
+/**
+ * @fileOverview Data access for the `presentation_attempts` table.
+ *
+ * - listPresentationAttempts - Loads one page of the user's attempts, sorted by `created_at`.
+ * - listPresentationAttemptsSince - Loads the user's attempts from a point in time on, newest first.
+ * - getPresentationAttempt - Loads a single attempt.
+ * - insertPresentationAttempt - Saves an analyzed presentation for the user.
+ * - importPresentationAttempts - Bulk-inserts attempts, skipping ids that already exist.
+ * - updatePresentationAttempt - Updates fields of an existing attempt.
+ * - deletePresentationAttempt - Removes an attempt.
+ * - rowToStoredPresentationAttempt / storedPresentationAttemptToRow - Map between table rows and `StoredPresentationAttempt`.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json, Tables, TablesInsert, TablesUpdate } from '@/lib/supabase/database.types';
+import type { StoredPresentationAttempt } from '@/lib/types';
+import type { AnalyzePresentationOutput } from '@/ai/flows/analyze-presentation-flow';
+import type { TranscriptTimings } from '@/lib/transcript-timing';
+
+type Client = SupabaseClient<Database>;
+type PresentationAttemptRow = Tables<'presentation_attempts'>;
+
+const TABLE = 'presentation_attempts';
+
+export type PresentationAttemptsPage = {
+  attempts: StoredPresentationAttempt[];
+  total: number;
+};
+
+export type ListPresentationAttemptsOptions = {
+  page?: number; // Zero-based page index
+  pageSize?: number;
+  ascending?: boolean;
+};
+
+export function rowToStoredPresentationAttempt(row: PresentationAttemptRow): StoredPresentationAttempt {
+  return {
+    id: row.id,
+    timestamp: new Date(row.created_at).getTime(),
+    settings: row.settings as unknown as StoredPresentationAttempt['settings'],
+    transcript: row.transcript ?? '',
+    analysis: row.analysis as unknown as AnalyzePresentationOutput,
+    actualDurationSeconds: row.actual_duration_seconds ?? 0,
+    recordingPath: row.recording_path ?? undefined,
+    practiceMode: row.practice_mode === 'video' ? 'video' : 'audio',
+    transcriptTimings: (row.transcript_timings as unknown as TranscriptTimings | null) ?? undefined,
+  };
+}
+
+export function storedPresentationAttemptToRow(attempt: StoredPresentationAttempt, userId: string): TablesInsert<'presentation_attempts'> {
+  return {
+    id: attempt.id,
+    user_id: userId,
+    created_at: new Date(attempt.timestamp).toISOString(),
+    settings: attempt.settings as unknown as Json,
+    transcript: attempt.transcript,
+    analysis: attempt.analysis as unknown as Json,
+    // The column is an integer; recorded durations can be fractional.
+    actual_duration_seconds: Math.round(attempt.actualDurationSeconds),
+    practice_mode: attempt.practiceMode,
+    recording_path: attempt.recordingPath ?? null,
+    transcript_timings: (attempt.transcriptTimings as unknown as Json) ?? null,
+  };
+}
+
+export async function listPresentationAttempts(
+  supabase: Client,
+  userId: string,
+  { page = 0, pageSize = 10, ascending = false }: ListPresentationAttemptsOptions = {}
+): Promise<PresentationAttemptsPage> {
+  const from = page * pageSize;
+  const { data, error, count } = await supabase
+    .from(TABLE)
+    .select('*', { count: 'exact' })
+    .eq('user_id', userId)
+    .order('created_at', { ascending })
+    .range(from, from + pageSize - 1);
+
+  if (error) throw error;
+  return { attempts: data.map(rowToStoredPresentationAttempt), total: count ?? data.length };
+}
+
+export async function listPresentationAttemptsSince(
+  supabase: Client,
+  userId: string,
+  since: number
+): Promise<StoredPresentationAttempt[]> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select('*')
+    .eq('user_id', userId)
+    .gte('created_at', new Date(since).toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data.map(rowToStoredPresentationAttempt);
+}
+
+export async function getPresentationAttempt(
+  supabase: Client,
+  userId: string,
+  attemptId: string
+): Promise<StoredPresentationAttempt | null> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select('*')
+    .eq('id', attemptId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? rowToStoredPresentationAttempt(data) : null;
+}
+
+export async function insertPresentationAttempt(
+  supabase: Client,
+  userId: string,
+  attempt: StoredPresentationAttempt
+): Promise<StoredPresentationAttempt> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .insert(storedPresentationAttemptToRow(attempt, userId))
+    .select()
+    .single();
+
+  if (error) throw error;
+  return rowToStoredPresentationAttempt(data);
+}
+
+// Returns the number of attempts that were actually inserted.
+export async function importPresentationAttempts(
+  supabase: Client,
+  userId: string,
+  attempts: StoredPresentationAttempt[]
+): Promise<number> {
+  if (attempts.length === 0) return 0;
+  const { data, error } = await supabase
+    .from(TABLE)
+    .upsert(attempts.map(attempt => storedPresentationAttemptToRow(attempt, userId)), { onConflict: 'id', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) throw error;
+  return data.length;
+}
+
+export async function updatePresentationAttempt(
+  supabase: Client,
+  userId: string,
+  attemptId: string,
+  changes: Partial<Omit<StoredPresentationAttempt, 'id'>>
+): Promise<StoredPresentationAttempt> {
+  const update: TablesUpdate<'presentation_attempts'> = {};
+  if (changes.timestamp !== undefined) update.created_at = new Date(changes.timestamp).toISOString();
+  if (changes.settings !== undefined) update.settings = changes.settings as unknown as Json;
+  if (changes.transcript !== undefined) update.transcript = changes.transcript;
+  if (changes.analysis !== undefined) update.analysis = changes.analysis as unknown as Json;
+  if (changes.actualDurationSeconds !== undefined) update.actual_duration_seconds = Math.round(changes.actualDurationSeconds);
+  if (changes.practiceMode !== undefined) update.practice_mode = changes.practiceMode;
+  if (changes.recordingPath !== undefined) update.recording_path = changes.recordingPath;
+  if (changes.transcriptTimings !== undefined) update.transcript_timings = changes.transcriptTimings as unknown as Json;
+
+  const { data, error } = await supabase
+    .from(TABLE)
+    .update(update)
+    .eq('id', attemptId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return rowToStoredPresentationAttempt(data);
+}
+
+export async function deletePresentationAttempt(supabase: Client, userId: string, attemptId: string): Promise<void> {
+  const { error } = await supabase
+    .from(TABLE)
+    .delete()
+    .eq('id', attemptId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
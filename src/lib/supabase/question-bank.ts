@@ -0,0 +1,101 @@
+/**
+ * @fileOverview Data access for the `bank_questions` table.
+ *
+ * - listBankQuestions - Loads the user's question bank, newest first.
+ * - getBankQuestions - Loads specific questions, in the order of the given ids.
+ * - saveBankQuestions - Adds questions to the bank, skipping ones that are already saved.
+ * - setBankQuestionStarred - Stars or unstars a question.
+ * - deleteBankQuestion - Removes a question from the bank.
+ * - rowToBankQuestion - Maps a table row to a `BankQuestion`.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables } from '@/lib/supabase/database.types';
+import { difficultyLevels, interviewTypes, type BankQuestion, type BankQuestionDraft } from '@/lib/types';
+
+type Client = SupabaseClient<Database>;
+type BankQuestionRow = Tables<'bank_questions'>;
+
+const TABLE = 'bank_questions';
+
+const bankQuestionSources: BankQuestion['source'][] = ['generated', 'imported', 'custom'];
+
+export function rowToBankQuestion(row: BankQuestionRow): BankQuestion {
+  return {
+    id: row.id,
+    timestamp: new Date(row.created_at).getTime(),
+    question: row.question,
+    jobRole: row.job_role ?? undefined,
+    interviewType: interviewTypes.find(type => type === row.interview_type),
+    difficultyLevel: difficultyLevels.find(level => level === row.difficulty_level),
+    starred: row.starred,
+    source: bankQuestionSources.find(source => source === row.source) ?? 'custom',
+  };
+}
+
+export async function listBankQuestions(supabase: Client, userId: string): Promise<BankQuestion[]> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data.map(rowToBankQuestion);
+}
+
+// Ids that are not in the user's bank (e.g. deleted since) are left out.
+export async function getBankQuestions(supabase: Client, userId: string, questionIds: string[]): Promise<BankQuestion[]> {
+  if (questionIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select('*')
+    .eq('user_id', userId)
+    .in('id', questionIds);
+
+  if (error) throw error;
+  const byId = new Map(data.map(row => [row.id, rowToBankQuestion(row)]));
+  return questionIds.flatMap(id => byId.get(id) ?? []);
+}
+
+// Returns the questions that were actually added.
+export async function saveBankQuestions(supabase: Client, userId: string, drafts: BankQuestionDraft[]): Promise<BankQuestion[]> {
+  if (drafts.length === 0) return [];
+  const { data, error } = await supabase
+    .from(TABLE)
+    .upsert(
+      drafts.map(draft => ({
+        user_id: userId,
+        question: draft.question,
+        job_role: draft.jobRole ?? null,
+        interview_type: draft.interviewType ?? null,
+        difficulty_level: draft.difficultyLevel ?? null,
+        source: draft.source,
+      })),
+      { onConflict: 'user_id,question', ignoreDuplicates: true }
+    )
+    .select();
+
+  if (error) throw error;
+  return data.map(rowToBankQuestion);
+}
+
+export async function setBankQuestionStarred(supabase: Client, userId: string, questionId: string, starred: boolean): Promise<void> {
+  const { error } = await supabase
+    .from(TABLE)
+    .update({ starred })
+    .eq('id', questionId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+export async function deleteBankQuestion(supabase: Client, userId: string, questionId: string): Promise<void> {
+  const { error } = await supabase
+    .from(TABLE)
+    .delete()
+    .eq('id', questionId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,103 @@
+/**
+ * @fileOverview Server-side bookkeeping for a user's saved recordings.
+ *
+ * - listUserRecordings - Lists every recording the user has in storage, with sizes.
+ * - getRecordingQuotaBytes - The per-user quota the database enforces on uploads.
+ * - getRetentionPolicy / saveRetentionPolicy - Read and write the user's `recording_settings` row.
+ * - listRetentionPolicies - Every user's policy that deletes anything; needs a service-role client.
+ * - deleteRecordings - Removes recordings and clears their paths from the attempt tables.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/database.types';
+import { RECORDINGS_BUCKET, type RecordingKind } from '@/lib/supabase/recordings';
+import { DEFAULT_RECORDING_QUOTA_BYTES, type RetentionPolicy, type StoredRecording } from '@/lib/recording-retention';
+
+type Client = SupabaseClient<Database>;
+
+const RECORDING_KINDS: RecordingKind[] = ['interview', 'presentation'];
+const LIST_PAGE_SIZE = 1000;
+
+export async function listUserRecordings(supabase: Client, userId: string): Promise<StoredRecording[]> {
+  const recordings: StoredRecording[] = [];
+  for (const kind of RECORDING_KINDS) {
+    const folder = `${userId}/${kind}`;
+    for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+      const { data, error } = await supabase.storage
+        .from(RECORDINGS_BUCKET)
+        .list(folder, { limit: LIST_PAGE_SIZE, offset });
+
+      if (error) throw error;
+      for (const file of data) {
+        // Folder placeholders have no id.
+        if (!file.id) continue;
+        recordings.push({
+          path: `${folder}/${file.name}`,
+          sizeBytes: Number(file.metadata?.size ?? 0),
+          createdAt: new Date(file.created_at).getTime(),
+        });
+      }
+      if (data.length < LIST_PAGE_SIZE) break;
+    }
+  }
+  return recordings;
+}
+
+export async function getRecordingQuotaBytes(supabase: Client): Promise<number> {
+  const { data, error } = await supabase.rpc('recording_quota_bytes');
+  if (error) {
+    console.warn('Could not read the recording quota; using the default:', error);
+    return DEFAULT_RECORDING_QUOTA_BYTES;
+  }
+  return Number(data);
+}
+
+export async function getRetentionPolicy(supabase: Client, userId: string): Promise<RetentionPolicy> {
+  const { data, error } = await supabase
+    .from('recording_settings')
+    .select('keep_last_n, max_age_days')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return { keepLastN: data?.keep_last_n ?? null, maxAgeDays: data?.max_age_days ?? null };
+}
+
+export async function saveRetentionPolicy(supabase: Client, userId: string, policy: RetentionPolicy): Promise<void> {
+  const { error } = await supabase
+    .from('recording_settings')
+    .upsert({
+      user_id: userId,
+      keep_last_n: policy.keepLastN,
+      max_age_days: policy.maxAgeDays,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) throw error;
+}
+
+export async function listRetentionPolicies(supabase: Client): Promise<{ userId: string; policy: RetentionPolicy }[]> {
+  const { data, error } = await supabase
+    .from('recording_settings')
+    .select('user_id, keep_last_n, max_age_days')
+    .or('keep_last_n.not.is.null,max_age_days.not.is.null');
+
+  if (error) throw error;
+  return data.map(row => ({ userId: row.user_id, policy: { keepLastN: row.keep_last_n, maxAgeDays: row.max_age_days } }));
+}
+
+export async function deleteRecordings(supabase: Client, userId: string, paths: string[]): Promise<void> {
+  if (paths.length === 0) return;
+  const { error } = await supabase.storage.from(RECORDINGS_BUCKET).remove(paths);
+  if (error) throw error;
+
+  for (const table of ['interview_attempts', 'presentation_attempts'] as const) {
+    const { error: updateError } = await supabase
+      .from(table)
+      .update({ recording_path: null })
+      .eq('user_id', userId)
+      .in('recording_path', paths);
+
+    if (updateError) throw updateError;
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * @fileOverview Storage helpers for recorded interview answers and presentations.
+ *
+ * - buildRecordingPath - Builds the per-user object path for an attempt's recording.
+ * - uploadRecording - Uploads a recording with resumable (TUS) chunked uploads.
+ * - getRecordingUrl - Creates a short-lived signed URL for playback.
+ * - deleteRecording - Removes a recording from storage.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Upload } from 'tus-js-client';
+import type { Database } from '@/lib/supabase/database.types';
+
+type Client = SupabaseClient<Database>;
+
+export const RECORDINGS_BUCKET = 'recordings';
+
+// Supabase's resumable upload endpoint only accepts 6MB chunks.
+const UPLOAD_CHUNK_SIZE = 6 * 1024 * 1024;
+const SIGNED_URL_EXPIRY_SECONDS = 60 * 60;
+
+export type RecordingKind = 'interview' | 'presentation';
+
+// The first folder must be the user id; the storage policies rely on it.
+export function buildRecordingPath(userId: string, kind: RecordingKind, attemptId: string, mimeType = 'video/webm'): string {
+  const extension = mimeType.includes('mp4') ? 'mp4' : 'webm';
+  return `${userId}/${kind}/${attemptId}.${extension}`;
+}
+
+export async function uploadRecording(
+  supabase: Client,
+  path: string,
+  recording: Blob,
+  onProgress?: (percentage: number) => void
+): Promise<string> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('You must be signed in to save recordings.');
+
+  return new Promise((resolve, reject) => {
+    const upload = new Upload(recording, {
+      endpoint: `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/upload/resumable`,
+      retryDelays: [0, 3000, 5000, 10000, 20000],
+      headers: {
+        authorization: `Bearer ${session.access_token}`,
+        'x-upsert': 'true',
+      },
+      uploadDataDuringCreation: true,
+      // Lets an interrupted upload of the same file pick up where it stopped.
+      removeFingerprintOnSuccess: true,
+      metadata: {
+        bucketName: RECORDINGS_BUCKET,
+        objectName: path,
+        contentType: recording.type || 'video/webm',
+        cacheControl: '3600',
+      },
+      chunkSize: UPLOAD_CHUNK_SIZE,
+      onError: reject,
+      onProgress: (bytesUploaded, bytesTotal) => {
+        onProgress?.(Math.round((bytesUploaded / bytesTotal) * 100));
+      },
+      onSuccess: () => resolve(path),
+    });
+
+    upload.findPreviousUploads().then((previousUploads) => {
+      if (previousUploads.length > 0) {
+        upload.resumeFromPreviousUpload(previousUploads[0]);
+      }
+      upload.start();
+    }, reject);
+  });
+}
+
+export async function getRecordingUrl(supabase: Client, path: string): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(RECORDINGS_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_EXPIRY_SECONDS);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+export async function deleteRecording(supabase: Client, path: string): Promise<void> {
+  const { error } = await supabase.storage.from(RECORDINGS_BUCKET).remove([path]);
+  if (error) throw error;
+}
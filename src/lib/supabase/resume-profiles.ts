@@ -0,0 +1,61 @@
+/**
+ * @fileOverview Data access for the `resume_profiles` table.
+ *
+ * - getResumeProfile - Loads the user's saved resume profile, if any.
+ * - saveResumeProfile - Saves (or replaces) the user's resume profile.
+ * - deleteResumeProfile - Removes the user's resume profile.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from '@/lib/supabase/database.types';
+import type { ResumeProfile } from '@/lib/resume-profile';
+
+type Client = SupabaseClient<Database>;
+
+const TABLE = 'resume_profiles';
+
+export type SavedResumeProfile = {
+  fileName: string | null;
+  profile: ResumeProfile;
+  updatedAt: number;
+};
+
+export async function getResumeProfile(supabase: Client, userId: string): Promise<SavedResumeProfile | null> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+  return {
+    fileName: data.file_name,
+    profile: data.profile as unknown as ResumeProfile,
+    updatedAt: new Date(data.updated_at).getTime(),
+  };
+}
+
+export async function saveResumeProfile(supabase: Client, userId: string, fileName: string, profile: ResumeProfile): Promise<SavedResumeProfile> {
+  const updatedAt = new Date();
+  const { error } = await supabase
+    .from(TABLE)
+    .upsert({
+      user_id: userId,
+      file_name: fileName,
+      profile: profile as unknown as Json,
+      updated_at: updatedAt.toISOString(),
+    });
+
+  if (error) throw error;
+  return { fileName, profile, updatedAt: updatedAt.getTime() };
+}
+
+export async function deleteResumeProfile(supabase: Client, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from(TABLE)
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,99 @@
+/**
+ * @fileOverview Data access for the `rubrics` table.
+ *
+ * - listRubrics - Loads the user's custom rubrics and the ones others shared, most recently edited first.
+ * - createRubric - Saves a new rubric for the user.
+ * - updateRubric - Replaces the name, description and criteria of a rubric.
+ * - setRubricShared - Shares a rubric with everyone, or makes it private again.
+ * - deleteRubric - Removes a rubric.
+ * - rowToRubric - Maps a table row to a `Rubric`.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json, Tables } from '@/lib/supabase/database.types';
+import type { Rubric, RubricCriterion, RubricDraft } from '@/lib/rubrics';
+
+type Client = SupabaseClient<Database>;
+type RubricRow = Tables<'rubrics'>;
+
+const TABLE = 'rubrics';
+
+export function rowToRubric(row: RubricRow): Rubric {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? '',
+    criteria: row.criteria as unknown as RubricCriterion[],
+    updatedAt: new Date(row.updated_at).getTime(),
+    ownerId: row.user_id,
+    shared: row.shared,
+  };
+}
+
+export async function listRubrics(supabase: Client, userId: string): Promise<Rubric[]> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select('*')
+    .or(`user_id.eq.${userId},shared.eq.true`)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return data.map(rowToRubric);
+}
+
+export async function createRubric(supabase: Client, userId: string, draft: RubricDraft): Promise<Rubric> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .insert({
+      user_id: userId,
+      name: draft.name,
+      description: draft.description || null,
+      criteria: draft.criteria as unknown as Json,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return rowToRubric(data);
+}
+
+export async function updateRubric(supabase: Client, userId: string, rubricId: string, draft: RubricDraft): Promise<Rubric> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .update({
+      name: draft.name,
+      description: draft.description || null,
+      criteria: draft.criteria as unknown as Json,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', rubricId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return rowToRubric(data);
+}
+
+export async function setRubricShared(supabase: Client, userId: string, rubricId: string, shared: boolean): Promise<Rubric> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .update({ shared })
+    .eq('id', rubricId)
+    .eq('user_id', userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return rowToRubric(data);
+}
+
+export async function deleteRubric(supabase: Client, userId: string, rubricId: string): Promise<void> {
+  const { error } = await supabase
+    .from(TABLE)
+    .delete()
+    .eq('id', rubricId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,146 @@
+/**
+ * @fileOverview Deterministic communication metrics computed from a transcript.
+ *
+ * These numbers are handed to the analysis prompts as fixed facts, so the model
+ * never has to count words or do arithmetic.
+ *
+ * - computeTextMetrics - Word count, pace, fillers, hedges, sentence stats and lexical diversity.
+ * - describeOccurrences - Summarizes matched phrases as text for a prompt.
+ * - wordTokens - The lowercased words of a text, as counted by the metrics.
+ * - TextMetricsSchema / TextMetrics - The shape of the computed metrics.
+ */
+
+import { z } from 'zod';
+
+export const FILLER_WORDS = [
+  'um', 'uh', 'er', 'ah', 'like', 'actually', 'basically', 'seriously',
+  'literally', 'you know', 'i mean', 'so', 'well', 'right', 'okay', 'see',
+] as const;
+
+// These are usually real words; they only count as fillers at the start of a
+// clause ("So, ...") or when set off by a comma ("..., right,").
+const CONTEXTUAL_FILLERS = new Set(['like', 'so', 'well', 'right', 'okay', 'see', 'actually']);
+
+export const HEDGE_PHRASES = [
+  'i guess', 'maybe', 'i think', 'sort of', 'kind of', 'probably', 'i suppose',
+  'perhaps', 'i feel like', 'not sure', 'i hope', 'hopefully', 'might',
+] as const;
+
+// Moving-average type-token ratio window; plain TTR is used for shorter texts.
+const LEXICAL_DIVERSITY_WINDOW = 50;
+
+const PhraseOccurrenceSchema = z.object({
+  phrase: z.string().describe('The matched phrase, lowercased.'),
+  wordIndex: z.number().describe('Zero-based index of the first word of the match.'),
+  charIndex: z.number().describe('Character offset of the match in the transcript.'),
+});
+export type PhraseOccurrence = z.infer<typeof PhraseOccurrenceSchema>;
+
+export const TextMetricsSchema = z.object({
+  wordCount: z.number(),
+  wordsPerMinute: z.number().nullable().describe('Null when the duration or the text is empty.'),
+  fillerWords: z.array(PhraseOccurrenceSchema),
+  hedgePhrases: z.array(PhraseOccurrenceSchema),
+  sentenceCount: z.number(),
+  averageSentenceLength: z.number().describe('Mean words per sentence.'),
+  longestSentenceLength: z.number(),
+  lexicalDiversity: z.number().min(0).max(1).describe('Moving-average type-token ratio; higher means more varied vocabulary.'),
+});
+export type TextMetrics = z.infer<typeof TextMetricsSchema>;
+
+type Token = {
+  word: string; // Lowercased
+  charIndex: number;
+  clauseStart: boolean; // First word of the text or after . , ! ? ; :
+  followedByComma: boolean;
+};
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /[A-Za-z0-9]+(?:'[A-Za-z]+)?/g;
+  let lastEnd = 0;
+  for (const match of text.matchAll(pattern)) {
+    const charIndex = match.index ?? 0;
+    const between = text.slice(lastEnd, charIndex);
+    lastEnd = charIndex + match[0].length;
+    tokens.push({
+      word: match[0].toLowerCase(),
+      charIndex,
+      clauseStart: tokens.length === 0 || /[.,!?;:]/.test(between),
+      followedByComma: /^\s*,/.test(text.slice(lastEnd)),
+    });
+  }
+  return tokens;
+}
+
+export function wordTokens(text: string): string[] {
+  return tokenize(text).map(token => token.word);
+}
+
+function findPhrases(tokens: Token[], phrases: readonly string[], accept: (phrase: string, start: Token, end: Token) => boolean): PhraseOccurrence[] {
+  // Longest phrases first so "i feel like" wins over "like".
+  const split = phrases.map(phrase => phrase.split(' ')).sort((a, b) => b.length - a.length);
+  const occurrences: PhraseOccurrence[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const match = split.find(words => words.every((word, offset) => tokens[i + offset]?.word === word));
+    if (!match) continue;
+    const phrase = match.join(' ');
+    const end = tokens[i + match.length - 1];
+    if (!accept(phrase, tokens[i], end)) continue;
+    occurrences.push({ phrase, wordIndex: i, charIndex: tokens[i].charIndex });
+    i += match.length - 1;
+  }
+  return occurrences;
+}
+
+function lexicalDiversity(words: string[]): number {
+  if (words.length === 0) return 0;
+  const ratio = (slice: string[]) => new Set(slice).size / slice.length;
+  if (words.length <= LEXICAL_DIVERSITY_WINDOW) return ratio(words);
+
+  let total = 0;
+  const windows = words.length - LEXICAL_DIVERSITY_WINDOW + 1;
+  for (let start = 0; start < windows; start++) {
+    total += ratio(words.slice(start, start + LEXICAL_DIVERSITY_WINDOW));
+  }
+  return total / windows;
+}
+
+export function computeTextMetrics(text: string, durationSeconds: number): TextMetrics {
+  const tokens = tokenize(text);
+  const wordCount = tokens.length;
+
+  const fillerWords = findPhrases(tokens, FILLER_WORDS, (phrase, start, end) =>
+    !CONTEXTUAL_FILLERS.has(phrase) || start.clauseStart || end.followedByComma
+  );
+  const hedgePhrases = findPhrases(tokens, HEDGE_PHRASES, () => true);
+
+  // Transcripts from speech recognition often have no punctuation; they count as one sentence.
+  const sentenceLengths = text
+    .split(/[.!?]+/)
+    .map(sentence => tokenize(sentence).length)
+    .filter(length => length > 0);
+  const sentenceCount = sentenceLengths.length;
+
+  return {
+    wordCount,
+    wordsPerMinute: durationSeconds > 0 && wordCount > 0 ? Math.round((wordCount / durationSeconds) * 60) : null,
+    fillerWords,
+    hedgePhrases,
+    sentenceCount,
+    averageSentenceLength: sentenceCount > 0 ? Math.round((wordCount / sentenceCount) * 10) / 10 : 0,
+    longestSentenceLength: sentenceCount > 0 ? Math.max(...sentenceLengths) : 0,
+    lexicalDiversity: Math.round(lexicalDiversity(tokens.map(token => token.word)) * 100) / 100,
+  };
+}
+
+// e.g. `"um" ×3, "like" ×1`, most frequent first.
+export function describeOccurrences(occurrences: PhraseOccurrence[]): string {
+  if (occurrences.length === 0) return 'none';
+  const counts = new Map<string, number>();
+  for (const { phrase } of occurrences) counts.set(phrase, (counts.get(phrase) ?? 0) + 1);
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([phrase, count]) => `"${phrase}" ×${count}`)
+    .join(', ');
+}
@@ -0,0 +1,85 @@
+/**
+ * @fileOverview Word- and segment-level timestamps of a transcribed recording.
+ *
+ * - TranscriptTimingsSchema / TranscriptTimings - Timed words and segments, in seconds.
+ * - toTranscriptTimings - Cleans up the timed words and segments a speech-to-text backend returned.
+ * - findActiveIndex - The word or segment being spoken at a playback time.
+ * - findFillerWordIndexes - Which timed words are filler words.
+ */
+
+import { z } from 'zod';
+import { computeTextMetrics, wordTokens } from '@/lib/text-metrics';
+
+const TranscriptWordSchema = z.object({
+  word: z.string(),
+  start: z.number(),
+  end: z.number(),
+});
+export type TranscriptWord = z.infer<typeof TranscriptWordSchema>;
+
+const TranscriptSegmentSchema = z.object({
+  text: z.string(),
+  start: z.number(),
+  end: z.number(),
+});
+export type TranscriptSegment = z.infer<typeof TranscriptSegmentSchema>;
+
+export const TranscriptTimingsSchema = z.object({
+  words: z.array(TranscriptWordSchema),
+  segments: z.array(TranscriptSegmentSchema),
+});
+export type TranscriptTimings = z.infer<typeof TranscriptTimingsSchema>;
+
+// Drops empty words and sorts by start time. Returns undefined when there are no timed words.
+export function toTranscriptTimings(words: TranscriptWord[], segments: TranscriptSegment[]): TranscriptTimings | undefined {
+  const clean = <T extends { start: number; end: number }>(items: T[], text: (item: T) => string) => items
+    .map(item => ({ ...item, start: Math.max(0, item.start), end: Math.max(item.start, item.end) }))
+    .filter(item => text(item).trim().length > 0)
+    .sort((a, b) => a.start - b.start);
+  const timedWords = clean(words, word => word.word).map(({ word, start, end }) => ({ word: word.trim(), start, end }));
+  if (timedWords.length === 0) return undefined;
+  return {
+    words: timedWords,
+    segments: clean(segments, segment => segment.text).map(({ text, start, end }) => ({ text: text.trim(), start, end })),
+  };
+}
+
+// Items must be sorted by start time. Returns -1 before the first item; between
+// items, the last one that started stays active.
+export function findActiveIndex(items: { start: number }[], time: number): number {
+  let low = 0;
+  let high = items.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (items[middle].start <= time) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+}
+
+// Fillers are found in the punctuated transcript, since commas decide whether
+// words like "so" are fillers, then matched to the timed words by position.
+// Timed words whose text doesn't line up with the transcript are left unmarked.
+export function findFillerWordIndexes(transcript: string, words: TranscriptWord[]): Set<number> {
+  const tokenOwners: { word: string; index: number }[] = [];
+  words.forEach((word, index) => {
+    wordTokens(word.word).forEach(token => tokenOwners.push({ word: token, index }));
+  });
+  const transcriptTokens = wordTokens(transcript);
+
+  const indexes = new Set<number>();
+  for (const { phrase, wordIndex } of computeTextMetrics(transcript, 0).fillerWords) {
+    phrase.split(' ').forEach((part, offset) => {
+      const owner = tokenOwners[wordIndex + offset];
+      if (owner && owner.word === part && transcriptTokens[wordIndex + offset] === part) {
+        indexes.add(owner.index);
+      }
+    });
+  }
+  return indexes;
+}
@@ -0,0 +1,33 @@
+/**
+ * @fileOverview A canned provider for tests and local development without a speech-to-text backend.
+ *
+ * - createMockProvider - A provider that returns a fixed transcript, or always fails.
+ */
+
+import type { TranscriptionProvider } from '@/lib/transcription/provider';
+import { toTranscriptTimings } from '@/lib/transcript-timing';
+
+export const DEFAULT_MOCK_TRANSCRIPT = 'This is a mock transcript of the recorded answer.';
+// Words are timed as if spoken at an even 150 words per minute.
+const MOCK_SECONDS_PER_WORD = 0.4;
+
+export type MockProviderOptions = {
+  text?: string;
+  error?: string; // Fail every call with this message, e.g. to exercise the fallback
+};
+
+export function createMockProvider({ text = DEFAULT_MOCK_TRANSCRIPT, error }: MockProviderOptions = {}): TranscriptionProvider {
+  return {
+    name: 'mock',
+    async transcribe() {
+      if (error) throw new Error(error);
+      const words = text.split(/\s+/).filter(Boolean).map((word, index) => ({
+        word,
+        start: index * MOCK_SECONDS_PER_WORD,
+        end: (index + 1) * MOCK_SECONDS_PER_WORD,
+      }));
+      const end = words.length * MOCK_SECONDS_PER_WORD;
+      return { text, timings: toTranscriptTimings(words, [{ text, start: 0, end }]) };
+    },
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * @fileOverview Transcription with OpenAI's hosted Whisper model.
+ *
+ * - createOpenAIProvider - A provider that calls `audio.transcriptions.create`.
+ *
+ * Only the Whisper models return word timestamps (`verbose_json`); newer models return text only.
+ */
+
+import OpenAI from 'openai';
+import type { TranscriptionProvider } from '@/lib/transcription/provider';
+import { toTranscriptTimings } from '@/lib/transcript-timing';
+
+const DEFAULT_MODEL = 'whisper-1';
+
+export function createOpenAIProvider(apiKey: string, model: string = DEFAULT_MODEL): TranscriptionProvider {
+  const openai = new OpenAI({ apiKey });
+  return {
+    name: 'openai',
+    async transcribe(audio) {
+      try {
+        if (!model.startsWith('whisper')) {
+          const transcription = await openai.audio.transcriptions.create({ file: audio, model });
+          return { text: transcription.text };
+        }
+        const transcription = await openai.audio.transcriptions.create({
+          file: audio,
+          model,
+          response_format: 'verbose_json',
+          timestamp_granularities: ['word', 'segment'],
+        });
+        return {
+          text: transcription.text,
+          timings: toTranscriptTimings(
+            transcription.words ?? [],
+            (transcription.segments ?? []).map(({ text, start, end }) => ({ text, start, end }))
+          ),
+        };
+      } catch (error) {
+        if (error instanceof OpenAI.APIError && error.status === 401) {
+          throw new Error('Invalid OpenAI API key. Please check your hosting environment variables.');
+        }
+        throw error;
+      }
+    },
+  };
+}
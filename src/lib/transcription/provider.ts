@@ -0,0 +1,18 @@
+/**
+ * @fileOverview The interface implemented by each speech-to-text backend.
+ *
+ * - TranscriptionProvider - Turns an audio recording into text.
+ * - TranscriptionResult - What a provider returns for a recording.
+ */
+
+import type { TranscriptTimings } from '@/lib/transcript-timing';
+
+export type TranscriptionResult = {
+  text: string;
+  timings?: TranscriptTimings; // When the backend reports word timestamps
+};
+
+export type TranscriptionProvider = {
+  name: string; // Shown in logs and returned to the client
+  transcribe: (audio: File) => Promise<TranscriptionResult>;
+};
@@ -0,0 +1,68 @@
+/**
+ * @fileOverview Picks transcription providers from the environment and falls back between them.
+ *
+ * `TRANSCRIPTION_PROVIDERS` lists the providers to try, in order (default `openai`):
+ * - `openai` - needs `OPENAI_API_KEY`; `OPENAI_TRANSCRIPTION_MODEL` overrides `whisper-1`.
+ * - `whisper-server` - needs `WHISPER_SERVER_URL`; optional `WHISPER_SERVER_MODEL` and `WHISPER_SERVER_API_KEY`.
+ * - `mock` - returns `TRANSCRIPTION_MOCK_TEXT`, or fails with `TRANSCRIPTION_MOCK_ERROR` when set.
+ *
+ * - getConfiguredProviders - Builds the configured providers, skipping ones that are missing settings.
+ * - transcribeWithFallback - Tries each provider in turn until one succeeds.
+ */
+
+import type { TranscriptionProvider, TranscriptionResult } from '@/lib/transcription/provider';
+import { createOpenAIProvider } from '@/lib/transcription/openai';
+import { createWhisperServerProvider } from '@/lib/transcription/whisper-server';
+import { createMockProvider } from '@/lib/transcription/mock';
+
+const DEFAULT_PROVIDERS = 'openai';
+
+type Env = Record<string, string | undefined>;
+
+// Returns null when the provider's settings are missing.
+const providerFactories: Record<string, (env: Env) => TranscriptionProvider | null> = {
+  openai: env => (env.OPENAI_API_KEY ? createOpenAIProvider(env.OPENAI_API_KEY, env.OPENAI_TRANSCRIPTION_MODEL || undefined) : null),
+  'whisper-server': env => (env.WHISPER_SERVER_URL
+    ? createWhisperServerProvider({
+        url: env.WHISPER_SERVER_URL,
+        model: env.WHISPER_SERVER_MODEL || undefined,
+        apiKey: env.WHISPER_SERVER_API_KEY || undefined,
+      })
+    : null),
+  mock: env => createMockProvider({ text: env.TRANSCRIPTION_MOCK_TEXT || undefined, error: env.TRANSCRIPTION_MOCK_ERROR || undefined }),
+};
+
+export function getConfiguredProviders(env: Env = process.env): TranscriptionProvider[] {
+  const names = (env.TRANSCRIPTION_PROVIDERS || DEFAULT_PROVIDERS).split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+  return names.flatMap(name => {
+    const factory = providerFactories[name];
+    if (!factory) {
+      console.warn(`Unknown transcription provider "${name}" in TRANSCRIPTION_PROVIDERS; skipping it.`);
+      return [];
+    }
+    const provider = factory(env);
+    if (!provider) {
+      console.warn(`Transcription provider "${name}" is missing its settings; skipping it.`);
+      return [];
+    }
+    return [provider];
+  });
+}
+
+// Throws with every provider's error when none of them succeed.
+export async function transcribeWithFallback(
+  providers: TranscriptionProvider[],
+  audio: File
+): Promise<TranscriptionResult & { provider: string }> {
+  const failures: string[] = [];
+  for (const provider of providers) {
+    try {
+      const result = await provider.transcribe(audio);
+      return { ...result, provider: provider.name };
+    } catch (error) {
+      console.error(`Transcription provider "${provider.name}" failed:`, error);
+      failures.push(`${provider.name}: ${error instanceof Error ? error.message : 'Unknown error.'}`);
+    }
+  }
+  throw new Error(failures.join('; ') || 'No transcription providers are configured.');
+}
@@ -0,0 +1,78 @@
+/**
+ * @fileOverview Transcription with a self-hosted Whisper server, e.g. whisper.cpp's
+ * `server` (`/inference`) or a faster-whisper server with an OpenAI-compatible
+ * `/v1/audio/transcriptions` endpoint. Both take a multipart `file` field and
+ * answer `{ text, segments }` for `response_format=verbose_json`. Word timestamps
+ * come either at the top level (`words`) or per segment, depending on the server.
+ *
+ * - createWhisperServerProvider - A provider that posts the recording to the server.
+ */
+
+import type { TranscriptionProvider } from '@/lib/transcription/provider';
+import { toTranscriptTimings, type TranscriptSegment, type TranscriptWord } from '@/lib/transcript-timing';
+
+// Local models on a CPU can be slow; give up well before the client does.
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+// Servers differ in what they fill in, so words and segments are checked field by field.
+type Untrusted<T> = { [K in keyof T]?: unknown } | null;
+
+const isTimed = (item: Untrusted<{ start: number; end: number }>) =>
+  typeof item === 'object' && item !== null && typeof item.start === 'number' && typeof item.end === 'number';
+
+const isTimedWord = (item: Untrusted<TranscriptWord>): item is TranscriptWord => isTimed(item) && typeof item?.word === 'string';
+
+const isTimedSegment = (item: Untrusted<TranscriptSegment>): item is TranscriptSegment => isTimed(item) && typeof item?.text === 'string';
+
+export type WhisperServerOptions = {
+  url: string;
+  model?: string; // Sent as `model`; whisper.cpp ignores it
+  apiKey?: string; // Sent as a bearer token when the server is behind auth
+  timeoutMs?: number;
+};
+
+type VerboseResponse = {
+  text?: unknown;
+  words?: Untrusted<TranscriptWord>[];
+  segments?: (Untrusted<TranscriptSegment> & { words?: unknown })[];
+};
+
+export function createWhisperServerProvider({ url, model, apiKey, timeoutMs = DEFAULT_TIMEOUT_MS }: WhisperServerOptions): TranscriptionProvider {
+  return {
+    name: 'whisper-server',
+    async transcribe(audio) {
+      const body = new FormData();
+      body.append('file', audio, audio.name || 'recording.webm');
+      body.append('response_format', 'verbose_json');
+      body.append('timestamp_granularities[]', 'word');
+      body.append('timestamp_granularities[]', 'segment');
+      if (model) body.append('model', model);
+
+      const response = await fetch(url, {
+        method: 'POST',
+        body,
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`Whisper server responded with ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+      }
+      const data = await response.json() as VerboseResponse;
+      if (typeof data.text !== 'string') {
+        throw new Error('Whisper server returned no transcript.');
+      }
+      const segments = Array.isArray(data.segments) ? data.segments : [];
+      const words: Untrusted<TranscriptWord>[] = Array.isArray(data.words)
+        ? data.words
+        : segments.flatMap(segment => (Array.isArray(segment?.words) ? segment.words : []));
+      return {
+        text: data.text.trim(),
+        timings: toTranscriptTimings(
+          words.filter(isTimedWord).map(({ word, start, end }) => ({ word, start, end })),
+          segments.filter(isTimedSegment).map(({ text, start, end }) => ({ text, start, end }))
+        ),
+      };
+    },
+  };
+}
@@ -1,6 +1,13 @@
 import type { EvaluateAnswerOutput } from '@/ai/flows/evaluate-answer';
 import type { AnalyzeCommunicationOutput } from '@/ai/flows/analyze-communication-flow';
 import type { AnalyzePresentationOutput } from '@/ai/flows/analyze-presentation-flow';
+import type { SummarizeInterviewSessionOutput } from '@/ai/flows/summarize-interview-session';
+import type { ResumeProfile } from '@/lib/resume-profile';
+import type { Competency, JobDescriptionAnalysis } from '@/lib/job-description';
+import type { StarAnalysis } from '@/lib/star-analysis';
+import type { TranscriptTimings } from '@/lib/transcript-timing';
+import type { PauseMetrics } from '@/lib/pause-analysis';
+import type { Rubric } from '@/lib/rubrics';
 
 // === INTERVIEW TYPES ===
 
@@ -19,6 +26,11 @@ export interface InterviewSettings {
   difficultyLevel: DifficultyLevel;
   numQuestions: QuestionCount;
   customQuestion?: string;
+  resumeProfile?: ResumeProfile; // Ground generated questions in the user's resume
+  jobDescription?: string; // A pasted job posting; questions are generated per competency it asks for
+  rubric?: Pick<Rubric, 'id' | 'name' | 'criteria'>; // A custom rubric; otherwise the built-in one for the interview type
+  questionIds?: string[]; // Ask these question bank questions, in order, instead of generating questions
+  dailyQuestions?: string[]; // Ask today's daily practice set
 }
 
 export interface StoredAttempt {
@@ -31,9 +43,90 @@ export interface StoredAttempt {
   communicationAnalysis?: AnalyzeCommunicationOutput;
   recordingDurationSeconds?: number; // Duration of video/audio input
   recordedVideoUrl?: string; // URL for the recorded video playback
+  recordingPath?: string; // Path of the saved recording in the `recordings` storage bucket
   practiceMode: 'video' | 'audio';
+  followUps?: FollowUpExchange[]; // The follow-up thread; `evaluation` covers the whole exchange
+  sessionId?: string; // The interview session this answer was given in
+  starAnalysis?: StarAnalysis; // Behavioral interviews only
+  transcriptTimings?: TranscriptTimings; // Word timestamps of the recording, when the transcriber reports them
+  pauseMetrics?: PauseMetrics; // Measured from the recording; kept even when the analyses fail
 }
 
+// One run of the interview page, from setup to "Finish". The report is
+// generated when the session is finished.
+export interface InterviewSession {
+  id: string;
+  timestamp: number;
+  completedAt?: number;
+  settings: Pick<InterviewSettings, 'jobRole' | 'interviewType' | 'difficultyLevel'>;
+  questions: SessionQuestion[];
+  jobAnalysis?: JobDescriptionAnalysis; // Job posting mode only
+  report?: SummarizeInterviewSessionOutput;
+}
+
+export interface SessionQuestion {
+  question: string;
+  competency?: string; // Job posting mode only
+  attemptId?: string; // Unset when the question was not answered
+  score?: number;
+  communicationAnalysis?: AnalyzeCommunicationOutput;
+}
+
+// A question saved to the user's question bank. Tags are optional because
+// imported questions may not have them.
+export interface BankQuestion {
+  id: string;
+  timestamp: number;
+  question: string;
+  jobRole?: string;
+  interviewType?: InterviewType;
+  difficultyLevel?: DifficultyLevel;
+  starred: boolean;
+  source: 'generated' | 'imported' | 'custom';
+}
+
+export type BankQuestionDraft = Omit<BankQuestion, 'id' | 'timestamp' | 'starred'>;
+
+// One answered follow-up question. Exchanges form a tree through `parentId`:
+// null means it follows up on the attempt's main question.
+export interface FollowUpExchange {
+  id: string;
+  parentId: string | null;
+  question: string;
+  answer: string;
+  recordingDurationSeconds?: number;
+}
+
+// A generated follow-up that has not been answered yet.
+export type SuggestedFollowUp = Pick<FollowUpExchange, 'id' | 'parentId' | 'question'>;
+
+// An answer recorded while offline (or whose evaluation failed on a dropped
+// connection). It is replayed through the AI flows once the browser is back online.
+export interface PendingInterviewSubmission {
+  id: string; // Becomes the StoredAttempt id once synced
+  userId: string; // Only synced into, and shown to, the user who recorded it
+  timestamp: number;
+  question: string;
+  userAnswer: string;
+  recordingDurationSeconds: number;
+  settings: Pick<InterviewSettings, 'jobRole' | 'interviewType' | 'difficultyLevel'>;
+  practiceMode: 'video' | 'audio';
+  evaluation?: EvaluateAnswerOutput; // Present when only the database write failed
+  communicationAnalysis?: AnalyzeCommunicationOutput;
+  starAnalysis?: StarAnalysis;
+  transcriptTimings?: TranscriptTimings;
+  pauseMetrics?: PauseMetrics; // Measured before queuing; the audio itself is not kept
+  rubric?: InterviewSettings['rubric']; // Graded against when the answer is replayed
+  competency?: Competency; // Job posting mode: the competency the question tests
+  sessionId?: string; // The interview session the answer was given in
+  syncAttempts: number; // Failed syncs; retried automatically until MAX_SYNC_ATTEMPTS
+  lastError?: string;
+}
+
+export interface RecordingUploadState {
+  status: 'idle' | 'uploading' | 'saved' | 'failed' | 'blocked'; // 'blocked' = over the storage quota
+  progress: number; // 0-100
+}
 
 // === PRESENTATION TYPES ===
 
@@ -54,5 +147,7 @@ export interface StoredPresentationAttempt {
     analysis: AnalyzePresentationOutput;
     actualDurationSeconds: number;
     recordedVideoUrl?: string;
+    recordingPath?: string;
     practiceMode: 'video' | 'audio';
+    transcriptTimings?: TranscriptTimings; // Word timestamps of the recording, when the transcriber reports them
 }
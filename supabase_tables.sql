@@ -92,3 +92,264 @@ create policy "Users can update their own presentation attempts." on presentatio
 
 create policy "Users can delete their own presentation attempts." on presentation_attempts
   for delete using (auth.uid() = user_id);
+
+-- Store recorded answers and presentations in a private storage bucket.
+-- Each user's files live under a folder named after their user id.
+insert into storage.buckets (id, name, public)
+  values ('recordings', 'recordings', false)
+  on conflict (id) do nothing;
+
+create policy "Users can view their own recordings." on storage.objects
+  for select using (bucket_id = 'recordings' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can upload their own recordings." on storage.objects
+  for insert with check (bucket_id = 'recordings' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can update their own recordings." on storage.objects
+  for update using (bucket_id = 'recordings' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can delete their own recordings." on storage.objects
+  for delete using (bucket_id = 'recordings' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Path of the attempt's recording inside the `recordings` bucket
+alter table interview_attempts
+  add column if not exists recording_path text;
+
+alter table presentation_attempts
+  add column if not exists recording_path text;
+
+
+-- Create a table for per-user recording retention settings
+create table recording_settings (
+  user_id uuid references auth.users not null primary key,
+  keep_last_n integer,
+  max_age_days integer,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Set up Row Level Security for recording_settings
+alter table recording_settings
+  enable row level security;
+
+create policy "Users can view their own recording settings." on recording_settings
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own recording settings." on recording_settings
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own recording settings." on recording_settings
+  for update using (auth.uid() = user_id);
+
+-- Columns and indexes that back the filterable attempt history
+alter table interview_attempts
+  add column if not exists score numeric generated always as ((evaluation->>'score')::numeric) stored;
+
+alter table interview_attempts
+  add column if not exists search_vector tsvector generated always as (
+    to_tsvector('english', coalesce(question, '') || ' ' || coalesce(user_answer, ''))
+  ) stored;
+
+create index if not exists interview_attempts_user_created_idx on interview_attempts (user_id, created_at desc);
+create index if not exists interview_attempts_search_idx on interview_attempts using gin (search_vector);
+
+-- Follow-up questions and answers asked after the main question
+alter table interview_attempts
+  add column if not exists follow_ups jsonb;
+
+
+-- Create a table for the structured profile extracted from each user's resume
+create table resume_profiles (
+  user_id uuid references auth.users not null primary key,
+  file_name text,
+  profile jsonb not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Set up Row Level Security for resume_profiles
+alter table resume_profiles
+  enable row level security;
+
+create policy "Users can view their own resume profile." on resume_profiles
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own resume profile." on resume_profiles
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own resume profile." on resume_profiles
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own resume profile." on resume_profiles
+  for delete using (auth.uid() = user_id);
+
+
+-- Create a table for interview sessions, which group the attempts of one run
+create table interview_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  completed_at timestamp with time zone,
+  settings jsonb not null,
+  questions jsonb not null default '[]'::jsonb,
+  job_analysis jsonb,
+  report jsonb
+);
+
+-- Set up Row Level Security for interview_sessions
+alter table interview_sessions
+  enable row level security;
+
+create policy "Users can view their own interview sessions." on interview_sessions
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own interview sessions." on interview_sessions
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own interview sessions." on interview_sessions
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own interview sessions." on interview_sessions
+  for delete using (auth.uid() = user_id);
+
+create index if not exists interview_sessions_user_created_idx on interview_sessions (user_id, created_at desc);
+
+alter table interview_attempts
+  add column if not exists session_id uuid references interview_sessions on delete set null;
+
+-- STAR-method analysis of behavioral answers
+alter table interview_attempts
+  add column if not exists star_analysis jsonb;
+
+-- Word- and segment-level timestamps of the transcribed recording
+alter table interview_attempts
+  add column if not exists transcript_timings jsonb;
+
+
+-- Create a table for custom evaluation rubrics defined by users
+create table rubrics (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  name text not null,
+  description text,
+  criteria jsonb not null
+);
+
+-- Set up Row Level Security for rubrics
+alter table rubrics
+  enable row level security;
+
+create policy "Users can view their own rubrics." on rubrics
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own rubrics." on rubrics
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own rubrics." on rubrics
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own rubrics." on rubrics
+  for delete using (auth.uid() = user_id);
+
+create index if not exists rubrics_user_updated_idx on rubrics (user_id, updated_at desc);
+
+
+-- Create a table for each user's personal question bank
+create table bank_questions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  question text not null,
+  job_role text,
+  interview_type text,
+  difficulty_level text,
+  starred boolean not null default false,
+  source text not null default 'custom',
+  unique (user_id, question)
+);
+
+-- Set up Row Level Security for bank_questions
+alter table bank_questions
+  enable row level security;
+
+create policy "Users can view their own bank questions." on bank_questions
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own bank questions." on bank_questions
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own bank questions." on bank_questions
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own bank questions." on bank_questions
+  for delete using (auth.uid() = user_id);
+
+create index if not exists bank_questions_user_created_idx on bank_questions (user_id, created_at desc);
+
+-- The per-user recording quota. /api/recordings/quota reads it from here too.
+create or replace function public.recording_quota_bytes()
+returns bigint
+language sql
+immutable
+as $$ select 500::bigint * 1024 * 1024 $$;
+
+-- Enforce the quota in the database, so an upload that skips the API check is
+-- still rejected. Storage writes the object's row, with its size, once the upload
+-- completes. An upsert replaces the old file, so that file is not counted.
+create or replace function public.enforce_recording_quota()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  used_bytes bigint;
+begin
+  select coalesce(sum((metadata->>'size')::bigint), 0) into used_bytes
+    from storage.objects
+    where bucket_id = 'recordings'
+      and (storage.foldername(name))[1] = (storage.foldername(new.name))[1]
+      and name <> new.name;
+
+  if used_bytes + coalesce((new.metadata->>'size')::bigint, 0) > public.recording_quota_bytes() then
+    raise exception 'Recording storage quota exceeded' using errcode = 'check_violation';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger enforce_recording_quota
+  before insert or update of metadata on storage.objects
+  for each row
+  when (new.bucket_id = 'recordings')
+  execute function public.enforce_recording_quota();
+
+-- Retention policies are applied by GET /api/recordings/retention/scheduled,
+-- which needs SUPABASE_SERVICE_ROLE_KEY and CRON_SECRET on the server. One way to
+-- run it daily, with pg_cron and pg_net enabled:
+-- select cron.schedule('recording-retention', '0 3 * * *', $$
+--   select net.http_get(
+--     url := 'https://<your-app>/api/recordings/retention/scheduled',
+--     headers := jsonb_build_object('Authorization', 'Bearer <CRON_SECRET>')
+--   )
+-- $$);
+
+-- Rubrics can be shared with everyone on the deployment (e.g. a coaching team);
+-- only the owner can edit or delete them.
+alter table rubrics
+  add column if not exists shared boolean not null default false;
+
+drop policy if exists "Users can view their own rubrics." on rubrics;
+
+create policy "Users can view their own and shared rubrics." on rubrics
+  for select using (auth.uid() = user_id or shared);
+
+create index if not exists rubrics_shared_updated_idx on rubrics (updated_at desc) where shared;
+
+-- Word- and segment-level timestamps of the transcribed presentation recording
+alter table presentation_attempts
+  add column if not exists transcript_timings jsonb;
+
+-- Pause metrics measured from the answer's audio
+alter table interview_attempts
+  add column if not exists pause_metrics jsonb;